@@ -0,0 +1,84 @@
+import type { NodeId } from './workspaceTypes';
+
+export type EditorTab = {
+  id: NodeId;
+  name: string;
+  path: string;
+  /** Content differs from the last save; shown as a dot. */
+  dirty: boolean;
+};
+
+type EditorTabsProps = {
+  tabs: EditorTab[];
+  activeId: NodeId | null;
+  isLight: boolean;
+  onSelect: (id: NodeId) => void;
+  onClose: (id: NodeId) => void;
+};
+
+export function EditorTabs({ tabs, activeId, isLight, onSelect, onClose }: EditorTabsProps) {
+  if (tabs.length === 0) return null;
+
+  return (
+    <div
+      role="tablist"
+      className={['flex overflow-x-auto border-b text-xs', isLight ? 'border-black/10 bg-black/[0.02]' : 'border-white/10 bg-black/20'].join(
+        ' '
+      )}
+    >
+      {tabs.map((tab) => {
+        const isActive = tab.id === activeId;
+        return (
+          <div
+            key={tab.id}
+            className={[
+              'group shrink-0 flex items-center gap-1 pl-3 pr-1 h-8 border-r',
+              isLight ? 'border-black/10' : 'border-white/10',
+              isActive
+                ? isLight
+                  ? 'bg-white text-[#0b1220]'
+                  : 'bg-[#1d2433] text-[#d7dce2]'
+                : isLight
+                  ? 'text-black/55 hover:bg-black/[0.03]'
+                  : 'text-[#8695b7] hover:bg-white/5',
+            ].join(' ')}
+          >
+            <button
+              type="button"
+              role="tab"
+              aria-selected={isActive}
+              onClick={() => onSelect(tab.id)}
+              onAuxClick={(e) => {
+                // Middle click closes, as in most editors.
+                if (e.button === 1) onClose(tab.id);
+              }}
+              className="max-w-48 truncate focus:outline-none"
+              title={tab.dirty ? `${tab.path} (unsaved)` : tab.path}
+            >
+              {tab.name}
+            </button>
+            <button
+              type="button"
+              onClick={() => onClose(tab.id)}
+              className={[
+                'w-5 h-5 grid place-items-center rounded focus:outline-none',
+                isLight ? 'hover:bg-black/10' : 'hover:bg-white/10',
+              ].join(' ')}
+              aria-label={`Close ${tab.name}`}
+              title={tab.dirty ? 'Unsaved changes' : 'Close'}
+            >
+              {tab.dirty ? (
+                <>
+                  <span className="group-hover:hidden text-[10px] leading-none">●</span>
+                  <span className="hidden group-hover:inline leading-none">×</span>
+                </>
+              ) : (
+                <span className="leading-none">×</span>
+              )}
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
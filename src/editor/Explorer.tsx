@@ -1,14 +1,41 @@
-import { useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import type { NodeId, WorkspaceState } from './workspaceTypes';
-import { getNodePath, isFile, isFolder } from './workspaceTypes';
+import { getNodePath, isFile, isFolder, validateMove, validateNodeName } from './workspaceTypes';
+
+/** Workspace operations behind the context menu, inline rename and drag-and-drop. */
+export type ExplorerActions = {
+  createFile: (parentFolderId: NodeId, name: string) => NodeId | null;
+  createFolder: (parentFolderId: NodeId, name: string) => NodeId | null;
+  renameNode: (nodeId: NodeId, name: string) => void;
+  duplicateNode: (nodeId: NodeId) => NodeId | null;
+  moveNode: (nodeId: NodeId, targetFolderId: NodeId) => void;
+  deleteNode: (nodeId: NodeId) => void;
+  undo: () => void;
+  redo: () => void;
+  /** What undo/redo would do (shown as tooltips), or null when there is nothing to undo/redo. */
+  undoLabel: string | null;
+  redoLabel: string | null;
+};
 
 type ExplorerProps = {
   workspace: WorkspaceState;
   activeFileIds: Array<NodeId | null>;
   onOpenFile: (fileId: NodeId) => void;
   renderFileIcon?: (filePath: string, size?: number) => React.ReactNode;
+  isLight?: boolean;
+  /** Without actions the tree is read-only (open and expand only). */
+  actions?: ExplorerActions;
 };
 
+type ContextMenu = { nodeId: NodeId; x: number; y: number; confirmingDelete: boolean };
+
+// An inline name input: renaming a node, or naming a new file/folder inside `parentId`.
+type Editing =
+  | { kind: 'rename'; nodeId: NodeId; value: string; error: string | null }
+  | { kind: 'create'; parentId: NodeId; type: 'file' | 'folder'; value: string; error: string | null };
+
+const DRAG_MIME = 'application/x-workspace-node';
+
 function sortChildren(workspace: WorkspaceState, ids: NodeId[]): NodeId[] {
   return [...ids].sort((a, b) => {
     const na = workspace.nodes[a];
@@ -19,40 +46,225 @@ function sortChildren(workspace: WorkspaceState, ids: NodeId[]): NodeId[] {
   });
 }
 
-export function Explorer({ workspace, activeFileIds, onOpenFile, renderFileIcon }: ExplorerProps) {
+export function Explorer({ workspace, activeFileIds, onOpenFile, renderFileIcon, isLight = false, actions }: ExplorerProps) {
   const [expanded, setExpanded] = useState<Record<NodeId, boolean>>(() => ({ src: true }));
+  const [menu, setMenu] = useState<ContextMenu | null>(null);
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [dragging, setDragging] = useState<NodeId | null>(null);
+  const [dropTarget, setDropTarget] = useState<NodeId | null>(null);
+  // The edit last applied or dismissed; the input's blur on unmount must not apply it twice.
+  const settledEditRef = useRef<Editing | null>(null);
 
   const activeSet = useMemo(() => new Set(activeFileIds.filter(Boolean) as NodeId[]), [activeFileIds]);
 
+  useEffect(() => {
+    if (!menu) return;
+    const close = () => setMenu(null);
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') close();
+    };
+    window.addEventListener('mousedown', close);
+    window.addEventListener('resize', close);
+    window.addEventListener('blur', close);
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      window.removeEventListener('mousedown', close);
+      window.removeEventListener('resize', close);
+      window.removeEventListener('blur', close);
+      window.removeEventListener('keydown', onKeyDown);
+    };
+  }, [menu]);
+
   const toggle = (id: NodeId) => {
     if (id === workspace.rootId) return;
     setExpanded((prev) => ({ ...prev, [id]: !prev[id] }));
   };
 
+  const muted = isLight ? 'text-black/50' : 'text-[#8695b7]';
+
+  const openMenu = (e: React.MouseEvent, nodeId: NodeId) => {
+    if (!actions) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setMenu({ nodeId, x: e.clientX, y: e.clientY, confirmingDelete: false });
+  };
+
+  const startCreate = (parentId: NodeId, type: 'file' | 'folder') => {
+    setExpanded((prev) => ({ ...prev, [parentId]: true }));
+    setEditing({ kind: 'create', parentId, type, value: '', error: null });
+    setMenu(null);
+  };
+
+  const startRename = (nodeId: NodeId) => {
+    const node = workspace.nodes[nodeId];
+    if (!node) return;
+    setEditing({ kind: 'rename', nodeId, value: node.name, error: null });
+    setMenu(null);
+  };
+
+  const closeEditing = () => {
+    settledEditRef.current = editing;
+    setEditing(null);
+  };
+
+  // Applies the inline edit; an invalid name keeps the input open with the reason.
+  const commitEditing = (cancelIfInvalid: boolean) => {
+    if (!editing || !actions || settledEditRef.current === editing) return;
+    const parentId = editing.kind === 'create' ? editing.parentId : workspace.nodes[editing.nodeId]?.parentId;
+    if (!parentId) {
+      closeEditing();
+      return;
+    }
+    if (editing.kind === 'rename' && editing.value.trim() === workspace.nodes[editing.nodeId]?.name) {
+      closeEditing();
+      return;
+    }
+    const error = validateNodeName(workspace, parentId, editing.value, editing.kind === 'rename' ? editing.nodeId : undefined);
+    if (error) {
+      if (cancelIfInvalid) closeEditing();
+      else setEditing({ ...editing, error });
+      return;
+    }
+    closeEditing();
+    if (editing.kind === 'rename') {
+      actions.renameNode(editing.nodeId, editing.value);
+    } else if (editing.type === 'folder') {
+      const id = actions.createFolder(parentId, editing.value);
+      if (id) setExpanded((prev) => ({ ...prev, [id]: true }));
+    } else {
+      const id = actions.createFile(parentId, editing.value);
+      if (id) onOpenFile(id);
+    }
+  };
+
+  const copyPath = (nodeId: NodeId) => {
+    setMenu(null);
+    navigator.clipboard?.writeText(getNodePath(workspace, nodeId)).catch(() => {
+      // ignore
+    });
+  };
+
+  // Dropping on a file moves into the folder that holds it.
+  const dropFolderFor = (nodeId: NodeId): NodeId | null => {
+    const node = workspace.nodes[nodeId];
+    if (!node) return null;
+    return isFolder(node) ? node.id : node.parentId;
+  };
+
+  const dragProps = (nodeId: NodeId) => {
+    if (!actions) return {};
+    const isRoot = nodeId === workspace.rootId;
+    return {
+      draggable: !isRoot && editing === null,
+      onDragStart: (e: React.DragEvent) => {
+        e.stopPropagation();
+        e.dataTransfer.setData(DRAG_MIME, nodeId);
+        e.dataTransfer.effectAllowed = 'move';
+        setDragging(nodeId);
+      },
+      onDragEnd: () => {
+        setDragging(null);
+        setDropTarget(null);
+      },
+      onDragOver: (e: React.DragEvent) => {
+        const target = dropFolderFor(nodeId);
+        if (!dragging || !target || validateMove(workspace, dragging, target)) return;
+        e.preventDefault();
+        e.stopPropagation();
+        e.dataTransfer.dropEffect = 'move';
+        setDropTarget(target);
+      },
+      onDragLeave: () => setDropTarget(null),
+      onDrop: (e: React.DragEvent) => {
+        const target = dropFolderFor(nodeId);
+        const dragged = e.dataTransfer.getData(DRAG_MIME);
+        setDragging(null);
+        setDropTarget(null);
+        if (!target || !dragged) return;
+        e.preventDefault();
+        e.stopPropagation();
+        actions.moveNode(dragged, target);
+        setExpanded((prev) => ({ ...prev, [target]: true }));
+      },
+    };
+  };
+
+  const renderNameInput = (depth: number, placeholder: string) => {
+    if (!editing) return null;
+    return (
+      <div style={{ paddingLeft: 8 + depth * 14 }} className="pr-1 py-0.5">
+        <input
+          autoFocus
+          value={editing.value}
+          onChange={(e) => setEditing({ ...editing, value: e.target.value, error: null })}
+          onFocus={(e) => {
+            // Select the base name so typing keeps the extension, as in VS Code.
+            const dot = e.target.value.lastIndexOf('.');
+            e.target.setSelectionRange(0, dot > 0 ? dot : e.target.value.length);
+          }}
+          onBlur={() => commitEditing(true)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitEditing(false);
+            if (e.key === 'Escape') closeEditing();
+          }}
+          placeholder={placeholder}
+          aria-label={placeholder}
+          aria-invalid={editing.error !== null}
+          className={
+            'w-full h-6 px-1.5 rounded border text-xs focus:outline-none ' +
+            (editing.error
+              ? 'border-[#ef4444]'
+              : isLight
+                ? 'border-black/20 bg-white text-[#0b1220]'
+                : 'border-white/20 bg-[#0f1420] text-[#d7dce2]')
+          }
+        />
+        {editing.error && (
+          <div role="alert" className={'mt-0.5 text-[11px] ' + (isLight ? 'text-[#b91c1c]' : 'text-[#ff7b72]')}>
+            {editing.error}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const renderNode = (id: NodeId, depth: number): React.ReactNode => {
     const node = workspace.nodes[id];
     if (!node) return null;
 
+    if (editing?.kind === 'rename' && editing.nodeId === id) {
+      return renderNameInput(depth, isFolder(node) ? 'Folder name' : 'File name');
+    }
+
     if (isFolder(node)) {
       const isRoot = node.parentId === null;
       const isOpen = isRoot ? true : !!expanded[node.id];
       const label = isRoot ? 'WORKSPACE' : node.name;
       const children = sortChildren(workspace, node.childrenIds);
+      const childDepth = isRoot ? 0 : depth + 1;
 
       return (
         <div key={node.id}>
           <button
             type="button"
             onClick={() => toggle(node.id)}
+            onContextMenu={(e) => openMenu(e, node.id)}
+            {...dragProps(node.id)}
             className={
               'w-full flex items-center gap-2 px-2 py-1 rounded text-left ' +
-              (isRoot ? 'text-[#8695b7] uppercase tracking-wide text-xs' : 'text-[#a2aabc] hover:bg-[#1d2433]')
+              (isRoot
+                ? `${muted} uppercase tracking-wide text-xs`
+                : isLight
+                  ? 'text-black/70 hover:bg-black/5'
+                  : 'text-[#a2aabc] hover:bg-[#1d2433]') +
+              (dropTarget === node.id ? (isLight ? ' ring-1 ring-[#2563eb]/50 bg-[#2563eb]/10' : ' ring-1 ring-[#79c0ff]/50 bg-[#79c0ff]/10') : '') +
+              (dragging === node.id ? ' opacity-50' : '')
             }
             style={{ paddingLeft: isRoot ? 12 : 8 + depth * 14 }}
             aria-expanded={isOpen}
           >
             {!isRoot ? (
-              <span className="w-3 text-[#8695b7] select-none">{isOpen ? '▾' : '▸'}</span>
+              <span className={`w-3 select-none ${muted}`}>{isOpen ? '▾' : '▸'}</span>
             ) : (
               <span className="w-3" />
             )}
@@ -61,8 +273,11 @@ export function Explorer({ workspace, activeFileIds, onOpenFile, renderFileIcon
 
           {isOpen && (
             <div>
+              {editing?.kind === 'create' &&
+                editing.parentId === node.id &&
+                renderNameInput(childDepth, editing.type === 'folder' ? 'New folder name' : 'New file name')}
               {children.map((childId) => (
-                <div key={childId}>{renderNode(childId, isRoot ? 0 : depth + 1)}</div>
+                <div key={childId}>{renderNode(childId, childDepth)}</div>
               ))}
             </div>
           )}
@@ -78,7 +293,19 @@ export function Explorer({ workspace, activeFileIds, onOpenFile, renderFileIcon
           key={node.id}
           type="button"
           onClick={() => onOpenFile(node.id)}
-          className={'w-full text-left flex items-center gap-2 px-2 py-1 rounded ' + (isActive ? 'bg-[#2f3b54] text-[#d7dce2]' : 'hover:bg-[#1d2433] text-[#a2aabc]')}
+          onContextMenu={(e) => openMenu(e, node.id)}
+          {...dragProps(node.id)}
+          className={
+            'w-full text-left flex items-center gap-2 px-2 py-1 rounded ' +
+            (isActive
+              ? isLight
+                ? 'bg-black/[0.06] text-[#0b1220]'
+                : 'bg-[#2f3b54] text-[#d7dce2]'
+              : isLight
+                ? 'hover:bg-black/5 text-black/70'
+                : 'hover:bg-[#1d2433] text-[#a2aabc]') +
+            (dragging === node.id ? ' opacity-50' : '')
+          }
           style={{ paddingLeft: 8 + depth * 14 }}
           title={path}
         >
@@ -91,6 +318,153 @@ export function Explorer({ workspace, activeFileIds, onOpenFile, renderFileIcon
     return null;
   };
 
-  return <div className="px-2 pb-4 space-y-0.5">{renderNode(workspace.rootId, 0)}</div>;
-}
+  const renderMenu = () => {
+    if (!menu || !actions) return null;
+    const node = workspace.nodes[menu.nodeId];
+    if (!node) return null;
+    const isRoot = node.parentId === null;
+    const folderId = isFolder(node) ? node.id : node.parentId;
+    const itemClass =
+      'w-full text-left px-3 py-1 focus:outline-none ' + (isLight ? 'hover:bg-black/5 focus:bg-black/5' : 'hover:bg-white/10 focus:bg-white/10');
+    const separator = <div className={'my-1 border-t ' + (isLight ? 'border-black/10' : 'border-white/10')} />;
 
+    return (
+      <div
+        role="menu"
+        className={
+          'fixed z-50 min-w-44 py-1 rounded-md border shadow-xl text-xs ' +
+          (isLight ? 'border-black/10 bg-white text-[#0b1220]' : 'border-white/10 bg-[#1d2433] text-[#d7dce2]')
+        }
+        style={{ left: Math.min(menu.x, window.innerWidth - 190), top: Math.min(menu.y, window.innerHeight - 220) }}
+        onMouseDown={(e) => e.stopPropagation()}
+        onContextMenu={(e) => e.preventDefault()}
+      >
+        {menu.confirmingDelete ? (
+          <div className="px-3 py-1.5 space-y-1.5">
+            <div className="max-w-56">
+              Delete <span className="font-medium">{node.name}</span>
+              {isFolder(node) && node.childrenIds.length > 0 ? ' and everything in it' : ''}?
+            </div>
+            <div className="flex gap-1.5">
+              <button
+                type="button"
+                autoFocus
+                className="h-6 px-2 rounded bg-[#dc2626] text-white font-medium focus:outline-none focus:ring-2 focus:ring-[#dc2626]/40"
+                onClick={() => {
+                  setMenu(null);
+                  actions.deleteNode(node.id);
+                }}
+              >
+                Delete
+              </button>
+              <button
+                type="button"
+                className={'h-6 px-2 rounded focus:outline-none ' + (isLight ? 'hover:bg-black/5' : 'hover:bg-white/10')}
+                onClick={() => setMenu(null)}
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            {folderId && (
+              <>
+                <button type="button" role="menuitem" className={itemClass} onClick={() => startCreate(folderId, 'file')}>
+                  New File…
+                </button>
+                <button type="button" role="menuitem" className={itemClass} onClick={() => startCreate(folderId, 'folder')}>
+                  New Folder…
+                </button>
+              </>
+            )}
+            {!isRoot && (
+              <>
+                {separator}
+                <button type="button" role="menuitem" className={itemClass} onClick={() => startRename(node.id)}>
+                  Rename…
+                </button>
+                <button
+                  type="button"
+                  role="menuitem"
+                  className={itemClass}
+                  onClick={() => {
+                    setMenu(null);
+                    actions.duplicateNode(node.id);
+                  }}
+                >
+                  Duplicate
+                </button>
+                <button type="button" role="menuitem" className={itemClass} onClick={() => copyPath(node.id)}>
+                  Copy Path
+                </button>
+                {separator}
+                <button
+                  type="button"
+                  role="menuitem"
+                  className={itemClass + ' ' + (isLight ? 'text-[#b91c1c]' : 'text-[#ff7b72]')}
+                  onClick={() => setMenu({ ...menu, confirmingDelete: true })}
+                >
+                  Delete…
+                </button>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  // Cmd/Ctrl+Z and Shift+Cmd/Ctrl+Z (or Ctrl+Y) undo and redo while the tree has focus;
+  // in the editor the same keys keep undoing text.
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (!actions || e.target instanceof HTMLInputElement || !(e.metaKey || e.ctrlKey)) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' || key === 'y') {
+      e.preventDefault();
+      if (key === 'y' || e.shiftKey) actions.redo();
+      else actions.undo();
+    }
+  };
+
+  const historyButtonClass =
+    'h-6 px-1.5 rounded text-[11px] focus:outline-none focus:ring-1 disabled:opacity-40 ' +
+    (isLight ? 'text-black/60 enabled:hover:bg-black/5 focus:ring-black/15' : 'text-[#a2aabc] enabled:hover:bg-white/10 focus:ring-white/15');
+
+  return (
+    <div
+      className="min-h-full px-2 pb-4 space-y-0.5"
+      // Right-clicking (or dropping on) empty space targets the workspace root.
+      onContextMenu={(e) => openMenu(e, workspace.rootId)}
+      onKeyDown={onKeyDown}
+      {...(actions ? { onDragOver: dragProps(workspace.rootId).onDragOver, onDrop: dragProps(workspace.rootId).onDrop } : {})}
+    >
+      {actions && (
+        <div className="flex justify-end gap-0.5 pt-1">
+          <button
+            type="button"
+            onClick={actions.undo}
+            disabled={!actions.undoLabel}
+            className={historyButtonClass}
+            title={actions.undoLabel ? `Undo: ${actions.undoLabel}` : 'Nothing to undo'}
+            aria-label="Undo file operation"
+          >
+            ↶ Undo
+          </button>
+          <button
+            type="button"
+            onClick={actions.redo}
+            disabled={!actions.redoLabel}
+            className={historyButtonClass}
+            title={actions.redoLabel ? `Redo: ${actions.redoLabel}` : 'Nothing to redo'}
+            aria-label="Redo file operation"
+          >
+            ↷ Redo
+          </button>
+        </div>
+      )}
+      {renderNode(workspace.rootId, 0)}
+      {renderMenu()}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useMemo, useState } from 'react';
+import type { WorkspaceState } from './workspaceTypes';
+import { compareSnapshot, type LineCountCache, type WorkspaceSnapshot } from './versionHistory';
+
+type HistoryPanelProps = {
+  snapshots: WorkspaceSnapshot[];
+  /** The workspace as it is now; snapshots are compared against it. */
+  current: WorkspaceState;
+  isLight?: boolean;
+  autoSnapshots: boolean;
+  onAutoSnapshotsChange: (enabled: boolean) => void;
+  /** Saves the workspace, recording a snapshot with the message. */
+  onSave: (message: string) => void;
+  /** The file shown in the diff editor, if any. */
+  comparing?: { snapshotId: string; path: string } | null;
+  onCompare: (snapshotId: string, path: string) => void;
+  onRestoreFile: (snapshotId: string, path: string) => void;
+  onRestoreWorkspace: (snapshotId: string) => void;
+  onDelete: (snapshotId: string) => void;
+};
+
+const STATUS_MARK = { added: 'A', removed: 'D', modified: 'M' } as const;
+
+export function HistoryPanel({
+  snapshots,
+  current,
+  isLight = false,
+  autoSnapshots,
+  onAutoSnapshotsChange,
+  onSave,
+  comparing,
+  onCompare,
+  onRestoreFile,
+  onRestoreWorkspace,
+  onDelete,
+}: HistoryPanelProps) {
+  const [message, setMessage] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  // `restore:<id>` or `delete:<id>` while asking for confirmation.
+  const [confirming, setConfirming] = useState<string | null>(null);
+
+  const muted = isLight ? 'text-black/50' : 'text-[#8695b7]';
+  const danger = isLight ? 'text-[#b91c1c]' : 'text-[#ff7b72]';
+  const actionClass = 'px-1 rounded focus:outline-none focus:ring-1 ' + (isLight ? 'hover:bg-black/5' : 'hover:bg-white/10');
+
+  // Counts of the expanded snapshot's files; typing in one file only recounts that one.
+  const [lineCounts, setLineCounts] = useState<LineCountCache>(() => new Map());
+
+  const expanded = snapshots.find((s) => s.id === expandedId) ?? null;
+  const changes = useMemo(() => (expanded ? compareSnapshot(expanded.state, current, lineCounts) : []), [expanded, current, lineCounts]);
+
+  const save = () => {
+    onSave(message);
+    setMessage('');
+  };
+
+  const renderConfirm = (label: string, onConfirm: () => void) => (
+    <>
+      <span>{label}</span>
+      <button
+        type="button"
+        className={actionClass + ' ' + danger}
+        onClick={() => {
+          setConfirming(null);
+          onConfirm();
+        }}
+      >
+        Yes
+      </button>
+      <button type="button" className={actionClass} onClick={() => setConfirming(null)}>
+        No
+      </button>
+    </>
+  );
+
+  return (
+    <div className="text-xs">
+      <form
+        className="px-2 py-2 space-y-1.5"
+        onSubmit={(e) => {
+          e.preventDefault();
+          save();
+        }}
+      >
+        <div className="flex items-center gap-1">
+          <input
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder="Snapshot message (optional)"
+            aria-label="Snapshot message"
+            className={
+              'min-w-0 flex-1 h-6 px-1.5 rounded border text-[11px] focus:outline-none focus:ring-2 ' +
+              (isLight
+                ? 'border-black/15 bg-white text-[#0b1220]/80 focus:ring-black/15'
+                : 'border-white/15 bg-[#1d2433] text-[#d7dce2]/90 focus:ring-white/15')
+            }
+          />
+          <button type="submit" className={'h-6 text-[11px] ' + actionClass + ' ' + (isLight ? 'text-black/60' : 'text-[#a2aabc]')}>
+            Save
+          </button>
+        </div>
+        <label className={'flex items-center gap-1.5 text-[11px] ' + muted}>
+          <input type="checkbox" checked={autoSnapshots} onChange={(e) => onAutoSnapshotsChange(e.target.checked)} />
+          Autosave a snapshot every 5 minutes
+        </label>
+      </form>
+
+      {snapshots.length === 0 ? (
+        <div className={'px-4 ' + muted}>Saved versions appear here. Every save records one.</div>
+      ) : (
+        <ul className="px-2 pb-2 space-y-0.5">
+          {snapshots.map((snapshot) => {
+            const isExpanded = snapshot.id === expandedId;
+            return (
+              <li key={snapshot.id} className={'group rounded-md ' + (isLight ? 'hover:bg-black/[0.03]' : 'hover:bg-white/5')}>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setExpandedId(isExpanded ? null : snapshot.id);
+                    setLineCounts(new Map());
+                  }}
+                  aria-expanded={isExpanded}
+                  className="w-full flex items-start gap-1 px-1 py-1 text-left focus:outline-none"
+                >
+                  <span className={'w-3 select-none ' + muted}>{isExpanded ? '▾' : '▸'}</span>
+                  <span className="min-w-0 flex-1">
+                    <span className={'block truncate ' + (isLight ? 'text-black/70' : 'text-[#a2aabc]')}>
+                      {snapshot.message || (snapshot.auto ? 'Autosave' : 'Save')}
+                    </span>
+                    <span className={'block text-[11px] ' + muted}>
+                      {new Date(snapshot.createdAt).toLocaleString()}
+                      {snapshot.auto && snapshot.message ? ' · autosave' : ''}
+                    </span>
+                  </span>
+                </button>
+
+                <div
+                  className={
+                    'flex items-center gap-1 px-5 pb-1 text-[11px] ' +
+                    muted +
+                    (isExpanded || confirming?.endsWith(snapshot.id) ? '' : ' hidden group-hover:flex group-focus-within:flex')
+                  }
+                >
+                  {confirming === `restore:${snapshot.id}` ? (
+                    renderConfirm('Replace the workspace?', () => onRestoreWorkspace(snapshot.id))
+                  ) : confirming === `delete:${snapshot.id}` ? (
+                    renderConfirm('Delete snapshot?', () => onDelete(snapshot.id))
+                  ) : (
+                    <>
+                      <button type="button" className={actionClass} onClick={() => setConfirming(`restore:${snapshot.id}`)}>
+                        Restore workspace
+                      </button>
+                      <button type="button" className={actionClass} onClick={() => setConfirming(`delete:${snapshot.id}`)}>
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </div>
+
+                {isExpanded && (
+                  <div className="px-5 pb-1.5">
+                    {changes.length === 0 ? (
+                      <div className={muted}>Same as the current workspace.</div>
+                    ) : (
+                      <ul>
+                        {changes.map((change) => {
+                          const active = comparing?.snapshotId === snapshot.id && comparing.path === change.path;
+                          return (
+                            <li key={change.path} className="flex items-center gap-1">
+                              <button
+                                type="button"
+                                onClick={() => onCompare(snapshot.id, change.path)}
+                                title={`Compare ${change.path} with the current version`}
+                                className={
+                                  'min-w-0 flex-1 flex items-center gap-1.5 px-1 rounded text-left focus:outline-none focus:ring-1 ' +
+                                  (active ? (isLight ? 'bg-black/5' : 'bg-white/10') : isLight ? 'hover:bg-black/5' : 'hover:bg-white/10')
+                                }
+                              >
+                                <span className={'w-3 font-mono ' + muted} title={change.status}>
+                                  {STATUS_MARK[change.status]}
+                                </span>
+                                <span className={'truncate ' + (isLight ? 'text-black/70' : 'text-[#a2aabc]')}>{change.path}</span>
+                                <span className={'ml-auto shrink-0 font-mono text-[11px] ' + muted}>
+                                  {change.addedLines === null ? 'large' : `+${change.addedLines} −${change.removedLines}`}
+                                </span>
+                              </button>
+                              {change.status !== 'added' && (
+                                <button
+                                  type="button"
+                                  className={actionClass + ' text-[11px] ' + muted}
+                                  onClick={() => onRestoreFile(snapshot.id, change.path)}
+                                  title={`Restore ${change.path} as it was in this snapshot`}
+                                >
+                                  Restore
+                                </button>
+                              )}
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,8 @@
-import Editor, { type Monaco, type OnChange } from '@monaco-editor/react';
+import { useEffect, useRef, useState } from 'react';
+import Editor, { DiffEditor, type Monaco, type OnChange, type OnMount } from '@monaco-editor/react';
+import type { editor } from 'monaco-editor';
+import type { ComplexityEntry } from '../jsCompiler/complexityAnalysis';
+import { showComplexityAnnotations } from './complexityAnnotations';
 
 type MonacoPaneProps = {
   path: string;
@@ -7,6 +11,9 @@ type MonacoPaneProps = {
   readOnly?: boolean;
   theme?: 'dark' | 'light';
   suggestionsEnabled?: boolean;
+  onMount?: OnMount;
+  /** Complexity estimates for the open file, shown as CodeLenses and hovers. */
+  complexity?: ComplexityEntry[];
 };
 
 let didConfigureMonaco = false;
@@ -45,15 +52,35 @@ export function MonacoPane({
   readOnly,
   theme = 'dark',
   suggestionsEnabled = true,
+  onMount,
+  complexity,
 }: MonacoPaneProps) {
+  const editorRef = useRef<{ ed: editor.IStandaloneCodeEditor; monaco: Monaco } | null>(null);
+  const [isMounted, setIsMounted] = useState(false);
   const handleChange: OnChange = (next) => onChange(next ?? '');
 
+  const handleMount: OnMount = (ed, monaco) => {
+    editorRef.current = { ed, monaco };
+    setIsMounted(true);
+    onMount?.(ed, monaco);
+  };
+
+  useEffect(() => {
+    const mounted = editorRef.current;
+    if (!isMounted || !mounted || !complexity) return;
+    const annotations = showComplexityAnnotations(mounted.monaco, mounted.ed, complexity);
+    return () => annotations.dispose();
+  }, [isMounted, complexity, path]);
+
   const beforeMount = (monaco: Monaco) => {
     if (didConfigureMonaco) return;
     didConfigureMonaco = true;
 
     // Make TS/TSX feel closer to a typical React/Vite project.
-    monaco.languages.typescript.typescriptDefaults.setCompilerOptions({
+    // Emit stays enabled (with source maps) so the compiler pane can transpile
+    // TS/JSX snippets through the same worker before running them. JSX uses the
+    // classic `React.createElement` emit; the runner provides a tiny `React` global.
+    const compilerOptions = {
       allowNonTsExtensions: true,
       allowJs: true,
       checkJs: false,
@@ -61,15 +88,19 @@ export function MonacoPane({
       target: monaco.languages.typescript.ScriptTarget.ES2022,
       module: monaco.languages.typescript.ModuleKind.ESNext,
       moduleResolution: monaco.languages.typescript.ModuleResolutionKind.NodeJs,
-      jsx: monaco.languages.typescript.JsxEmit.ReactJSX,
+      jsx: monaco.languages.typescript.JsxEmit.React,
       esModuleInterop: true,
       resolveJsonModule: true,
       isolatedModules: true,
-      noEmit: true,
+      noEmit: false,
+      sourceMap: true,
+      inlineSources: true,
       skipLibCheck: true,
       lib: ['es2022', 'dom', 'dom.iterable'],
       types: [],
-    });
+    };
+    monaco.languages.typescript.typescriptDefaults.setCompilerOptions(compilerOptions);
+    monaco.languages.typescript.javascriptDefaults.setCompilerOptions(compilerOptions);
 
     // Monaco can’t automatically read your node_modules types in this sandboxed, in-browser workspace.
     // Add minimal stubs so common React/Vite imports don’t explode with “Cannot find module …”.
@@ -102,11 +133,72 @@ declare module 'react-dom/client' {
 
     const viteStub = `
 declare module 'vite/client' {}
+`;
+
+    // Globals injected by the compiler pane's runner (see runnerSrcDoc).
+    const runnerStub = `
+declare const React: {
+  createElement(type: any, props?: any, ...children: any[]): any;
+  Fragment: any;
+};
+/** Asks for a line in the Output panel; resolves to null when cancelled. \`prompt()\` does the same in the runner, so it needs an \`await\` too. */
+declare function readLine(message?: string, defaultValue?: string): Promise<string | null>;
+declare function input(message?: string, defaultValue?: string): Promise<string | null>;
+
+interface JscMatchers<R> {
+  toBe(expected: any): R;
+  toEqual(expected: any): R;
+  toStrictEqual(expected: any): R;
+  toBeTruthy(): R;
+  toBeFalsy(): R;
+  toBeNull(): R;
+  toBeUndefined(): R;
+  toBeDefined(): R;
+  toBeNaN(): R;
+  toBeGreaterThan(expected: number | bigint): R;
+  toBeGreaterThanOrEqual(expected: number | bigint): R;
+  toBeLessThan(expected: number | bigint): R;
+  toBeLessThanOrEqual(expected: number | bigint): R;
+  toBeCloseTo(expected: number, digits?: number): R;
+  toBeInstanceOf(expected: Function): R;
+  toContain(expected: any): R;
+  toContainEqual(expected: any): R;
+  toHaveLength(expected: number): R;
+  toHaveProperty(path: string | string[], value?: any): R;
+  toMatch(expected: string | RegExp): R;
+  toThrow(expected?: string | RegExp | Error | Function): R;
+}
+interface JscExpect extends JscMatchers<void> {
+  not: JscMatchers<void>;
+  resolves: JscMatchers<Promise<void>> & { not: JscMatchers<Promise<void>> };
+  rejects: JscMatchers<Promise<void>> & { not: JscMatchers<Promise<void>> };
+}
+type JscTestFn = () => void | Promise<unknown>;
+/** Groups tests; results appear in the Tests view after the code has run. */
+declare const describe: ((name: string, fn: () => void) => void) & { skip(name: string, fn: () => void): void };
+/** Registers a test; async tests fail after timeoutMs (default 5000). */
+declare const it: ((name: string, fn: JscTestFn, timeoutMs?: number) => void) & {
+  skip(name: string, fn?: JscTestFn, timeoutMs?: number): void;
+};
+declare const test: typeof it;
+declare function expect(actual: any): JscExpect;
+/** Measures fn (sync or async) after the code has run; results appear in the Benchmarks view. */
+declare function bench(name: string, fn: () => unknown, options?: { time?: number }): void;
+/**
+ * Times fn on inputs from makeInput(n) at growing sizes and fits the results to a
+ * complexity class (shown in the complexity panel). Pass small sizes for exponential functions.
+ */
+declare function complexity<T>(
+  fn: (input: T) => unknown,
+  makeInput: (n: number) => T,
+  options?: { name?: string; sizes?: number[]; time?: number }
+): void;
 `;
 
     monaco.languages.typescript.typescriptDefaults.addExtraLib(reactStub, 'file:///node_modules/@types/react/index.d.ts');
     monaco.languages.typescript.typescriptDefaults.addExtraLib(reactDomStub, 'file:///node_modules/@types/react-dom/client.d.ts');
     monaco.languages.typescript.typescriptDefaults.addExtraLib(viteStub, 'file:///node_modules/vite/client.d.ts');
+    monaco.languages.typescript.typescriptDefaults.addExtraLib(runnerStub, 'file:///runner/globals.d.ts');
   };
 
   return (
@@ -116,6 +208,7 @@ declare module 'vite/client' {}
         value={value}
         onChange={handleChange}
         beforeMount={beforeMount}
+        onMount={handleMount}
         language={languageFromPath(path)}
         theme={theme === 'light' ? 'vs' : 'vs-dark'}
         options={{
@@ -148,3 +241,44 @@ declare module 'vite/client' {}
     </div>
   );
 }
+
+type MonacoDiffPaneProps = {
+  /** Workspace path of the compared file; picks the language. */
+  path: string;
+  original: string;
+  modified: string;
+  /** Keeps the two sides' models apart from each other and from the open files. */
+  originalModelPath: string;
+  modifiedModelPath: string;
+  theme?: 'dark' | 'light';
+};
+
+/** Read-only side-by-side comparison of two versions of a file. */
+export function MonacoDiffPane({ path, original, modified, originalModelPath, modifiedModelPath, theme = 'dark' }: MonacoDiffPaneProps) {
+  return (
+    <div className="h-full w-full min-w-0">
+      <DiffEditor
+        original={original}
+        modified={modified}
+        originalModelPath={originalModelPath}
+        modifiedModelPath={modifiedModelPath}
+        language={languageFromPath(path)}
+        theme={theme === 'light' ? 'vs' : 'vs-dark'}
+        options={{
+          readOnly: true,
+          originalEditable: false,
+          automaticLayout: true,
+          fontFamily:
+            "ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, 'Liberation Mono', 'Courier New', monospace",
+          fontSize: 13,
+          lineHeight: 20,
+          minimap: { enabled: false },
+          scrollBeyondLastLine: false,
+          wordWrap: 'on',
+          renderOverviewRuler: false,
+          scrollbar: { verticalScrollbarSize: 10, horizontalScrollbarSize: 10 },
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,325 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { NodeId, WorkspaceState } from './workspaceTypes';
+import { isFile } from './workspaceTypes';
+import {
+  compileSearchQuery,
+  MAX_SEARCH_MATCHES,
+  previewReplacement,
+  replaceInWorkspace,
+  searchWorkspace,
+  type FileReplacement,
+  type SearchMatch,
+  type SearchQuery,
+} from './workspaceSearch';
+
+type SearchPanelProps = {
+  workspace: WorkspaceState;
+  isLight?: boolean;
+  /** Searching only runs while the panel is showing. */
+  active: boolean;
+  /** Bumped to move focus to the search box (e.g. by a shortcut). */
+  focusRequest?: number;
+  onOpenMatch: (path: string, match: SearchMatch) => void;
+  onReplace: (replacements: FileReplacement[]) => void;
+};
+
+const SEARCH_DELAY_MS = 200;
+// Characters of context shown before a match in long lines.
+const PREVIEW_LEAD = 24;
+
+const EMPTY_QUERY: SearchQuery = { text: '', regex: false, caseSensitive: false, wholeWord: false, include: '', exclude: '' };
+
+const TOGGLES: Array<{ key: 'caseSensitive' | 'wholeWord' | 'regex'; label: string; title: string }> = [
+  { key: 'caseSensitive', label: 'Aa', title: 'Match case' },
+  { key: 'wholeWord', label: 'ab', title: 'Match whole word' },
+  { key: 'regex', label: '.*', title: 'Use regular expression' },
+];
+
+export function SearchPanel({ workspace, isLight = false, active, focusRequest = 0, onOpenMatch, onReplace }: SearchPanelProps) {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [query, setQuery] = useState<SearchQuery>(EMPTY_QUERY);
+  const [debounced, setDebounced] = useState<SearchQuery>(EMPTY_QUERY);
+  const [replacement, setReplacement] = useState('');
+  const [showReplace, setShowReplace] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [collapsed, setCollapsed] = useState<Set<NodeId>>(new Set());
+  // While previewing a replace-all: the files left out of it.
+  const [preview, setPreview] = useState<{ excluded: Set<NodeId> } | null>(null);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebounced(query), SEARCH_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [query]);
+
+  useEffect(() => {
+    if (active) inputRef.current?.select();
+  }, [active, focusRequest]);
+
+  const compiled = useMemo(() => (debounced.text ? compileSearchQuery(debounced) : null), [debounced]);
+  const regexp = compiled && 'regexp' in compiled ? compiled.regexp : null;
+  const results = useMemo(
+    () => (active && regexp ? searchWorkspace(workspace, debounced, regexp) : null),
+    [active, regexp, workspace, debounced]
+  );
+
+  const muted = isLight ? 'text-black/50' : 'text-[#8695b7]';
+  const danger = isLight ? 'text-[#b91c1c]' : 'text-[#ff7b72]';
+  const inputClass =
+    'min-w-0 flex-1 h-6 px-1.5 rounded border text-[11px] focus:outline-none focus:ring-2 ' +
+    (isLight
+      ? 'border-black/15 bg-white text-[#0b1220]/80 focus:ring-black/15'
+      : 'border-white/15 bg-[#1d2433] text-[#d7dce2]/90 focus:ring-white/15');
+  const buttonClass =
+    'h-6 px-1.5 rounded text-[11px] focus:outline-none focus:ring-1 disabled:opacity-40 ' +
+    (isLight ? 'text-black/60 enabled:hover:bg-black/5 focus:ring-black/15' : 'text-[#a2aabc] enabled:hover:bg-white/10 focus:ring-white/15');
+  const toggleClass = (on: boolean) =>
+    'h-6 w-6 shrink-0 rounded font-mono text-[11px] focus:outline-none focus:ring-1 ' +
+    (on
+      ? isLight
+        ? 'bg-[#2563eb]/15 text-[#1d4ed8] focus:ring-black/15'
+        : 'bg-[#79c0ff]/20 text-[#79c0ff] focus:ring-white/15'
+      : isLight
+        ? 'text-black/50 hover:bg-black/5 focus:ring-black/15'
+        : 'text-[#8695b7] hover:bg-white/10 focus:ring-white/15');
+
+  const update = (patch: Partial<SearchQuery>) => {
+    setQuery((prev) => ({ ...prev, ...patch }));
+    setPreview(null);
+  };
+
+  const fileContent = (fileId: NodeId) => {
+    const node = workspace.nodes[fileId];
+    return node && isFile(node) ? node.content : '';
+  };
+
+  const applyReplace = () => {
+    if (!results || !regexp || !preview) return;
+    const included = { ...results, files: results.files.filter((f) => !preview.excluded.has(f.fileId)) };
+    onReplace(replaceInWorkspace(workspace, included, regexp, replacement, debounced.regex));
+    setPreview(null);
+  };
+
+  const previewedFiles = results && preview ? results.files.filter((f) => !preview.excluded.has(f.fileId)) : [];
+  const previewedMatches = previewedFiles.reduce((sum, f) => sum + f.matches.length, 0);
+
+  const renderLine = (fileId: NodeId, match: SearchMatch) => {
+    const start = Math.max(0, match.column - 1 - PREVIEW_LEAD);
+    const before = (start > 0 ? '…' : '') + match.lineText.slice(start, match.column - 1).trimStart();
+    const text = match.lineText.slice(match.column - 1, match.column - 1 + match.length);
+    const after = match.lineText.slice(match.column - 1 + match.length);
+    const replaced =
+      preview && !preview.excluded.has(fileId) && regexp
+        ? previewReplacement(fileContent(fileId), match, regexp, replacement, debounced.regex)
+        : null;
+    return (
+      <>
+        {before}
+        <mark
+          className={
+            'rounded-sm ' +
+            (replaced !== null
+              ? 'line-through ' + (isLight ? 'bg-[#fee2e2] text-[#b91c1c]' : 'bg-[#ff7b72]/20 text-[#ffa198]')
+              : isLight
+                ? 'bg-[#fde68a] text-inherit'
+                : 'bg-[#ffcc66]/30 text-inherit')
+          }
+        >
+          {text}
+        </mark>
+        {replaced !== null && (
+          <mark className={'rounded-sm ' + (isLight ? 'bg-[#dcfce7] text-[#15803d]' : 'bg-[#7ee787]/20 text-[#7ee787]')}>{replaced}</mark>
+        )}
+        {after}
+      </>
+    );
+  };
+
+  return (
+    <div className="text-xs">
+      <div className="px-2 py-2 space-y-1">
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            className={toggleClass(false) + ' font-sans'}
+            onClick={() => {
+              setShowReplace((prev) => !prev);
+              setPreview(null);
+            }}
+            aria-expanded={showReplace}
+            title={showReplace ? 'Hide replace' : 'Show replace'}
+          >
+            {showReplace ? '▾' : '▸'}
+          </button>
+          <input
+            ref={inputRef}
+            value={query.text}
+            onChange={(e) => update({ text: e.target.value })}
+            placeholder="Search"
+            aria-label="Search in files"
+            className={inputClass}
+          />
+          {TOGGLES.map((t) => (
+            <button
+              key={t.key}
+              type="button"
+              className={toggleClass(query[t.key])}
+              onClick={() => update({ [t.key]: !query[t.key] })}
+              aria-pressed={query[t.key]}
+              title={t.title}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+
+        {showReplace && (
+          <div className="flex items-center gap-1 pl-7">
+            <input
+              value={replacement}
+              onChange={(e) => setReplacement(e.target.value)}
+              placeholder={query.regex ? 'Replace ($1 for groups)' : 'Replace'}
+              aria-label="Replace with"
+              className={inputClass}
+            />
+            <button
+              type="button"
+              className={buttonClass}
+              disabled={!results || results.matchCount === 0}
+              onClick={() => setPreview({ excluded: new Set() })}
+              title="Preview replacing every match"
+            >
+              Replace all…
+            </button>
+          </div>
+        )}
+
+        <div className="pl-7">
+          <button type="button" className={'text-[11px] focus:outline-none ' + muted} onClick={() => setShowFilters((prev) => !prev)} aria-expanded={showFilters}>
+            {showFilters ? '▾' : '▸'} Files to include/exclude
+          </button>
+          {showFilters && (
+            <div className="mt-1 space-y-1">
+              <input
+                value={query.include}
+                onChange={(e) => update({ include: e.target.value })}
+                placeholder="Include, e.g. src, *.ts"
+                aria-label="Files to include"
+                className={inputClass + ' w-full'}
+              />
+              <input
+                value={query.exclude}
+                onChange={(e) => update({ exclude: e.target.value })}
+                placeholder="Exclude, e.g. **/*.test.ts"
+                aria-label="Files to exclude"
+                className={inputClass + ' w-full'}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="px-2 pb-2">
+        {compiled && 'error' in compiled ? (
+          <div role="alert" className={'px-1 ' + danger}>
+            {compiled.error}
+          </div>
+        ) : !results ? null : results.matchCount === 0 ? (
+          <div className={'px-1 ' + muted}>No results.</div>
+        ) : (
+          <>
+            {preview ? (
+              <div className={'mb-1 px-1 flex flex-wrap items-center justify-between gap-1 ' + muted}>
+                <span>
+                  Replace {previewedMatches} match{previewedMatches === 1 ? '' : 'es'} in {previewedFiles.length} file
+                  {previewedFiles.length === 1 ? '' : 's'}?
+                </span>
+                <span className="flex items-center gap-0.5">
+                  <button type="button" className={buttonClass} onClick={() => setPreview(null)}>
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    className={buttonClass + ' font-semibold'}
+                    disabled={previewedFiles.length === 0}
+                    onClick={applyReplace}
+                  >
+                    Replace
+                  </button>
+                </span>
+              </div>
+            ) : (
+              <div className={'mb-1 px-1 ' + muted}>
+                {results.matchCount} result{results.matchCount === 1 ? '' : 's'} in {results.files.length} file
+                {results.files.length === 1 ? '' : 's'}
+                {results.truncated ? ` (showing the first ${MAX_SEARCH_MATCHES})` : ''}
+              </div>
+            )}
+
+            <ul className="space-y-0.5">
+              {results.files.map((file) => {
+                const isCollapsed = collapsed.has(file.fileId);
+                const slash = file.path.lastIndexOf('/');
+                const excluded = preview?.excluded.has(file.fileId) ?? false;
+                return (
+                  <li key={file.fileId}>
+                    <div className={'flex items-center gap-1 rounded-md px-1 ' + (isLight ? 'hover:bg-black/[0.03]' : 'hover:bg-white/5')}>
+                      {preview && (
+                        <input
+                          type="checkbox"
+                          checked={!excluded}
+                          aria-label={`Replace in ${file.path}`}
+                          onChange={() => {
+                            const next = new Set(preview.excluded);
+                            if (excluded) next.delete(file.fileId);
+                            else next.add(file.fileId);
+                            setPreview({ excluded: next });
+                          }}
+                        />
+                      )}
+                      <button
+                        type="button"
+                        className="min-w-0 flex-1 flex items-center gap-1 py-0.5 text-left focus:outline-none"
+                        onClick={() => {
+                          const next = new Set(collapsed);
+                          if (isCollapsed) next.delete(file.fileId);
+                          else next.add(file.fileId);
+                          setCollapsed(next);
+                        }}
+                        aria-expanded={!isCollapsed}
+                        title={file.path}
+                      >
+                        <span className={'w-3 select-none ' + muted}>{isCollapsed ? '▸' : '▾'}</span>
+                        <span className={'truncate ' + (isLight ? 'text-black/70' : 'text-[#a2aabc]')}>{file.path.slice(slash + 1)}</span>
+                        {slash > 0 && <span className={'truncate text-[11px] ' + muted}>{file.path.slice(0, slash)}</span>}
+                        <span className={'ml-auto shrink-0 text-[11px] ' + muted}>{file.matches.length}</span>
+                      </button>
+                    </div>
+                    {!isCollapsed && (
+                      <ul className={excluded ? 'opacity-50' : ''}>
+                        {file.matches.map((match) => (
+                          <li key={match.offset}>
+                            <button
+                              type="button"
+                              className={
+                                'w-full pl-6 pr-1 py-0.5 rounded-md text-left truncate font-mono text-[11px] focus:outline-none focus:ring-1 ' +
+                                (isLight ? 'text-black/70 hover:bg-black/5 focus:ring-black/15' : 'text-[#a2aabc] hover:bg-white/10 focus:ring-white/15')
+                              }
+                              onClick={() => onOpenMatch(file.path, match)}
+                              title={`Line ${match.line}, column ${match.column}`}
+                            >
+                              {renderLine(file.fileId, match)}
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
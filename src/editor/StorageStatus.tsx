@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import type { WorkspaceState } from './workspaceTypes';
+import { downloadBlob, exportWorkspaceZip, workspaceArchiveName } from './workspaceArchive';
+import { formatBytes, type StorageUsage } from './workspaceStore';
+
+// Above this share of the quota the meter turns into a warning.
+const NEARLY_FULL = 0.8;
+
+type StorageMeterProps = {
+  usage: StorageUsage | null;
+  isLight?: boolean;
+};
+
+/** How much of the browser's storage for this site is in use. */
+export function StorageMeter({ usage, isLight = false }: StorageMeterProps) {
+  if (!usage) return null;
+  const share = Math.min(1, usage.usage / usage.quota);
+  const nearlyFull = share >= NEARLY_FULL;
+  const muted = isLight ? 'text-black/50' : 'text-[#8695b7]';
+  const danger = isLight ? 'text-[#b91c1c]' : 'text-[#ff7b72]';
+
+  return (
+    <div
+      className={'px-3 py-1.5 border-t text-[11px] ' + (isLight ? 'border-black/10' : 'border-white/10')}
+      title="Browser storage used by this site: workspace, history, trash and snippets"
+    >
+      <div className={'flex items-center justify-between gap-2 ' + (nearlyFull ? danger : muted)}>
+        <span>Storage</span>
+        <span>
+          {formatBytes(usage.usage)} of {formatBytes(usage.quota)}
+        </span>
+      </div>
+      <div
+        className={'mt-1 h-1 rounded-full overflow-hidden ' + (isLight ? 'bg-black/10' : 'bg-white/10')}
+        role="meter"
+        aria-label="Storage used"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(share * 100)}
+      >
+        <div
+          className={'h-full rounded-full ' + (nearlyFull ? (isLight ? 'bg-[#b91c1c]' : 'bg-[#ff7b72]') : 'bg-[#2563eb]')}
+          style={{ width: `${Math.max(share * 100, 1)}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+type StorageErrorDialogProps = {
+  message: string;
+  usage: StorageUsage | null;
+  /** Offered as a download so nothing is lost while storage is failing. */
+  workspace: WorkspaceState;
+  isLight?: boolean;
+  onRetry: () => void;
+  onDismiss: () => void;
+};
+
+/** Blocks the editor after a failed write until the user has decided what to do. */
+export function StorageErrorDialog({ message, usage, workspace, isLight = false, onRetry, onDismiss }: StorageErrorDialogProps) {
+  const [exportError, setExportError] = useState<string | null>(null);
+  const muted = isLight ? 'text-black/50' : 'text-[#8695b7]';
+
+  const exportZip = async () => {
+    setExportError(null);
+    try {
+      downloadBlob(await exportWorkspaceZip(workspace), workspaceArchiveName(workspace));
+    } catch (e) {
+      setExportError(`Export failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 grid place-items-center" role="alertdialog" aria-modal="true" aria-label="Changes not saved">
+      <div className="absolute inset-0 bg-black/55" />
+      <div
+        className={
+          'relative w-[min(440px,calc(100vw-24px))] rounded-xl border shadow-2xl text-xs ' +
+          (isLight ? 'border-black/10 bg-white text-[#0b1220]' : 'border-white/10 bg-[#1d2433] text-[#d7dce2]')
+        }
+      >
+        <div className="px-4 py-3 space-y-2">
+          <div className={'text-sm font-semibold ' + (isLight ? 'text-[#b91c1c]' : 'text-[#ff7b72]')}>Changes not saved</div>
+          <p>{message}</p>
+          {usage && (
+            <p className={muted}>
+              This site uses {formatBytes(usage.usage)} of {formatBytes(usage.quota)}. Deleting old history snapshots or emptying the
+              trash frees space.
+            </p>
+          )}
+          <p className={muted}>Export the workspace to keep a copy of your work.</p>
+          {exportError && <p className={isLight ? 'text-[#b91c1c]' : 'text-[#ff7b72]'}>{exportError}</p>}
+        </div>
+        <div className={'px-4 py-3 flex justify-end gap-2 border-t ' + (isLight ? 'border-black/10' : 'border-white/10')}>
+          <button
+            type="button"
+            className={'h-7 px-3 rounded-md focus:outline-none focus:ring-2 ' + (isLight ? 'hover:bg-black/5 focus:ring-black/15' : 'hover:bg-white/10 focus:ring-white/15')}
+            onClick={onDismiss}
+          >
+            Dismiss
+          </button>
+          <button
+            type="button"
+            className={'h-7 px-3 rounded-md focus:outline-none focus:ring-2 ' + (isLight ? 'hover:bg-black/5 focus:ring-black/15' : 'hover:bg-white/10 focus:ring-white/15')}
+            onClick={() => void exportZip()}
+          >
+            Export .zip
+          </button>
+          <button
+            type="button"
+            autoFocus
+            className="h-7 px-3 rounded-md font-semibold bg-[#2563eb] text-white hover:brightness-95 focus:outline-none focus:ring-2 focus:ring-[#2563eb]/35"
+            onClick={onRetry}
+          >
+            Try again
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
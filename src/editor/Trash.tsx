@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import type { TrashEntry } from './workspaceTypes';
+import { isFolder } from './workspaceTypes';
+
+type TrashProps = {
+  entries: TrashEntry[];
+  isLight?: boolean;
+  onRestore: (entryId: string) => void;
+  onDeleteForever: (entryId: string) => void;
+  onEmpty: () => void;
+};
+
+export function Trash({ entries, isLight = false, onRestore, onDeleteForever, onEmpty }: TrashProps) {
+  const [open, setOpen] = useState(false);
+  // An entry id, or 'all' for Empty Trash.
+  const [confirming, setConfirming] = useState<string | null>(null);
+
+  const muted = isLight ? 'text-black/50' : 'text-[#8695b7]';
+  const danger = isLight ? 'text-[#b91c1c]' : 'text-[#ff7b72]';
+  const actionClass = 'px-1 rounded focus:outline-none focus:ring-1 ' + (isLight ? 'hover:bg-black/5' : 'hover:bg-white/10');
+
+  const renderConfirm = (label: string, onConfirm: () => void) => (
+    <>
+      <span>{label}</span>
+      <button
+        type="button"
+        className={actionClass + ' ' + danger}
+        onClick={() => {
+          setConfirming(null);
+          onConfirm();
+        }}
+      >
+        Yes
+      </button>
+      <button type="button" className={actionClass} onClick={() => setConfirming(null)}>
+        No
+      </button>
+    </>
+  );
+
+  return (
+    <div className={'border-t text-xs ' + (isLight ? 'border-black/10' : 'border-white/10')}>
+      <div className="flex items-center justify-between gap-2 px-2 py-1.5">
+        <button
+          type="button"
+          onClick={() => setOpen((prev) => !prev)}
+          aria-expanded={open}
+          className={'flex items-center gap-2 uppercase tracking-wide text-[11px] focus:outline-none ' + muted}
+        >
+          <span className="w-3 select-none">{open ? '▾' : '▸'}</span>
+          Trash{entries.length > 0 ? ` (${entries.length})` : ''}
+        </button>
+        {open && entries.length > 0 && (
+          <div className={'flex items-center gap-1 text-[11px] ' + muted}>
+            {confirming === 'all' ? (
+              renderConfirm('Delete all forever?', onEmpty)
+            ) : (
+              <button type="button" className={actionClass} onClick={() => setConfirming('all')}>
+                Empty
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {open && (
+        <div className="max-h-48 overflow-auto px-2 pb-2">
+          {entries.length === 0 ? (
+            <div className={'px-2 ' + muted}>Deleted files and folders appear here.</div>
+          ) : (
+            <ul className="space-y-0.5">
+              {entries.map((entry) => {
+                const node = entry.nodes[entry.nodeId];
+                return (
+                  <li
+                    key={entry.id}
+                    className={'group rounded-md px-2 py-1 ' + (isLight ? 'hover:bg-black/[0.03]' : 'hover:bg-white/5')}
+                    title={`Deleted ${new Date(entry.deletedAt).toLocaleString()}`}
+                  >
+                    <div className={'truncate ' + (isLight ? 'text-black/70' : 'text-[#a2aabc]')}>
+                      {entry.name}
+                      {node && isFolder(node) ? '/' : ''}
+                    </div>
+                    <div className={'truncate text-[11px] ' + muted}>{entry.path}</div>
+                    <div
+                      className={
+                        'mt-0.5 flex items-center gap-1 text-[11px] ' +
+                        muted +
+                        (confirming === entry.id ? '' : ' hidden group-hover:flex group-focus-within:flex')
+                      }
+                    >
+                      {confirming === entry.id ? (
+                        renderConfirm('Delete forever?', () => onDeleteForever(entry.id))
+                      ) : (
+                        <>
+                          <button type="button" className={actionClass} onClick={() => onRestore(entry.id)}>
+                            Restore
+                          </button>
+                          <button type="button" className={actionClass} onClick={() => setConfirming(entry.id)}>
+                            Delete forever
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+import { useRef, useState } from 'react';
+import type { WorkspaceState } from './workspaceTypes';
+import {
+  downloadBlob,
+  exportWorkspaceZip,
+  findImportConflicts,
+  readWorkspaceArchive,
+  workspaceArchiveName,
+  type ConflictResolution,
+  type WorkspaceArchive,
+} from './workspaceArchive';
+
+type WorkspaceArchiveControlsProps = {
+  workspace: WorkspaceState;
+  isLight?: boolean;
+  onImport: (archive: WorkspaceArchive, mode: 'merge' | 'replace', resolutions: Record<string, ConflictResolution>) => void;
+};
+
+type PendingImport = {
+  source: string;
+  archive: WorkspaceArchive;
+  conflicts: string[];
+  mode: 'merge' | 'replace';
+  resolutions: Record<string, ConflictResolution>;
+};
+
+const RESOLUTIONS: Array<{ id: ConflictResolution; label: string }> = [
+  { id: 'overwrite', label: 'Overwrite' },
+  { id: 'skip', label: 'Keep existing' },
+  { id: 'keep-both', label: 'Keep both' },
+];
+
+export function WorkspaceArchiveControls({ workspace, isLight = false, onImport }: WorkspaceArchiveControlsProps) {
+  const zipInputRef = useRef<HTMLInputElement | null>(null);
+  const folderInputRef = useRef<HTMLInputElement | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+
+  const muted = isLight ? 'text-black/50' : 'text-[#8695b7]';
+  const buttonClass =
+    'h-6 px-1.5 rounded text-[11px] focus:outline-none focus:ring-1 disabled:opacity-40 ' +
+    (isLight ? 'text-black/60 enabled:hover:bg-black/5 focus:ring-black/15' : 'text-[#a2aabc] enabled:hover:bg-white/10 focus:ring-white/15');
+  const selectClass =
+    'h-6 px-1 rounded border text-[11px] focus:outline-none focus:ring-2 ' +
+    (isLight
+      ? 'border-black/15 bg-white text-[#0b1220]/80 focus:ring-black/15'
+      : 'border-white/15 bg-[#1d2433] text-[#d7dce2]/90 focus:ring-white/15');
+
+  const exportZip = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      downloadBlob(await exportWorkspaceZip(workspace), workspaceArchiveName(workspace));
+    } catch (e) {
+      setError(`Export failed: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const readPicked = async (input: HTMLInputElement) => {
+    const picked = Array.from(input.files ?? []);
+    // Reset so picking the same file again still fires `change`.
+    input.value = '';
+    if (picked.length === 0) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const archive = await readWorkspaceArchive(picked);
+      if (archive.files.length === 0 && archive.folders.length === 0) {
+        setError('Nothing to import: no text files found.');
+        return;
+      }
+      const conflicts = findImportConflicts(workspace, archive);
+      setPending({
+        source: picked.length === 1 ? picked[0].name : picked[0].webkitRelativePath.split('/')[0] || 'folder',
+        archive,
+        conflicts,
+        mode: 'merge',
+        resolutions: Object.fromEntries(conflicts.map((path) => [path, 'overwrite' as const])),
+      });
+    } catch (e) {
+      setError(`Import failed: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmImport = () => {
+    if (!pending) return;
+    onImport(pending.archive, pending.mode, pending.resolutions);
+    setPending(null);
+  };
+
+  const setAllResolutions = (resolution: ConflictResolution) => {
+    if (!pending) return;
+    setPending({ ...pending, resolutions: Object.fromEntries(pending.conflicts.map((path) => [path, resolution])) });
+  };
+
+  const uniformResolution =
+    pending && pending.conflicts.every((path) => pending.resolutions[path] === pending.resolutions[pending.conflicts[0]])
+      ? pending.resolutions[pending.conflicts[0]]
+      : '';
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-0.5">
+        <button type="button" className={buttonClass} disabled={busy} onClick={() => zipInputRef.current?.click()} title="Import files from a .zip archive">
+          Import .zip
+        </button>
+        <button type="button" className={buttonClass} disabled={busy} onClick={() => folderInputRef.current?.click()} title="Import the files of a folder">
+          Import folder
+        </button>
+        <button type="button" className={buttonClass} disabled={busy} onClick={() => void exportZip()} title="Download the workspace as a .zip archive">
+          Export .zip
+        </button>
+        <input
+          ref={zipInputRef}
+          type="file"
+          accept=".zip,application/zip"
+          className="hidden"
+          onChange={(e) => void readPicked(e.currentTarget)}
+        />
+        <input
+          ref={(el) => {
+            folderInputRef.current = el;
+            // Not in React's input typings; lets the picker select a whole folder.
+            el?.setAttribute('webkitdirectory', '');
+          }}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => void readPicked(e.currentTarget)}
+        />
+      </div>
+      {error && (
+        <div role="alert" className={'px-1.5 text-[11px] ' + (isLight ? 'text-[#b91c1c]' : 'text-[#ff7b72]')}>
+          {error}
+        </div>
+      )}
+
+      {pending && (
+        <div
+          className="fixed inset-0 z-50 grid place-items-center"
+          role="dialog"
+          aria-modal="true"
+          aria-label="Import files"
+          onMouseDown={() => setPending(null)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') setPending(null);
+          }}
+        >
+          <div className="absolute inset-0 bg-black/55" />
+          <div
+            className={
+              'relative w-[min(520px,calc(100vw-24px))] max-h-[calc(100vh-48px)] flex flex-col rounded-xl border shadow-2xl text-xs ' +
+              (isLight ? 'border-black/10 bg-white text-[#0b1220]' : 'border-white/10 bg-[#1d2433] text-[#d7dce2]')
+            }
+            onMouseDown={(e) => e.stopPropagation()}
+          >
+            <div className={'px-4 py-3 border-b ' + (isLight ? 'border-black/10' : 'border-white/10')}>
+              <div className="text-sm font-semibold">Import {pending.source}</div>
+              <div className={'text-[12px] ' + muted}>
+                {pending.archive.files.length} file{pending.archive.files.length === 1 ? '' : 's'}
+                {pending.archive.skipped.length > 0 ? `, ${pending.archive.skipped.length} skipped` : ''}
+              </div>
+            </div>
+
+            <div className="flex-1 min-h-0 overflow-auto px-4 py-3 space-y-3">
+              <fieldset className="space-y-1.5">
+                <label className="flex items-start gap-2">
+                  <input
+                    type="radio"
+                    name="import-mode"
+                    checked={pending.mode === 'merge'}
+                    onChange={() => setPending({ ...pending, mode: 'merge' })}
+                  />
+                  <span>
+                    <span className="font-medium">Merge</span>
+                    <span className={'block ' + muted}>Add the files to the workspace; existing files stay unless you overwrite them.</span>
+                  </span>
+                </label>
+                <label className="flex items-start gap-2">
+                  <input
+                    type="radio"
+                    name="import-mode"
+                    checked={pending.mode === 'replace'}
+                    onChange={() => setPending({ ...pending, mode: 'replace' })}
+                  />
+                  <span>
+                    <span className="font-medium">Replace</span>
+                    <span className={'block ' + muted}>Remove every current file first. Undo in the Explorer brings them back.</span>
+                  </span>
+                </label>
+              </fieldset>
+
+              {pending.mode === 'merge' && pending.conflicts.length > 0 && (
+                <div className="space-y-1.5">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">
+                      {pending.conflicts.length} file{pending.conflicts.length === 1 ? '' : 's'} already exist{pending.conflicts.length === 1 ? 's' : ''}
+                    </span>
+                    <select
+                      value={uniformResolution}
+                      onChange={(e) => setAllResolutions(e.target.value as ConflictResolution)}
+                      aria-label="Resolve all conflicts"
+                      className={selectClass}
+                    >
+                      {uniformResolution === '' && <option value="">Mixed</option>}
+                      {RESOLUTIONS.map((r) => (
+                        <option key={r.id} value={r.id}>
+                          {r.label} (all)
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <ul className="space-y-1">
+                    {pending.conflicts.map((path) => (
+                      <li key={path} className="flex items-center justify-between gap-2">
+                        <span className="truncate font-mono text-[11px]" title={path}>
+                          {path}
+                        </span>
+                        <select
+                          value={pending.resolutions[path]}
+                          onChange={(e) =>
+                            setPending({ ...pending, resolutions: { ...pending.resolutions, [path]: e.target.value as ConflictResolution } })
+                          }
+                          aria-label={`Resolve ${path}`}
+                          className={selectClass}
+                        >
+                          {RESOLUTIONS.map((r) => (
+                            <option key={r.id} value={r.id}>
+                              {r.label}
+                            </option>
+                          ))}
+                        </select>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {pending.archive.skipped.length > 0 && (
+                <details>
+                  <summary className={'cursor-pointer ' + muted}>Skipped files</summary>
+                  <ul className={'mt-1 space-y-0.5 ' + muted}>
+                    {pending.archive.skipped.map((s) => (
+                      <li key={s.path} className="truncate" title={s.path}>
+                        <span className="font-mono text-[11px]">{s.path}</span> — {s.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+
+            <div className={'px-4 py-3 flex justify-end gap-2 border-t ' + (isLight ? 'border-black/10' : 'border-white/10')}>
+              <button
+                type="button"
+                className={'h-7 px-3 rounded-md focus:outline-none focus:ring-2 ' + (isLight ? 'hover:bg-black/5 focus:ring-black/15' : 'hover:bg-white/10 focus:ring-white/15')}
+                onClick={() => setPending(null)}
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                autoFocus
+                className="h-7 px-3 rounded-md font-semibold bg-[#2563eb] text-white hover:brightness-95 focus:outline-none focus:ring-2 focus:ring-[#2563eb]/35"
+                onClick={confirmImport}
+              >
+                {pending.mode === 'replace' ? 'Replace workspace' : 'Import'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,89 @@
+import type { Monaco } from '@monaco-editor/react';
+import type { editor, IDisposable, IMarkdownString, Position } from 'monaco-editor';
+import type { ComplexityEntry, ComplexityEvidence } from '../jsCompiler/complexityAnalysis';
+
+// Styled in index.css.
+const CULPRIT_CLASS_NAME = 'jsc-complexity-culprit';
+
+function formatLines(e: ComplexityEvidence): string {
+  return e.startLine === e.endLine ? `line ${e.startLine}` : `lines ${e.startLine}–${e.endLine}`;
+}
+
+function hoverContents(entry: ComplexityEntry): IMarkdownString[] {
+  const contents: IMarkdownString[] = [{ value: `**${entry.name}** · \`${entry.complexity}\`` }, { value: entry.reason }];
+  if (entry.notes.length > 0) contents.push({ value: entry.notes.map((n) => `- ${n}`).join('\n') });
+  if (entry.responsible.length > 0) {
+    contents.push({ value: entry.responsible.map((e) => `- ${formatLines(e)}: ${e.description}`).join('\n') });
+  }
+  return contents;
+}
+
+/**
+ * Shows complexity estimates on the editor's current model: a CodeLens above
+ * each analyzed function, and a hover on its first line that explains the
+ * estimate and highlights the loops, calls and recursive calls behind it.
+ * Dispose to remove them (e.g. before showing newer estimates).
+ */
+export function showComplexityAnnotations(
+  monaco: Monaco,
+  ed: editor.IStandaloneCodeEditor,
+  entries: ComplexityEntry[]
+): IDisposable {
+  const model = ed.getModel();
+  if (!model || entries.length === 0) return { dispose() {} };
+  const language = model.getLanguageId();
+  const culprits = ed.createDecorationsCollection();
+  const entriesAt = (line: number) => entries.filter((e) => e.startLine === line);
+
+  let highlightedLine: number | null = null;
+  const highlight = (line: number | null) => {
+    if (line === highlightedLine) return;
+    highlightedLine = line;
+    const responsible = line === null ? [] : entriesAt(line).flatMap((e) => e.responsible);
+    culprits.set(
+      responsible.map((e) => ({
+        range: new monaco.Range(e.startLine, e.startColumn, e.endLine, e.endColumn),
+        options: { className: CULPRIT_CLASS_NAME, hoverMessage: { value: e.description } },
+      }))
+    );
+  };
+
+  const lenses = monaco.languages.registerCodeLensProvider(language, {
+    provideCodeLenses: (target: editor.ITextModel) => ({
+      lenses:
+        target === ed.getModel()
+          ? entries.map((entry) => ({
+              range: new monaco.Range(entry.startLine, 1, entry.startLine, 1),
+              command: { id: '', title: `${entry.complexity} — ${entry.summary}`, tooltip: entry.reason },
+            }))
+          : [],
+      dispose() {},
+    }),
+  });
+
+  const hovers = monaco.languages.registerHoverProvider(language, {
+    provideHover: (target: editor.ITextModel, position: Position) => {
+      if (target !== ed.getModel()) return null;
+      const matches = entriesAt(position.lineNumber);
+      if (matches.length === 0) return null;
+      return { contents: matches.flatMap(hoverContents) };
+    },
+  });
+
+  // The highlight follows the mouse rather than the hover widget, which has no close event.
+  const mouseMove = ed.onMouseMove((e) => {
+    const line = e.target.position?.lineNumber ?? null;
+    highlight(line !== null && entriesAt(line).length > 0 ? line : null);
+  });
+  const mouseLeave = ed.onMouseLeave(() => highlight(null));
+
+  return {
+    dispose() {
+      lenses.dispose();
+      hovers.dispose();
+      mouseMove.dispose();
+      mouseLeave.dispose();
+      culprits.clear();
+    },
+  };
+}
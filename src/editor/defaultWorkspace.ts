@@ -10,7 +10,7 @@ export const defaultWorkspace: WorkspaceState = {
       id: 'readme',
       parentId: 'root',
       name: 'README.md',
-      content: `# VSCode Editor (Demo)\n\nThis is a lightweight VSCode-like editor UI built with React + Vite.\n\n- Explore files in the left Explorer\n- Open files into tabs\n- Edit with Monaco\n- Changes persist via localStorage\n`,
+      content: `# VSCode Editor (Demo)\n\nThis is a lightweight VSCode-like editor UI built with React + Vite.\n\n- Explore files in the left Explorer\n- Open files into tabs\n- Edit with Monaco\n- Changes persist via IndexedDB\n`,
     },
     pkg: {
       type: 'file',
@@ -1,30 +1,92 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import { defaultWorkspace } from './defaultWorkspace';
-import type { NodeId, WorkspaceFileDescriptor, WorkspaceNode, WorkspaceState } from './workspaceTypes';
-import { isFile, isFolder, listFiles } from './workspaceTypes';
-
-const DRAFT_KEY = 'vscode_editor_workspace_draft_v1';
-const SAVED_KEY = 'vscode_editor_workspace_saved_v1';
-
-function safeParseState(raw: string | null): WorkspaceState | null {
-  if (!raw) return null;
-  try {
-    const parsed = JSON.parse(raw) as WorkspaceState;
-    if (!parsed || typeof parsed !== 'object') return null;
-    if (typeof parsed.rootId !== 'string') return null;
-    if (!parsed.nodes || typeof parsed.nodes !== 'object') return null;
-    if (!parsed.nodes[parsed.rootId]) return null;
-    return parsed;
-  } catch {
-    return null;
-  }
-}
+import { AUTO_SNAPSHOT_INTERVAL_MS, MAX_SNAPSHOTS, sameFiles, snapshotFiles, type WorkspaceSnapshot } from './versionHistory';
+import {
+  describeStorageError,
+  estimateStorage,
+  loadWorkspace,
+  readLegacyWorkspace,
+  writeSnapshots,
+  writeTrash,
+  writeWorkspaceState,
+  type Slot,
+  type StorageUsage,
+} from './workspaceStore';
+import { collectChanges, mergeRemoteChanges, openSyncChannel, type SyncChannel } from './workspaceSync';
+import type { ConflictResolution, WorkspaceArchive } from './workspaceArchive';
+import type {
+  NodeId,
+  TrashEntry,
+  WorkspaceFileDescriptor,
+  WorkspaceFolderNode,
+  WorkspaceNode,
+  WorkspaceState,
+} from './workspaceTypes';
+import { getNodePath, isFile, isFolder, listFiles, validateMove, validateNodeName } from './workspaceTypes';
+
+const AUTO_SNAPSHOT_KEY = 'vscode_editor_workspace_auto_snapshot_v1';
+
+const MAX_HISTORY = 100;
+const MAX_TRASH_ENTRIES = 50;
+// Edits are written this long after the last change.
+const DRAFT_WRITE_DELAY_MS = 400;
+
+// Node records touched by a structural operation; null means the node doesn't exist.
+type NodePatch = Record<NodeId, WorkspaceNode | null>;
+
+type WorkspaceOperation = {
+  label: string;
+  before: NodePatch;
+  after: NodePatch;
+  /** Trash entry the operation created (delete) or used up (restore). */
+  trashAdded?: TrashEntry;
+  trashRemoved?: TrashEntry;
+};
+
+type History = { undo: WorkspaceOperation[]; redo: WorkspaceOperation[] };
 
 function makeId(prefix = 'node'): NodeId {
   if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return `${prefix}_${crypto.randomUUID()}`;
   return `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2)}`;
 }
 
+// `name`, or `name_1.ext`, `name_2.ext`... when the folder already has a child called that.
+function uniqueChildName(state: WorkspaceState, parentFolderId: NodeId, name: string): string {
+  const parent = state.nodes[parentFolderId];
+  if (!parent || !isFolder(parent)) return name;
+  const existingNames = new Set(
+    parent.childrenIds
+      .map((id) => state.nodes[id])
+      .filter(Boolean)
+      .map((n) => n.name.toLowerCase())
+  );
+
+  if (!existingNames.has(name.toLowerCase())) return name;
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const ext = dot > 0 ? name.slice(dot) : '';
+  let i = 1;
+  while (existingNames.has(`${base}_${i}${ext}`.toLowerCase())) i += 1;
+  return `${base}_${i}${ext}`;
+}
+
+// Deep copy of a node (and, for folders, everything inside) with fresh ids.
+function copyNodeRecursive(state: WorkspaceState, nodeId: NodeId, parentId: NodeId, out: Record<NodeId, WorkspaceNode>): NodeId | null {
+  const node = state.nodes[nodeId];
+  if (!node) return null;
+  if (isFile(node)) {
+    const id = makeId('file');
+    out[id] = { ...node, id, parentId };
+    return id;
+  }
+  const id = makeId('folder');
+  const childrenIds = node.childrenIds
+    .map((childId) => copyNodeRecursive(state, childId, id, out))
+    .filter((childId): childId is NodeId => childId !== null);
+  out[id] = { ...node, id, parentId, childrenIds };
+  return id;
+}
+
 function removeNodeRecursive(state: WorkspaceState, nodeId: NodeId): WorkspaceState {
   const node = state.nodes[nodeId];
   if (!node) return state;
@@ -35,8 +97,7 @@ function removeNodeRecursive(state: WorkspaceState, nodeId: NodeId): WorkspaceSt
     if (!n.parentId) return;
     const parent = next.nodes[n.parentId];
     if (!parent || !isFolder(parent)) return;
-    parent.childrenIds = parent.childrenIds.filter((id) => id !== n.id);
-    next.nodes[parent.id] = { ...parent };
+    next.nodes[parent.id] = { ...parent, childrenIds: parent.childrenIds.filter((id) => id !== n.id) };
   };
 
   const del = (id: NodeId) => {
@@ -51,43 +112,380 @@ function removeNodeRecursive(state: WorkspaceState, nodeId: NodeId): WorkspaceSt
   return next;
 }
 
+function collectSubtree(state: WorkspaceState, nodeId: NodeId, out: Record<NodeId, WorkspaceNode> = {}): Record<NodeId, WorkspaceNode> {
+  const node = state.nodes[nodeId];
+  if (!node) return out;
+  out[nodeId] = node;
+  if (isFolder(node)) node.childrenIds.forEach((id) => collectSubtree(state, id, out));
+  return out;
+}
+
+// The node records that differ between two states, or null when nothing changed.
+function diffNodes(prev: WorkspaceState, next: WorkspaceState): { before: NodePatch; after: NodePatch } | null {
+  const before: NodePatch = {};
+  const after: NodePatch = {};
+  new Set([...Object.keys(prev.nodes), ...Object.keys(next.nodes)]).forEach((id) => {
+    if (prev.nodes[id] === next.nodes[id]) return;
+    before[id] = prev.nodes[id] ?? null;
+    after[id] = next.nodes[id] ?? null;
+  });
+  return Object.keys(before).length > 0 ? { before, after } : null;
+}
+
+// Moves the patched records from `from` to `to`. Text edited since the operation
+// is kept unless the operation itself changed that file's content (an import):
+// the editor has its own text history.
+function applyNodePatch(state: WorkspaceState, from: NodePatch, to: NodePatch): WorkspaceState {
+  const nodes = { ...state.nodes };
+  Object.entries(to).forEach(([id, node]) => {
+    if (!node) {
+      delete nodes[id];
+      return;
+    }
+    const cur = nodes[id];
+    const prev = from[id];
+    const contentUnchanged = prev && isFile(prev) && isFile(node) && prev.content === node.content;
+    nodes[id] = cur && isFile(cur) && isFile(node) && contentUnchanged ? { ...node, content: cur.content } : node;
+  });
+  return { ...state, nodes };
+}
+
+// Adds archive files and folders under the root, reusing folders that already exist.
+function mergeArchive(
+  state: WorkspaceState,
+  archive: WorkspaceArchive,
+  resolve: (path: string) => ConflictResolution
+): WorkspaceState {
+  const next: WorkspaceState = { ...state, nodes: { ...state.nodes } };
+
+  const childNamed = (folderId: NodeId, name: string) => {
+    const folder = next.nodes[folderId];
+    if (!folder || !isFolder(folder)) return undefined;
+    return folder.childrenIds.map((id) => next.nodes[id]).find((n) => n && n.name.toLowerCase() === name.toLowerCase());
+  };
+
+  const addChild = (node: WorkspaceNode & { parentId: NodeId }) => {
+    const parent = next.nodes[node.parentId];
+    if (!parent || !isFolder(parent)) return;
+    next.nodes[parent.id] = { ...parent, childrenIds: [...parent.childrenIds, node.id] };
+    next.nodes[node.id] = node;
+  };
+
+  const ensureFolder = (segments: string[]): NodeId => {
+    let parentId = next.rootId;
+    segments.forEach((name) => {
+      const existing = childNamed(parentId, name);
+      if (existing && isFolder(existing)) {
+        parentId = existing.id;
+        return;
+      }
+      // A file with the folder's name keeps its place; the folder gets a suffix.
+      const folder: WorkspaceFolderNode & { parentId: NodeId } = {
+        type: 'folder',
+        id: makeId('folder'),
+        parentId,
+        name: existing ? uniqueChildName(next, parentId, name) : name,
+        childrenIds: [],
+      };
+      addChild(folder);
+      parentId = folder.id;
+    });
+    return parentId;
+  };
+
+  archive.folders.forEach((path) => ensureFolder(path.split('/')));
+  archive.files.forEach((file) => {
+    const segments = file.path.split('/');
+    const name = segments.pop() ?? file.path;
+    const parentId = ensureFolder(segments);
+    const existing = childNamed(parentId, name);
+    if (existing) {
+      if (isFile(existing) && existing.content === file.content) return;
+      const resolution = resolve(file.path);
+      if (resolution === 'skip') return;
+      if (resolution === 'overwrite' && isFile(existing)) {
+        next.nodes[existing.id] = { ...existing, content: file.content };
+        return;
+      }
+    }
+    addChild({
+      type: 'file',
+      id: makeId('file'),
+      parentId,
+      name: existing ? uniqueChildName(next, parentId, name) : name,
+      content: file.content,
+    });
+  });
+  return next;
+}
+
+function withTrashEntry(trash: TrashEntry[], entry: TrashEntry | undefined): TrashEntry[] {
+  if (!entry || trash.some((e) => e.id === entry.id)) return trash;
+  return [entry, ...trash].slice(0, MAX_TRASH_ENTRIES);
+}
+
+function withoutTrashEntry(trash: TrashEntry[], entry: TrashEntry | undefined): TrashEntry[] {
+  return entry ? trash.filter((e) => e.id !== entry.id) : trash;
+}
+
 export function useWorkspace() {
-  const [state, setState] = useState<WorkspaceState>(() => safeParseState(localStorage.getItem(DRAFT_KEY)) ?? safeParseState(localStorage.getItem(SAVED_KEY)) ?? defaultWorkspace);
-  const savedRef = useRef<WorkspaceState>(safeParseState(localStorage.getItem(SAVED_KEY)) ?? defaultWorkspace);
+  const [state, setState] = useState<WorkspaceState>(defaultWorkspace);
+  const [saved, setSaved] = useState<WorkspaceState>(defaultWorkspace);
+  // False until the stored workspace has been read; nothing is written before that.
+  const [loaded, setLoaded] = useState(false);
+  // Latest state for timers and page-hide flushes.
+  const stateRef = useRef(state);
+  // What each slot held after its last successful write, so a write only touches changed files.
+  const persistedRef = useRef<Record<Slot, WorkspaceState | null>>({ draft: null, saved: null });
+  // Writes run one after another, in the order they were requested.
+  const writeQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  // Background writes warn once per run of failures rather than on every keystroke.
+  const warnedRef = useRef(false);
+  const [persistError, setPersistError] = useState<string | null>(null);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+
+  // Create/rename/move/delete operations, newest last. Kept in memory only.
+  const [history, setHistory] = useState<History>({ undo: [], redo: [] });
+  const [trash, setTrash] = useState<TrashEntry[]>([]);
+  const trashRef = useRef<TrashEntry[]>([]);
+
+  // Other tabs with the workspace open; null until loaded or without BroadcastChannel.
+  const channelRef = useRef<SyncChannel | null>(null);
+  // File id → another tab's content, for files edited here and there at the same time.
+  const [conflicts, setConflicts] = useState<Record<NodeId, string>>({});
+
+  // Saved versions of the whole workspace, newest first.
+  const [snapshots, setSnapshots] = useState<WorkspaceSnapshot[]>([]);
+  // Mirrors `snapshots` for the autosave timer.
+  const snapshotsRef = useRef<WorkspaceSnapshot[]>([]);
+  const [autoSnapshots, setAutoSnapshots] = useState(() => {
+    try {
+      return localStorage.getItem(AUTO_SNAPSHOT_KEY) === '1';
+    } catch {
+      return false;
+    }
+  });
+
+  const commitSnapshots = (next: WorkspaceSnapshot[]) => {
+    snapshotsRef.current = next;
+    setSnapshots(next);
+  };
+
+  // State changes go through here so the refs are never stale and other tabs hear about local changes.
+  const commitState = (next: WorkspaceState, broadcast = true) => {
+    const changes = broadcast ? collectChanges(stateRef.current, next) : [];
+    stateRef.current = next;
+    setState(next);
+    if (changes.length > 0) channelRef.current?.post({ type: 'nodes', changes });
+  };
+
+  /** Queues a write; resolves to whether it succeeded. `explicit` failures (a save) always warn. */
+  const persist = (failure: string, write: () => Promise<void>, explicit = false): Promise<boolean> => {
+    const run = writeQueueRef.current.then(write).then(
+      () => {
+        warnedRef.current = false;
+        void estimateStorage().then(setStorageUsage);
+        return true;
+      },
+      (e: unknown) => {
+        if (explicit || !warnedRef.current) setPersistError(`${failure}: ${describeStorageError(e)}`);
+        warnedRef.current = true;
+        return false;
+      }
+    );
+    writeQueueRef.current = run;
+    return run;
+  };
+
+  const writeSlot = (slot: Slot, target: WorkspaceState, explicit = false) =>
+    persist(
+      slot === 'draft' ? 'Your latest changes could not be stored' : 'Saving the workspace failed',
+      async () => {
+        await writeWorkspaceState(slot, persistedRef.current[slot], target);
+        persistedRef.current[slot] = target;
+      },
+      explicit
+    );
+
+  useEffect(() => {
+    let cancelled = false;
+    loadWorkspace()
+      .catch((e: unknown) => {
+        setPersistError(`The workspace storage could not be opened (${describeStorageError(e)}). Changes will be lost on reload.`);
+        warnedRef.current = true;
+        return readLegacyWorkspace();
+      })
+      .then((stored) => {
+        if (cancelled) return;
+        const draft = stored.draft ?? stored.saved ?? defaultWorkspace;
+        persistedRef.current = { draft: stored.draft, saved: stored.saved };
+        stateRef.current = draft;
+        setState(draft);
+        setSaved(stored.saved ?? defaultWorkspace);
+        trashRef.current = stored.trash;
+        setTrash(stored.trash);
+        commitSnapshots(stored.snapshots);
+        setLoaded(true);
+        void estimateStorage().then(setStorageUsage);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    // Draft autosave so refresh doesn't lose edits.
+    const timer = window.setTimeout(() => void writeSlot('draft', state), DRAFT_WRITE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [state, loaded]);
+
+  useEffect(() => {
+    if (!loaded) return;
+    // Don't lose the last few keystrokes to the write delay when the tab goes away.
+    const flush = () => {
+      if (persistedRef.current.draft !== stateRef.current) void writeSlot('draft', stateRef.current);
+    };
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    window.addEventListener('pagehide', flush);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loaded]);
+
+  // The tab that changed the trash stores it; the others only follow.
+  const commitTrash = (next: TrashEntry[], broadcast = true) => {
+    if (next === trashRef.current) return;
+    trashRef.current = next;
+    setTrash(next);
+    if (!broadcast) return;
+    void persist('Updating the trash failed', () => writeTrash(next));
+    channelRef.current?.post({ type: 'trash', trash: next });
+  };
 
   useEffect(() => {
     try {
-      // Draft autosave so refresh doesn't lose edits.
-      localStorage.setItem(DRAFT_KEY, JSON.stringify(state));
+      localStorage.setItem(AUTO_SNAPSHOT_KEY, autoSnapshots ? '1' : '0');
     } catch {
-      // ignore persistence failures (quota, privacy mode, etc.)
+      // ignore
     }
-  }, [state]);
+  }, [autoSnapshots]);
+
+  // Records `target` unless it's an unlabelled copy of the latest snapshot.
+  const recordSnapshot = (target: WorkspaceState, message: string, auto: boolean) => {
+    const prev = snapshotsRef.current;
+    const text = message.trim();
+    if (!text && prev[0] && sameFiles(prev[0].state, target)) return;
+    const snapshot: WorkspaceSnapshot = { id: makeId('snapshot'), createdAt: Date.now(), message: text, auto, state: target };
+    const next = [snapshot, ...prev];
+    const removedIds = next.slice(MAX_SNAPSHOTS).map((s) => s.id);
+    commitSnapshots(next.slice(0, MAX_SNAPSHOTS));
+    void persist('Recording a version snapshot failed', () => writeSnapshots([snapshot], removedIds));
+    channelRef.current?.post({ type: 'snapshots', added: [snapshot], removedIds });
+  };
+
+  useEffect(() => {
+    if (!autoSnapshots || !loaded) return;
+    const timer = window.setInterval(() => recordSnapshot(stateRef.current, '', true), AUTO_SNAPSHOT_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [autoSnapshots, loaded]);
+
+  useEffect(() => {
+    if (!loaded) return;
+    const channel = openSyncChannel((message) => {
+      if (message.type === 'nodes') {
+        const merged = mergeRemoteChanges(stateRef.current, message.changes, message.force);
+        commitState(merged.state, false);
+        setConflicts((prev) => {
+          const next = { ...prev, ...merged.conflicts };
+          merged.settled.forEach((id) => delete next[id]);
+          return next;
+        });
+        // Undo steps recorded against the old file tree no longer fit it.
+        if (merged.structural) setHistory({ undo: [], redo: [] });
+      } else if (message.type === 'saved') {
+        persistedRef.current.saved = message.state;
+        setSaved(message.state);
+      } else if (message.type === 'trash') {
+        commitTrash(message.trash, false);
+      } else {
+        const removed = new Set([...message.removedIds, ...message.added.map((s) => s.id)]);
+        commitSnapshots(
+          [...message.added, ...snapshotsRef.current.filter((s) => !removed.has(s.id))]
+            .sort((a, b) => b.createdAt - a.createdAt)
+            .slice(0, MAX_SNAPSHOTS)
+        );
+      }
+    });
+    channelRef.current = channel;
+    return () => {
+      channel?.close();
+      channelRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loaded]);
 
   const files = useMemo<WorkspaceFileDescriptor[]>(() => listFiles(state), [state]);
 
+  // Applies a structural change as a patch of the nodes it touches and records it for undo.
+  const changeStructure = (
+    label: string,
+    update: (prev: WorkspaceState) => WorkspaceState,
+    trashChange: Pick<WorkspaceOperation, 'trashAdded' | 'trashRemoved'> = {}
+  ) => {
+    const prev = stateRef.current;
+    const patch = diffNodes(prev, update(prev));
+    if (!patch) return;
+    const op: WorkspaceOperation = { label, ...patch, ...trashChange };
+    commitState(applyNodePatch(prev, op.before, op.after));
+    setHistory((h) => ({ undo: [...h.undo, op].slice(-MAX_HISTORY), redo: [] }));
+    commitTrash(withoutTrashEntry(withTrashEntry(trashRef.current, op.trashAdded), op.trashRemoved));
+  };
+
+  const undo = () => {
+    const op = history.undo[history.undo.length - 1];
+    if (!op) return;
+    commitState(applyNodePatch(stateRef.current, op.after, op.before));
+    setHistory((prev) => ({ undo: prev.undo.slice(0, -1), redo: [...prev.redo, op] }));
+    commitTrash(withTrashEntry(withoutTrashEntry(trashRef.current, op.trashAdded), op.trashRemoved));
+  };
+
+  const redo = () => {
+    const op = history.redo[history.redo.length - 1];
+    if (!op) return;
+    commitState(applyNodePatch(stateRef.current, op.before, op.after));
+    setHistory((prev) => ({ undo: [...prev.undo, op], redo: prev.redo.slice(0, -1) }));
+    commitTrash(withoutTrashEntry(withTrashEntry(trashRef.current, op.trashAdded), op.trashRemoved));
+  };
+
   const getNode = (id: NodeId) => state.nodes[id];
 
   const updateFileContent = (fileId: NodeId, content: string) => {
-    setState((prev) => {
-      const node = prev.nodes[fileId];
-      if (!node || !isFile(node)) return prev;
-      return {
-        ...prev,
-        nodes: {
-          ...prev.nodes,
-          [fileId]: { ...node, content },
-        },
-      };
+    const prev = stateRef.current;
+    const node = prev.nodes[fileId];
+    if (!node || !isFile(node) || node.content === content) return;
+    commitState({
+      ...prev,
+      nodes: {
+        ...prev.nodes,
+        [fileId]: { ...node, content },
+      },
     });
   };
 
   const isDirty = (fileId: NodeId): boolean => {
     const cur = state.nodes[fileId];
-    const saved = savedRef.current.nodes[fileId];
-    if (!cur || !saved) return false;
-    if (!isFile(cur) || !isFile(saved)) return false;
-    return cur.content !== saved.content || cur.name !== saved.name || cur.parentId !== saved.parentId;
+    const prev = saved.nodes[fileId];
+    if (!cur || !prev) return false;
+    if (!isFile(cur) || !isFile(prev)) return false;
+    return cur.content !== prev.content || cur.name !== prev.name || cur.parentId !== prev.parentId;
   };
 
   const dirtyFileIds = useMemo(() => {
@@ -97,28 +495,34 @@ export function useWorkspace() {
     }
     return out;
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [files, state]);
+  }, [files, state, saved]);
 
-  const saveFile = (fileId: NodeId) => {
+  // Every save is also recorded in the version history, with an optional message.
+  const saveWorkspace = (message: string) => {
+    const target = state;
+    void writeSlot('saved', target, true).then((ok) => {
+      // Files only stop showing as unsaved once they really are.
+      if (!ok) return;
+      setSaved(target);
+      channelRef.current?.post({ type: 'saved', state: target });
+    });
+    recordSnapshot(target, message, false);
+  };
+
+  const saveFile = (fileId: NodeId, message = '') => {
     const cur = state.nodes[fileId];
     if (!cur || !isFile(cur)) return;
-    try {
-      const nextSaved: WorkspaceState = state;
-      localStorage.setItem(SAVED_KEY, JSON.stringify(nextSaved));
-      savedRef.current = nextSaved;
-    } catch {
-      // ignore
-    }
+    saveWorkspace(message);
   };
 
-  const saveAll = () => {
-    try {
-      const nextSaved: WorkspaceState = state;
-      localStorage.setItem(SAVED_KEY, JSON.stringify(nextSaved));
-      savedRef.current = nextSaved;
-    } catch {
-      // ignore
-    }
+  const saveAll = (message = '') => saveWorkspace(message);
+
+  // Writes what's pending again after a failure (e.g. once space was freed).
+  const retryPersist = () => {
+    setPersistError(null);
+    warnedRef.current = false;
+    void writeSlot('draft', stateRef.current, true);
+    if (persistedRef.current.saved !== saved) void writeSlot('saved', saved, true);
   };
 
   const createFile = (parentFolderId: NodeId, name: string, content = ''): NodeId | null => {
@@ -128,25 +532,9 @@ export function useWorkspace() {
     const trimmed = name.trim();
     if (!trimmed) return null;
 
-    const existingNames = new Set(
-      parent.childrenIds
-        .map((id) => state.nodes[id])
-        .filter(Boolean)
-        .map((n) => n.name.toLowerCase())
-    );
-
-    let finalName = trimmed;
-    if (existingNames.has(finalName.toLowerCase())) {
-      const dot = finalName.lastIndexOf('.');
-      const base = dot > 0 ? finalName.slice(0, dot) : finalName;
-      const ext = dot > 0 ? finalName.slice(dot) : '';
-      let i = 1;
-      while (existingNames.has(`${base}_${i}${ext}`.toLowerCase())) i += 1;
-      finalName = `${base}_${i}${ext}`;
-    }
-
+    const finalName = uniqueChildName(state, parentFolderId, trimmed);
     const id = makeId('file');
-    setState((prev) => {
+    changeStructure(`Create ${finalName}`, (prev) => {
       const p = prev.nodes[parentFolderId];
       if (!p || !isFolder(p)) return prev;
       return {
@@ -161,34 +549,222 @@ export function useWorkspace() {
     return id;
   };
 
+  const createFolder = (parentFolderId: NodeId, name: string): NodeId | null => {
+    const parent = state.nodes[parentFolderId];
+    if (!parent || !isFolder(parent)) return null;
+
+    const trimmed = name.trim();
+    if (!trimmed) return null;
+
+    const finalName = uniqueChildName(state, parentFolderId, trimmed);
+    const id = makeId('folder');
+    changeStructure(`Create ${finalName}`, (prev) => {
+      const p = prev.nodes[parentFolderId];
+      if (!p || !isFolder(p)) return prev;
+      return {
+        ...prev,
+        nodes: {
+          ...prev.nodes,
+          [id]: { type: 'folder', id, parentId: parentFolderId, name: finalName, childrenIds: [] },
+          [parentFolderId]: { ...p, childrenIds: [...p.childrenIds, id] },
+        },
+      };
+    });
+    return id;
+  };
+
   const renameNode = (nodeId: NodeId, nextName: string) => {
     const name = nextName.trim();
-    if (!name) return;
-    setState((prev) => {
+    const node = state.nodes[nodeId];
+    if (!node || node.parentId === null) return;
+    if (validateNodeName(state, node.parentId, name, nodeId)) return;
+    changeStructure(`Rename ${node.name} to ${name}`, (prev) => {
       const node = prev.nodes[nodeId];
       if (!node) return prev;
       return { ...prev, nodes: { ...prev.nodes, [nodeId]: { ...node, name } } };
     });
   };
 
+  // Copies a file or folder next to the original, named like a new file would be on a clash.
+  const duplicateNode = (nodeId: NodeId): NodeId | null => {
+    const node = state.nodes[nodeId];
+    if (!node || node.parentId === null) return null;
+    const parentId = node.parentId;
+    const copies: Record<NodeId, WorkspaceNode> = {};
+    const id = copyNodeRecursive(state, nodeId, parentId, copies);
+    if (!id) return null;
+    copies[id] = { ...copies[id], name: uniqueChildName(state, parentId, node.name) };
+    changeStructure(`Duplicate ${node.name}`, (prev) => {
+      const p = prev.nodes[parentId];
+      if (!p || !isFolder(p)) return prev;
+      return { ...prev, nodes: { ...prev.nodes, ...copies, [parentId]: { ...p, childrenIds: [...p.childrenIds, id] } } };
+    });
+    return id;
+  };
+
+  const moveNode = (nodeId: NodeId, targetFolderId: NodeId) => {
+    if (validateMove(state, nodeId, targetFolderId)) return;
+    changeStructure(`Move ${state.nodes[nodeId]?.name ?? ''}`, (prev) => {
+      const node = prev.nodes[nodeId];
+      const target = prev.nodes[targetFolderId];
+      const source = node?.parentId ? prev.nodes[node.parentId] : undefined;
+      if (!node || !target || !isFolder(target) || !source || !isFolder(source)) return prev;
+      return {
+        ...prev,
+        nodes: {
+          ...prev.nodes,
+          [source.id]: { ...source, childrenIds: source.childrenIds.filter((id) => id !== nodeId) },
+          [target.id]: { ...target, childrenIds: [...target.childrenIds, nodeId] },
+          [nodeId]: { ...node, parentId: targetFolderId } as WorkspaceNode,
+        },
+      };
+    });
+  };
+
+  // Deleted nodes go to the trash, from where they can be restored.
   const deleteNode = (nodeId: NodeId) => {
-    if (nodeId === state.rootId) return;
-    setState((prev) => removeNodeRecursive(prev, nodeId));
+    const node = state.nodes[nodeId];
+    const parent = node?.parentId ? state.nodes[node.parentId] : undefined;
+    if (!node || !parent || !isFolder(parent)) return;
+    const entry: TrashEntry = {
+      id: makeId('trash'),
+      nodeId,
+      name: node.name,
+      path: getNodePath(state, nodeId),
+      parentId: parent.id,
+      index: parent.childrenIds.indexOf(nodeId),
+      deletedAt: Date.now(),
+      nodes: collectSubtree(state, nodeId),
+    };
+    changeStructure(`Delete ${node.name}`, (prev) => removeNodeRecursive(prev, nodeId), { trashAdded: entry });
   };
 
-  const resetWorkspace = () => {
-    setState(defaultWorkspace);
-    try {
-      localStorage.setItem(DRAFT_KEY, JSON.stringify(defaultWorkspace));
-      localStorage.setItem(SAVED_KEY, JSON.stringify(defaultWorkspace));
-    } catch {
-      // ignore
+  // Puts a trashed node back with its original ids, at its old position when
+  // the folder still exists (otherwise at the root), renamed on a clash.
+  const restoreFromTrash = (entryId: string) => {
+    const entry = trash.find((e) => e.id === entryId);
+    if (!entry) return;
+    if (state.nodes[entry.nodeId]) {
+      commitTrash(withoutTrashEntry(trashRef.current, entry));
+      return;
     }
-    savedRef.current = defaultWorkspace;
+    const original = state.nodes[entry.parentId];
+    const parentId = original && isFolder(original) ? original.id : state.rootId;
+    const name = uniqueChildName(state, parentId, entry.name);
+    changeStructure(
+      `Restore ${entry.name}`,
+      (prev) => {
+        const p = prev.nodes[parentId];
+        if (!p || !isFolder(p)) return prev;
+        const childrenIds = [...p.childrenIds];
+        childrenIds.splice(parentId === entry.parentId ? Math.min(entry.index, childrenIds.length) : childrenIds.length, 0, entry.nodeId);
+        return {
+          ...prev,
+          nodes: {
+            ...prev.nodes,
+            ...entry.nodes,
+            [entry.nodeId]: { ...entry.nodes[entry.nodeId], parentId, name } as WorkspaceNode,
+            [parentId]: { ...p, childrenIds },
+          },
+        };
+      },
+      { trashRemoved: entry }
+    );
+  };
+
+  /**
+   * Adds an imported archive to the workspace (`merge`, with a resolution per
+   * conflicting path; unlisted conflicts keep both) or swaps the workspace for
+   * it (`replace`). Either way it's a single undoable operation.
+   */
+  const importArchive = (
+    archive: WorkspaceArchive,
+    mode: 'merge' | 'replace',
+    resolutions: Record<string, ConflictResolution> = {}
+  ) => {
+    const count = archive.files.length;
+    changeStructure(`Import ${count} file${count === 1 ? '' : 's'}`, (prev) => {
+      if (mode === 'merge') return mergeArchive(prev, archive, (path) => resolutions[path] ?? 'keep-both');
+      const root = prev.nodes[prev.rootId];
+      if (!root || !isFolder(root)) return prev;
+      const emptied: WorkspaceState = { rootId: prev.rootId, nodes: { [root.id]: { ...root, childrenIds: [] } } };
+      return mergeArchive(emptied, archive, () => 'overwrite');
+    });
+  };
+
+  // Puts the whole workspace back as it was in the snapshot; undoable like any other operation.
+  const restoreSnapshot = (snapshotId: string) => {
+    const snapshot = snapshots.find((s) => s.id === snapshotId);
+    if (!snapshot) return;
+    changeStructure(`Restore version from ${new Date(snapshot.createdAt).toLocaleString()}`, (prev) =>
+      snapshot.state.rootId === prev.rootId ? { ...prev, nodes: snapshot.state.nodes } : prev
+    );
+  };
+
+  // Puts back one file's snapshot content, recreating the file (and its folders) if it's gone.
+  const restoreSnapshotFile = (snapshotId: string, path: string) => {
+    const snapshot = snapshots.find((s) => s.id === snapshotId);
+    const content = snapshot ? snapshotFiles(snapshot.state).get(path) : undefined;
+    if (content === undefined) return;
+    changeStructure(`Restore ${path.split('/').pop() ?? path}`, (prev) =>
+      mergeArchive(prev, { files: [{ path, content }], folders: [], skipped: [] }, () => 'overwrite')
+    );
+  };
+
+  const deleteSnapshot = (snapshotId: string) => {
+    commitSnapshots(snapshotsRef.current.filter((s) => s.id !== snapshotId));
+    void persist('Deleting the snapshot failed', () => writeSnapshots([], [snapshotId]));
+    channelRef.current?.post({ type: 'snapshots', added: [], removedIds: [snapshotId] });
+  };
+
+  // Writes the results of a workspace-wide replace as one undoable operation.
+  const replaceInFiles = (replacements: Array<{ fileId: NodeId; content: string }>) => {
+    const count = replacements.length;
+    changeStructure(`Replace in ${count} file${count === 1 ? '' : 's'}`, (prev) => {
+      const nodes = { ...prev.nodes };
+      replacements.forEach(({ fileId, content }) => {
+        const node = nodes[fileId];
+        if (node && isFile(node)) nodes[fileId] = { ...node, content };
+      });
+      return { ...prev, nodes };
+    });
+  };
+
+  const deleteFromTrash = (entryId: string) => commitTrash(trashRef.current.filter((e) => e.id !== entryId));
+
+  const emptyTrash = () => commitTrash([]);
+
+  // Files changed both here and in another tab, while they still differ.
+  const syncConflicts = Object.entries(conflicts).flatMap(([fileId, theirs]) => {
+    const node = state.nodes[fileId];
+    return node && isFile(node) && node.content !== theirs ? [{ fileId, path: getNodePath(state, fileId), theirs }] : [];
+  });
+
+  // Settles a conflict everywhere: `mine` overrides the other tabs, `theirs` adopts their content.
+  const resolveConflict = (fileId: NodeId, keep: 'mine' | 'theirs') => {
+    const theirs = conflicts[fileId];
+    setConflicts((prev) => {
+      const next = { ...prev };
+      delete next[fileId];
+      return next;
+    });
+    const node = stateRef.current.nodes[fileId];
+    if (!node || !isFile(node) || theirs === undefined) return;
+    if (keep === 'theirs') updateFileContent(fileId, theirs);
+    else channelRef.current?.post({ type: 'nodes', changes: [{ id: fileId, node }], force: true });
+  };
+
+  const resetWorkspace = () => {
+    commitState(defaultWorkspace);
+    setSaved(defaultWorkspace);
+    void writeSlot('saved', defaultWorkspace, true);
+    setHistory({ undo: [], redo: [] });
   };
 
   return {
     state,
+    /** False until the stored workspace has been read; until then `state` is the default workspace. */
+    loaded,
     files,
     getNode,
     updateFileContent,
@@ -197,9 +773,37 @@ export function useWorkspace() {
     saveFile,
     saveAll,
     createFile,
+    createFolder,
     renameNode,
+    duplicateNode,
+    moveNode,
     deleteNode,
+    undo,
+    redo,
+    /** Describes what undo/redo would do, or null when there is nothing to undo/redo. */
+    undoLabel: history.undo[history.undo.length - 1]?.label ?? null,
+    redoLabel: history.redo[history.redo.length - 1]?.label ?? null,
+    trash,
+    restoreFromTrash,
+    deleteFromTrash,
+    emptyTrash,
+    importArchive,
+    replaceInFiles,
+    snapshots,
+    autoSnapshots,
+    setAutoSnapshots,
+    restoreSnapshot,
+    restoreSnapshotFile,
+    deleteSnapshot,
     resetWorkspace,
+    syncConflicts,
+    resolveConflict,
+    /** Why the last write failed, until dismissed or retried. */
+    persistError,
+    dismissPersistError: () => setPersistError(null),
+    retryPersist,
+    storageUsage,
   };
 }
 
+export type Workspace = ReturnType<typeof useWorkspace>;
@@ -0,0 +1,110 @@
+import type { WorkspaceState } from './workspaceTypes';
+import { isFile, listFiles } from './workspaceTypes';
+
+/** The whole workspace as it was at a save (or a periodic autosave). */
+export type WorkspaceSnapshot = {
+  id: string;
+  createdAt: number;
+  message: string;
+  /** Recorded by the periodic autosave rather than an explicit save. */
+  auto: boolean;
+  state: WorkspaceState;
+};
+
+/** How a file differs between a snapshot and the current workspace. */
+export type SnapshotFileChange = {
+  path: string;
+  /** `added`: only in the current workspace; `removed`: only in the snapshot. */
+  status: 'added' | 'removed' | 'modified';
+  /** Null when the file is too large to count. */
+  addedLines: number | null;
+  removedLines: number | null;
+};
+
+/** Line counts per path, reused while neither side of a file changes (see compareSnapshot). */
+export type LineCountCache = Map<string, { before: string; after: string; added: number; removed: number }>;
+
+export const MAX_SNAPSHOTS = 50;
+
+// Larger files are listed as changed without counting lines.
+const MAX_COUNTED_CHARS = 500_000;
+
+/** How often the optional autosave records a snapshot (when something changed). */
+export const AUTO_SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000;
+
+function isSnapshot(v: unknown): v is WorkspaceSnapshot {
+  if (!v || typeof v !== 'object') return false;
+  const s = v as Record<string, unknown>;
+  const state = s.state as WorkspaceState | undefined;
+  return typeof s.id === 'string' && typeof s.createdAt === 'number' && !!state?.nodes?.[state.rootId];
+}
+
+/** The valid snapshots of a stored list, in order. */
+export function parseSnapshots(value: unknown): WorkspaceSnapshot[] {
+  return Array.isArray(value)
+    ? value.filter(isSnapshot).map((s) => ({ ...s, message: typeof s.message === 'string' ? s.message : '', auto: !!s.auto }))
+    : [];
+}
+
+/** Path → content of every file. */
+export function snapshotFiles(state: WorkspaceState): Map<string, string> {
+  const out = new Map<string, string>();
+  listFiles(state).forEach((f) => {
+    const node = state.nodes[f.id];
+    if (node && isFile(node)) out.set(f.path, node.content);
+  });
+  return out;
+}
+
+export function sameFiles(a: WorkspaceState, b: WorkspaceState): boolean {
+  const filesA = snapshotFiles(a);
+  const filesB = snapshotFiles(b);
+  return filesA.size === filesB.size && [...filesA].every(([path, content]) => filesB.get(path) === content);
+}
+
+function splitLines(content: string): string[] {
+  return content ? content.split('\n') : [];
+}
+
+// Lines only in `after` / only in `before`, counted as multisets: linear time
+// (unlike a full diff), with moved lines counting as unchanged.
+function countLineChanges(before: string, after: string): { added: number; removed: number } {
+  const remaining = new Map<string, number>();
+  splitLines(before).forEach((line) => remaining.set(line, (remaining.get(line) ?? 0) + 1));
+  let added = 0;
+  splitLines(after).forEach((line) => {
+    const n = remaining.get(line) ?? 0;
+    if (n > 0) remaining.set(line, n - 1);
+    else added += 1;
+  });
+  let removed = 0;
+  remaining.forEach((n) => {
+    removed += n;
+  });
+  return { added, removed };
+}
+
+/**
+ * Files that differ between the snapshot and `current`, by path. Pass the same
+ * `cache` on every call so only files that changed since are counted again.
+ */
+export function compareSnapshot(snapshot: WorkspaceState, current: WorkspaceState, cache?: LineCountCache): SnapshotFileChange[] {
+  const before = snapshotFiles(snapshot);
+  const after = snapshotFiles(current);
+  const changes: SnapshotFileChange[] = [];
+  new Set([...before.keys(), ...after.keys()]).forEach((path) => {
+    const a = before.get(path);
+    const b = after.get(path);
+    if (a === b) return;
+    const status = a === undefined ? 'added' : b === undefined ? 'removed' : 'modified';
+    if ((a?.length ?? 0) > MAX_COUNTED_CHARS || (b?.length ?? 0) > MAX_COUNTED_CHARS) {
+      changes.push({ path, status, addedLines: null, removedLines: null });
+      return;
+    }
+    const cached = cache?.get(path);
+    const counts = cached && cached.before === (a ?? '') && cached.after === (b ?? '') ? cached : countLineChanges(a ?? '', b ?? '');
+    cache?.set(path, { before: a ?? '', after: b ?? '', ...counts });
+    changes.push({ path, status, addedLines: counts.added, removedLines: counts.removed });
+  });
+  return changes.sort((x, y) => x.path.localeCompare(y.path));
+}
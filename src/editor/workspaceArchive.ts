@@ -0,0 +1,177 @@
+import { createZip, readZip, type ZipEntry } from './zip';
+import type { WorkspaceState } from './workspaceTypes';
+import { getNodePath, isFile, isFolder, listFiles } from './workspaceTypes';
+
+export type ImportedFile = { path: string; content: string };
+
+/** Files (and empty folders) read from a zip or a picked folder, ready to import. */
+export type WorkspaceArchive = {
+  files: ImportedFile[];
+  folders: string[];
+  skipped: Array<{ path: string; reason: string }>;
+};
+
+/** What to do with an imported file whose path already exists with other content. */
+export type ConflictResolution = 'overwrite' | 'skip' | 'keep-both';
+
+// The workspace lives in browser storage, so large files (usually build output or assets) are left out.
+const MAX_IMPORT_FILE_BYTES = 1_000_000;
+
+// Archive comment marking zips exported here; their paths are the workspace's own.
+const WORKSPACE_ARCHIVE_COMMENT = 'vscode_editor workspace';
+
+// Folders and files that are never worth importing.
+const IGNORED_SEGMENTS = new Set(['__MACOSX', '.git', 'node_modules', '.DS_Store', 'Thumbs.db']);
+
+/** Zips every file and folder, with paths as the Explorer shows them. */
+export function exportWorkspaceZip(state: WorkspaceState): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+  const walk = (id: string) => {
+    const node = state.nodes[id];
+    if (!node) return;
+    if (isFile(node)) {
+      entries.push({ path: getNodePath(state, id), data: encoder.encode(node.content) });
+      return;
+    }
+    // Only empty folders need their own entry; the others are implied by their files.
+    if (node.parentId !== null && node.childrenIds.length === 0) {
+      entries.push({ path: `${getNodePath(state, id)}/`, data: new Uint8Array() });
+    }
+    node.childrenIds.forEach(walk);
+  };
+  walk(state.rootId);
+  return createZip(entries, new Date(), WORKSPACE_ARCHIVE_COMMENT);
+}
+
+/** Suggested archive name: the workspace package.json name, when there is one. */
+export function workspaceArchiveName(state: WorkspaceState): string {
+  const pkg = listFiles(state).find((f) => f.path === 'package.json');
+  const node = pkg ? state.nodes[pkg.id] : undefined;
+  try {
+    const name: unknown = node && isFile(node) ? JSON.parse(node.content).name : null;
+    if (typeof name === 'string' && name.trim()) return `${name.trim().replace(/[^\w.-]+/g, '-')}.zip`;
+  } catch {
+    // ignore
+  }
+  return 'workspace.zip';
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  // Revoked on the next tick so the download has started.
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// Forward slashes, no leading `./` or `/`; null for paths that escape the root.
+function normalizePath(path: string): string | null {
+  const segments = path.replace(/\\/g, '/').split('/').filter((s) => s && s !== '.');
+  if (segments.some((s) => s === '..')) return null;
+  return segments.join('/');
+}
+
+function decodeText(data: Uint8Array): string | null {
+  // A NUL byte early on is the usual sign of a binary file.
+  if (data.subarray(0, 8000).includes(0)) return null;
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * `wrapper` is a top-level folder that holds the project rather than being part
+ * of it (the picked folder, or the folder a Git host zips a repository in); it's
+ * dropped when every entry is inside it.
+ */
+function toArchive(entries: Array<{ path: string; data: Uint8Array | null; size: number }>, wrapper: string | null): WorkspaceArchive {
+  const archive: WorkspaceArchive = { files: [], folders: [], skipped: [] };
+  const kept: Array<{ path: string; isFolder: boolean; data: Uint8Array | null }> = [];
+
+  entries.forEach((entry) => {
+    const isFolderEntry = entry.path.endsWith('/');
+    const path = normalizePath(entry.path);
+    if (path === null) {
+      archive.skipped.push({ path: entry.path, reason: 'path points outside the archive' });
+      return;
+    }
+    if (!path) return;
+    if (path.split('/').some((s) => IGNORED_SEGMENTS.has(s))) return;
+    if (!isFolderEntry && entry.size > MAX_IMPORT_FILE_BYTES) {
+      archive.skipped.push({ path, reason: 'larger than 1 MB' });
+      return;
+    }
+    kept.push({ path, isFolder: isFolderEntry, data: entry.data });
+  });
+
+  const wrapped =
+    wrapper !== null &&
+    kept.every((e) => (e.path === wrapper ? e.isFolder : e.path.startsWith(`${wrapper}/`))) &&
+    kept.some((e) => e.path !== wrapper);
+  const strip = (path: string) => (wrapped ? path.slice(wrapper.length + 1) : path);
+
+  kept.forEach((entry) => {
+    const path = strip(entry.path);
+    if (!path) return;
+    if (entry.isFolder) {
+      archive.folders.push(path);
+      return;
+    }
+    const content = entry.data ? decodeText(entry.data) : null;
+    if (content === null) archive.skipped.push({ path, reason: 'binary file' });
+    else archive.files.push({ path, content });
+  });
+  return archive;
+}
+
+/**
+ * Reads what the user picked: a single `.zip`, or the files of a folder
+ * (from a `webkitdirectory` input, paths taken from `webkitRelativePath`).
+ */
+export async function readWorkspaceArchive(picked: File[]): Promise<WorkspaceArchive> {
+  if (picked.length === 1 && /\.zip$/i.test(picked[0].name)) {
+    // Oversized entries are skipped without inflating them.
+    const { entries, comment } = await readZip(new Uint8Array(await picked[0].arrayBuffer()), MAX_IMPORT_FILE_BYTES);
+    // A folder named like the zip (`repo-main.zip` → `repo-main/`) only wraps the project;
+    // zips exported here never have one.
+    const wrapper = comment === WORKSPACE_ARCHIVE_COMMENT ? null : picked[0].name.replace(/\.zip$/i, '');
+    return toArchive(entries, wrapper);
+  }
+  const entries = await Promise.all(
+    picked.map(async (file) => ({
+      path: file.webkitRelativePath || file.name,
+      // Oversized files are skipped without reading them.
+      data: file.size > MAX_IMPORT_FILE_BYTES ? null : new Uint8Array(await file.arrayBuffer()),
+      size: file.size,
+    }))
+  );
+  // `webkitRelativePath` starts with the picked folder itself.
+  const first = picked[0]?.webkitRelativePath.split('/')[0];
+  return toArchive(entries, first || null);
+}
+
+/** Paths of imported files that already exist in the workspace with different content. */
+export function findImportConflicts(state: WorkspaceState, archive: WorkspaceArchive): string[] {
+  const existing = new Map<string, string>();
+  listFiles(state).forEach((f) => {
+    const node = state.nodes[f.id];
+    if (node && isFile(node)) existing.set(f.path.toLowerCase(), node.content);
+  });
+  const folders = new Set(
+    Object.values(state.nodes)
+      .filter(isFolder)
+      .map((n) => getNodePath(state, n.id).toLowerCase())
+  );
+  return archive.files
+    .filter((f) => {
+      const key = f.path.toLowerCase();
+      // A folder in the way always needs a decision too.
+      return folders.has(key) || (existing.has(key) && existing.get(key) !== f.content);
+    })
+    .map((f) => f.path);
+}
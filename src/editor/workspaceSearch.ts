@@ -0,0 +1,214 @@
+import type { NodeId, WorkspaceState } from './workspaceTypes';
+import { isFile, listFiles } from './workspaceTypes';
+
+export type SearchQuery = {
+  text: string;
+  regex: boolean;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  /** Comma-separated globs; empty means every file. */
+  include: string;
+  exclude: string;
+};
+
+export type SearchMatch = {
+  /** 1-based, like Monaco positions. */
+  line: number;
+  column: number;
+  length: number;
+  /** Offset of the match in the file content. */
+  offset: number;
+  lineText: string;
+};
+
+export type FileSearchResult = {
+  fileId: NodeId;
+  path: string;
+  matches: SearchMatch[];
+};
+
+export type SearchResults = {
+  files: FileSearchResult[];
+  matchCount: number;
+  /** Stopped at MAX_SEARCH_MATCHES. */
+  truncated: boolean;
+};
+
+export type FileReplacement = {
+  fileId: NodeId;
+  path: string;
+  content: string;
+  count: number;
+};
+
+export const MAX_SEARCH_MATCHES = 5000;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** The query as a global RegExp, or why it can't be one (an invalid pattern). */
+export function compileSearchQuery(query: SearchQuery): { regexp: RegExp } | { error: string } {
+  const source = query.regex ? query.text : escapeRegExp(query.text);
+  const bounded = query.wholeWord ? `(?<![\\w$])(?:${source})(?![\\w$])` : source;
+  try {
+    // No `u` flag: ordinary patterns such as `\-` must stay valid, as in the editor's own find.
+    return { regexp: new RegExp(bounded, query.caseSensitive ? 'gm' : 'gim') };
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+// `*` stays within a folder, `**` spans folders, `?` is one character, `{a,b}` is either.
+function globToRegExp(glob: string): RegExp {
+  let out = '';
+  for (let i = 0; i < glob.length; i += 1) {
+    const c = glob[i];
+    if (c === '*' && glob[i + 1] === '*') {
+      // `**/` also matches no folder at all.
+      const slash = glob[i + 2] === '/';
+      out += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (c === '*') out += '[^/]*';
+    else if (c === '?') out += '[^/]';
+    else if (c === '{') out += '(?:';
+    else if (c === '}') out += ')';
+    else if (c === ',' && out.lastIndexOf('(?:') > out.lastIndexOf(')')) out += '|';
+    else out += escapeRegExp(c);
+  }
+  return new RegExp(`^${out}$`, 'i');
+}
+
+// Like VS Code: a pattern without a slash matches at any depth, and a folder matches everything in it.
+function parseGlobs(list: string): RegExp[] {
+  return list
+    .split(/,(?![^{]*\})/)
+    .map((g) => g.trim().replace(/^\.?\//, '').replace(/\/$/, ''))
+    .filter(Boolean)
+    .map((g) => globToRegExp(`${g.includes('/') ? '' : '**/'}${g}{,/**}`));
+}
+
+export function createPathFilter(include: string, exclude: string): (path: string) => boolean {
+  const includes = parseGlobs(include);
+  const excludes = parseGlobs(exclude);
+  return (path) => (includes.length === 0 || includes.some((g) => g.test(path))) && !excludes.some((g) => g.test(path));
+}
+
+function lineStarts(content: string): number[] {
+  const starts = [0];
+  for (let i = content.indexOf('\n'); i !== -1; i = content.indexOf('\n', i + 1)) starts.push(i + 1);
+  return starts;
+}
+
+// Index of the last line starting at or before `offset`.
+function lineIndexAt(starts: number[], offset: number): number {
+  let lo = 0;
+  let hi = starts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (starts[mid] <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+/** Every match in the files that pass the include/exclude globs, grouped by file in path order. */
+export function searchWorkspace(state: WorkspaceState, query: SearchQuery, regexp: RegExp): SearchResults {
+  const results: SearchResults = { files: [], matchCount: 0, truncated: false };
+  if (!query.text) return results;
+  const matchesPath = createPathFilter(query.include, query.exclude);
+
+  for (const file of listFiles(state)) {
+    const node = state.nodes[file.id];
+    if (!node || !isFile(node) || !matchesPath(file.path)) continue;
+    const content = node.content;
+    const matches: SearchMatch[] = [];
+    let starts: number[] | null = null;
+    for (const m of content.matchAll(regexp)) {
+      // Empty matches (e.g. `^` or `a*`) have nothing to show or replace.
+      if (m[0].length === 0) continue;
+      starts ??= lineStarts(content);
+      const index = lineIndexAt(starts, m.index);
+      const lineEnd = content.indexOf('\n', starts[index]);
+      matches.push({
+        line: index + 1,
+        column: m.index - starts[index] + 1,
+        length: m[0].length,
+        offset: m.index,
+        lineText: content.slice(starts[index], lineEnd === -1 ? undefined : lineEnd).replace(/\r$/, ''),
+      });
+      results.matchCount += 1;
+      if (results.matchCount >= MAX_SEARCH_MATCHES) {
+        results.truncated = true;
+        break;
+      }
+    }
+    if (matches.length > 0) results.files.push({ fileId: file.id, path: file.path, matches });
+    if (results.truncated) break;
+  }
+  return results;
+}
+
+// `String.prototype.replace` substitutions: `$$`, `$&`, `` $` ``, `$'`, `$1`...`$99` and `$<name>`.
+function substitute(template: string, m: RegExpExecArray): string {
+  return template.replace(/\$(\$|&|`|'|\d{1,2}|<([^>]*)>)/g, (token, key: string, name: string | undefined) => {
+    if (key === '$') return '$';
+    if (key === '&') return m[0];
+    if (key === '`') return m.input.slice(0, m.index);
+    if (key === "'") return m.input.slice(m.index + m[0].length);
+    if (name !== undefined) return m.groups ? (m.groups[name] ?? '') : token;
+    const n = Number(key);
+    if (n >= 1 && n < m.length) return m[n] ?? '';
+    // `$12` without a 12th group is group 1 followed by "2".
+    const first = Number(key[0]);
+    if (key.length === 2 && first >= 1 && first < m.length) return (m[first] ?? '') + key[1];
+    return token;
+  });
+}
+
+/**
+ * What one match turns into. In regex mode `$1`, `$&`... refer to the match
+ * like `String.prototype.replace`; otherwise the replacement is literal.
+ */
+export function previewReplacement(content: string, match: SearchMatch, regexp: RegExp, replacement: string, regex: boolean): string {
+  if (!regex) return replacement;
+  // Matched again in place, so lookarounds see the rest of the file.
+  const sticky = new RegExp(regexp.source, regexp.flags.replace('g', '') + 'y');
+  sticky.lastIndex = match.offset;
+  const m = sticky.exec(content);
+  return m ? substitute(replacement, m) : replacement;
+}
+
+/**
+ * New content for every file in the results, with exactly the listed matches
+ * replaced (so a truncated search replaces only what was previewed). Matches the
+ * file no longer has at the same place are left alone.
+ */
+export function replaceInWorkspace(
+  state: WorkspaceState,
+  results: SearchResults,
+  regexp: RegExp,
+  replacement: string,
+  regex: boolean
+): FileReplacement[] {
+  const sticky = new RegExp(regexp.source, regexp.flags.replace('g', '') + 'y');
+  return results.files.flatMap((file) => {
+    const node = state.nodes[file.fileId];
+    if (!node || !isFile(node)) return [];
+    const content = node.content;
+    let out = '';
+    let last = 0;
+    let count = 0;
+    for (const match of file.matches) {
+      if (match.offset < last) continue;
+      sticky.lastIndex = match.offset;
+      const m = sticky.exec(content);
+      if (!m || m[0].length !== match.length) continue;
+      out += content.slice(last, m.index) + (regex ? substitute(replacement, m) : replacement);
+      last = m.index + m[0].length;
+      count += 1;
+    }
+    out += content.slice(last);
+    return count > 0 && out !== content ? [{ fileId: file.fileId, path: file.path, content: out, count }] : [];
+  });
+}
@@ -0,0 +1,237 @@
+import type { TrashEntry, WorkspaceNode, WorkspaceState } from './workspaceTypes';
+import { parseSnapshots, type WorkspaceSnapshot } from './versionHistory';
+
+/**
+ * IndexedDB storage for the workspace: one record per node for the draft and
+ * the saved copy (so a keystroke rewrites one file, not the whole workspace),
+ * plus the trash and the version-history snapshots.
+ */
+
+export type Slot = 'draft' | 'saved';
+
+export type StoredWorkspace = {
+  draft: WorkspaceState | null;
+  saved: WorkspaceState | null;
+  trash: TrashEntry[];
+  /** Newest first. */
+  snapshots: WorkspaceSnapshot[];
+};
+
+export type StorageUsage = { usage: number; quota: number };
+
+const DB_NAME = 'vscode_editor_workspace';
+const DB_VERSION = 1;
+const NODE_STORES: Record<Slot, string> = { draft: 'draft_nodes', saved: 'saved_nodes' };
+const SNAPSHOTS_STORE = 'snapshots';
+// Root ids, the trash and the migration marker, by key.
+const META_STORE = 'meta';
+
+// Where the workspace lived before IndexedDB; read once, then removed.
+const LEGACY_KEYS = {
+  draft: 'vscode_editor_workspace_draft_v1',
+  saved: 'vscode_editor_workspace_saved_v1',
+  trash: 'vscode_editor_workspace_trash_v1',
+  history: 'vscode_editor_workspace_history_v1',
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Quota errors only surface when the transaction aborts, so writes wait for it to finish.
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('The write was aborted.'));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    if (typeof indexedDB === 'undefined') return Promise.reject(new Error('IndexedDB is not available'));
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.values(NODE_STORES).forEach((name) => {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' });
+      });
+      if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+    };
+    dbPromise = promisify(request);
+    // Let a later call retry (e.g. after the user allows storage).
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+export function parseWorkspaceState(value: unknown): WorkspaceState | null {
+  if (!value || typeof value !== 'object') return null;
+  const parsed = value as WorkspaceState;
+  if (typeof parsed.rootId !== 'string') return null;
+  if (!parsed.nodes || typeof parsed.nodes !== 'object') return null;
+  if (!parsed.nodes[parsed.rootId]) return null;
+  return parsed;
+}
+
+export function parseTrash(value: unknown): TrashEntry[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (e): e is TrashEntry => !!e && typeof e === 'object' && typeof e.id === 'string' && typeof e.nodeId === 'string' && !!e.nodes?.[e.nodeId]
+  );
+}
+
+function parseJson(raw: string | null): unknown {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+/** The workspace as the localStorage version of the editor kept it. */
+export function readLegacyWorkspace(): StoredWorkspace {
+  const read = (key: string) => {
+    try {
+      return parseJson(localStorage.getItem(key));
+    } catch {
+      return null;
+    }
+  };
+  return {
+    draft: parseWorkspaceState(read(LEGACY_KEYS.draft)),
+    saved: parseWorkspaceState(read(LEGACY_KEYS.saved)),
+    trash: parseTrash(read(LEGACY_KEYS.trash)),
+    snapshots: parseSnapshots(read(LEGACY_KEYS.history)),
+  };
+}
+
+function putState(tx: IDBTransaction, slot: Slot, state: WorkspaceState) {
+  const nodes = tx.objectStore(NODE_STORES[slot]);
+  nodes.clear();
+  Object.values(state.nodes).forEach((node) => nodes.put(node));
+  tx.objectStore(META_STORE).put(state.rootId, `${slot}_root`);
+}
+
+// Copies the localStorage workspace into the database, once. The old keys go only after the copy committed.
+async function migrateLegacyWorkspace(db: IDBDatabase): Promise<void> {
+  const meta = db.transaction(META_STORE, 'readonly').objectStore(META_STORE);
+  if (await promisify(meta.get('migrated'))) return;
+
+  const legacy = readLegacyWorkspace();
+  const tx = db.transaction([...Object.values(NODE_STORES), SNAPSHOTS_STORE, META_STORE], 'readwrite');
+  if (legacy.draft) putState(tx, 'draft', legacy.draft);
+  if (legacy.saved) putState(tx, 'saved', legacy.saved);
+  if (legacy.trash.length > 0) tx.objectStore(META_STORE).put(legacy.trash, 'trash');
+  legacy.snapshots.forEach((s) => tx.objectStore(SNAPSHOTS_STORE).put(s));
+  tx.objectStore(META_STORE).put(true, 'migrated');
+  await transactionDone(tx);
+
+  Object.values(LEGACY_KEYS).forEach((key) => {
+    try {
+      localStorage.removeItem(key);
+    } catch {
+      // ignore
+    }
+  });
+}
+
+async function readState(db: IDBDatabase, slot: Slot): Promise<WorkspaceState | null> {
+  const tx = db.transaction([NODE_STORES[slot], META_STORE], 'readonly');
+  const [rootId, nodes] = await Promise.all([
+    promisify(tx.objectStore(META_STORE).get(`${slot}_root`)),
+    promisify(tx.objectStore(NODE_STORES[slot]).getAll() as IDBRequest<WorkspaceNode[]>),
+  ]);
+  return parseWorkspaceState({ rootId, nodes: Object.fromEntries(nodes.map((n) => [n.id, n])) });
+}
+
+/** Loads everything, moving a localStorage workspace over first if there is one. */
+export async function loadWorkspace(): Promise<StoredWorkspace> {
+  const db = await openDatabase();
+  await migrateLegacyWorkspace(db);
+  const [draft, saved] = await Promise.all([readState(db, 'draft'), readState(db, 'saved')]);
+  const tx = db.transaction([SNAPSHOTS_STORE, META_STORE], 'readonly');
+  const [trash, snapshots] = await Promise.all([
+    promisify(tx.objectStore(META_STORE).get('trash')),
+    promisify(tx.objectStore(SNAPSHOTS_STORE).getAll()),
+  ]);
+  return {
+    draft,
+    saved,
+    trash: parseTrash(trash),
+    snapshots: parseSnapshots(snapshots).sort((a, b) => b.createdAt - a.createdAt),
+  };
+}
+
+/**
+ * Writes `next` to the slot, touching only the node records that differ from
+ * `prev` (what the slot held after the last successful write; null rewrites it all).
+ */
+export async function writeWorkspaceState(slot: Slot, prev: WorkspaceState | null, next: WorkspaceState): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([NODE_STORES[slot], META_STORE], 'readwrite');
+  if (!prev) {
+    putState(tx, slot, next);
+  } else {
+    const nodes = tx.objectStore(NODE_STORES[slot]);
+    new Set([...Object.keys(prev.nodes), ...Object.keys(next.nodes)]).forEach((id) => {
+      const node = next.nodes[id];
+      if (prev.nodes[id] === node) return;
+      if (node) nodes.put(node);
+      else nodes.delete(id);
+    });
+    if (prev.rootId !== next.rootId) tx.objectStore(META_STORE).put(next.rootId, `${slot}_root`);
+  }
+  await transactionDone(tx);
+}
+
+export async function writeTrash(trash: TrashEntry[]): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(trash, 'trash');
+  await transactionDone(tx);
+}
+
+/** Adds and removes snapshot records in one transaction. */
+export async function writeSnapshots(added: WorkspaceSnapshot[], removedIds: string[]): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+  const store = tx.objectStore(SNAPSHOTS_STORE);
+  added.forEach((s) => store.put(s));
+  removedIds.forEach((id) => store.delete(id));
+  await transactionDone(tx);
+}
+
+/** How much of the origin's storage is in use, when the browser can tell. */
+export async function estimateStorage(): Promise<StorageUsage | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  try {
+    const { usage, quota } = await navigator.storage.estimate();
+    return typeof usage === 'number' && typeof quota === 'number' && quota > 0 ? { usage, quota } : null;
+  } catch {
+    return null;
+  }
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+}
+
+/** A readable reason for a failed write; quota errors get a hint. */
+export function describeStorageError(error: unknown): string {
+  const name = error instanceof DOMException ? error.name : '';
+  if (name === 'QuotaExceededError') return 'The browser storage for this site is full.';
+  return error instanceof Error && error.message ? error.message : String(error);
+}
@@ -0,0 +1,113 @@
+import type { NodeId, TrashEntry, WorkspaceNode, WorkspaceState } from './workspaceTypes';
+import { isFile, isFolder } from './workspaceTypes';
+import type { WorkspaceSnapshot } from './versionHistory';
+
+/**
+ * Keeps workspaces open in several tabs of the same browser in step. Each tab
+ * sends the node records it changed over a `BroadcastChannel`; file content
+ * carries the text it was edited from, so a tab that changed the same file in
+ * the meantime sees a conflict instead of silently losing its edits.
+ */
+
+export type NodeChange = {
+  id: NodeId;
+  /** The node as the sender now has it; null when it was deleted. */
+  node: WorkspaceNode | null;
+  /** The sender's content before this change; only set when the content changed. */
+  baseContent?: string;
+};
+
+export type SyncMessage =
+  /** `force` replaces conflicting content outright (the sender chose to keep its version). */
+  | { type: 'nodes'; changes: NodeChange[]; force?: boolean }
+  | { type: 'saved'; state: WorkspaceState }
+  | { type: 'trash'; trash: TrashEntry[] }
+  | { type: 'snapshots'; added: WorkspaceSnapshot[]; removedIds: string[] };
+
+export type SyncChannel = {
+  post: (message: SyncMessage) => void;
+  close: () => void;
+};
+
+export type RemoteMergeResult = {
+  state: WorkspaceState;
+  /** File id → the other tab's content, for files changed in both places. */
+  conflicts: Record<NodeId, string>;
+  /** Files whose content now matches the other tab again. */
+  settled: NodeId[];
+  /** Something besides file content changed (create, rename, move, delete). */
+  structural: boolean;
+};
+
+const CHANNEL_NAME = 'vscode_editor_workspace_sync';
+
+/** Null when the browser has no `BroadcastChannel`; the tab then works on its own. */
+export function openSyncChannel(onMessage: (message: SyncMessage) => void): SyncChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (e: MessageEvent<SyncMessage>) => onMessage(e.data);
+  return {
+    post: (message) => {
+      try {
+        channel.postMessage(message);
+      } catch {
+        // ignore (the channel was closed while the tab unloads)
+      }
+    },
+    close: () => channel.close(),
+  };
+}
+
+/** The node records that differ between two states, as other tabs need them. */
+export function collectChanges(prev: WorkspaceState, next: WorkspaceState): NodeChange[] {
+  const changes: NodeChange[] = [];
+  new Set([...Object.keys(prev.nodes), ...Object.keys(next.nodes)]).forEach((id) => {
+    const before = prev.nodes[id];
+    const after = next.nodes[id] ?? null;
+    if (before === after) return;
+    const contentChanged = before && after && isFile(before) && isFile(after) && before.content !== after.content;
+    changes.push(contentChanged ? { id, node: after, baseContent: before.content } : { id, node: after });
+  });
+  return changes;
+}
+
+/**
+ * Applies another tab's changes. Names, folders and deletes simply follow the
+ * other tab; content is taken when this tab still has the text it was edited
+ * from, and otherwise kept and reported as a conflict.
+ */
+export function mergeRemoteChanges(state: WorkspaceState, changes: NodeChange[], force = false): RemoteMergeResult {
+  const nodes = { ...state.nodes };
+  const conflicts: Record<NodeId, string> = {};
+  const settled: NodeId[] = [];
+  let structural = false;
+
+  changes.forEach(({ id, node, baseContent }) => {
+    const local = nodes[id];
+    if (!node) {
+      if (local) delete nodes[id];
+      structural = true;
+      return;
+    }
+    if (!local || !isFile(local) || !isFile(node)) {
+      nodes[id] = node;
+      if (!local || isFolder(node) || local.name !== node.name || local.parentId !== node.parentId) structural = true;
+      return;
+    }
+    if (local.name !== node.name || local.parentId !== node.parentId) structural = true;
+    if (baseContent === undefined && !force) {
+      // Only the name or folder changed over there.
+      nodes[id] = { ...node, content: local.content };
+      return;
+    }
+    if (force || local.content === baseContent || local.content === node.content) {
+      nodes[id] = node;
+      settled.push(id);
+      return;
+    }
+    nodes[id] = { ...node, content: local.content };
+    conflicts[id] = node.content;
+  });
+
+  return { state: { ...state, nodes }, conflicts, settled, structural };
+}
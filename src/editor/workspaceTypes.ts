@@ -63,3 +63,55 @@ export function listFiles(state: WorkspaceState): WorkspaceFileDescriptor[] {
   return out.sort((a, b) => a.path.localeCompare(b.path));
 }
 
+
+/** True when `nodeId` is `ancestorId` or lies somewhere inside it. */
+export function isSameOrDescendant(state: WorkspaceState, ancestorId: NodeId, nodeId: NodeId): boolean {
+  let cur: WorkspaceNode | undefined = state.nodes[nodeId];
+  while (cur) {
+    if (cur.id === ancestorId) return true;
+    cur = cur.parentId === null ? undefined : state.nodes[cur.parentId];
+  }
+  return false;
+}
+
+/**
+ * Why `name` can't be given to a child of `parentId`, or null when it can.
+ * `exceptId` is the node being renamed, so keeping its own name isn't a clash.
+ */
+export function validateNodeName(state: WorkspaceState, parentId: NodeId, name: string, exceptId?: NodeId): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return 'A name is required.';
+  if (/[/\\]/.test(trimmed)) return 'Names cannot contain slashes.';
+  if (trimmed === '.' || trimmed === '..') return `"${trimmed}" is not a valid name.`;
+  const parent = state.nodes[parentId];
+  if (!parent || !isFolder(parent)) return 'The folder no longer exists.';
+  const clash = parent.childrenIds.some((id) => id !== exceptId && state.nodes[id]?.name.toLowerCase() === trimmed.toLowerCase());
+  return clash ? `"${trimmed}" already exists in this folder.` : null;
+}
+
+/** Why `nodeId` can't be moved into `targetFolderId`, or null when it can. */
+export function validateMove(state: WorkspaceState, nodeId: NodeId, targetFolderId: NodeId): string | null {
+  const node = state.nodes[nodeId];
+  const target = state.nodes[targetFolderId];
+  if (!node || node.parentId === null) return 'The workspace root cannot be moved.';
+  if (!target || !isFolder(target)) return 'Files can only be moved into folders.';
+  if (node.parentId === targetFolderId) return `"${node.name}" is already in this folder.`;
+  if (isSameOrDescendant(state, nodeId, targetFolderId)) return 'A folder cannot be moved into itself.';
+  return validateNodeName(state, targetFolderId, node.name);
+}
+
+/** A deleted file or folder, kept with its original ids so it can be put back where it was. */
+export type TrashEntry = {
+  id: string;
+  /** Id of the deleted node (the top of `nodes`). */
+  nodeId: NodeId;
+  name: string;
+  /** Workspace path at the time of deletion. */
+  path: string;
+  parentId: NodeId;
+  /** Position among the parent's children. */
+  index: number;
+  deletedAt: number;
+  /** The deleted node and everything inside it. */
+  nodes: Record<NodeId, WorkspaceNode>;
+};
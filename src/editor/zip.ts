@@ -0,0 +1,224 @@
+/**
+ * Minimal ZIP reader/writer for workspace archives. Entries are deflated with
+ * the browser's `CompressionStream` (stored when it's unavailable); reading
+ * supports stored and deflated entries, which covers archives made by Git
+ * hosts, OS file managers and `zip` itself. No ZIP64 or encryption.
+ */
+
+export type ZipEntry = {
+  /** Forward-slash path; folders end with `/`. */
+  path: string;
+  data: Uint8Array;
+};
+
+export type ReadZipEntry = {
+  path: string;
+  /** Uncompressed size, as the archive declares it. */
+  size: number;
+  /** Null when `size` is over the reader's limit; such entries are never inflated. */
+  data: Uint8Array | null;
+};
+
+export type ReadZipResult = {
+  entries: ReadZipEntry[];
+  /** The archive comment ('' when there is none). */
+  comment: string;
+};
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+const STORED = 0;
+const DEFLATED = 8;
+// MS-DOS directory attribute, set on folder entries.
+const DIRECTORY_ATTRIBUTE = 0x10;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n += 1) {
+      let c = n;
+      for (let k = 0; k < 8; k += 1) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i += 1) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function pipeThrough(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Inflates at most `limit` bytes; null when the data would be longer (a size that lies, or a zip bomb).
+async function inflate(bytes: Uint8Array, limit: number): Promise<Uint8Array | null> {
+  const reader = new Blob([bytes as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    length += chunk.value.length;
+    if (length > limit) {
+      void reader.cancel();
+      return null;
+    }
+    chunks.push(chunk.value);
+  }
+  const out = new Uint8Array(length);
+  let offset = 0;
+  chunks.forEach((c) => {
+    out.set(c, offset);
+    offset += c.length;
+  });
+  return out;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: (Math.max(0, date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/** Builds a `.zip` Blob from the entries, in order. */
+export async function createZip(entries: ZipEntry[], modified = new Date(), comment = ''): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const canDeflate = typeof CompressionStream === 'function';
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const isFolder = entry.path.endsWith('/');
+    const crc = crc32(entry.data);
+    let method = STORED;
+    let body = entry.data;
+    if (canDeflate && !isFolder && entry.data.length > 0) {
+      const deflated = await pipeThrough(entry.data, new CompressionStream('deflate-raw'));
+      // Tiny files can grow when deflated.
+      if (deflated.length < entry.data.length) {
+        method = DEFLATED;
+        body = deflated;
+      }
+    }
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_HEADER, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, method, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, body.length, true);
+    local.setUint32(22, entry.data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    parts.push(new Uint8Array(local.buffer), name, body);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, CENTRAL_HEADER, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, UTF8_FLAG, true);
+    header.setUint16(10, method, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, body.length, true);
+    header.setUint32(24, entry.data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(38, isFolder ? DIRECTORY_ATTRIBUTE : 0, true);
+    header.setUint32(42, offset, true);
+    central.push(new Uint8Array(header.buffer), name);
+
+    offset += 30 + name.length + body.length;
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const commentBytes = encoder.encode(comment).subarray(0, 0xffff);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+  end.setUint16(20, commentBytes.length, true);
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer), commentBytes] as BlobPart[], { type: 'application/zip' });
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The record is 22 bytes plus a comment of up to 65535 bytes, at the very end.
+  const min = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let i = view.byteLength - 22; i >= min; i -= 1) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) return i;
+  }
+  return -1;
+}
+
+/**
+ * Reads every entry of a `.zip`. Entries declaring more than `maxEntryBytes`
+ * are listed without their data. Throws when the data isn't a readable archive
+ * or an entry doesn't match its declared size and checksum.
+ */
+export async function readZip(bytes: Uint8Array, maxEntryBytes = Infinity): Promise<ReadZipResult> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = findEndOfCentralDirectory(view);
+  if (end < 0) throw new Error('Not a zip archive.');
+
+  const count = view.getUint16(end + 10, true);
+  let cursor = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const comment = decoder.decode(bytes.subarray(end + 22, end + 22 + view.getUint16(end + 20, true)));
+  const entries: ReadZipEntry[] = [];
+
+  for (let i = 0; i < count; i += 1) {
+    if (cursor + 46 > view.byteLength || view.getUint32(cursor, true) !== CENTRAL_HEADER) {
+      throw new Error('The zip archive is damaged.');
+    }
+    const flags = view.getUint16(cursor + 8, true);
+    const method = view.getUint16(cursor + 10, true);
+    const crc = view.getUint32(cursor + 16, true);
+    const compressedSize = view.getUint32(cursor + 20, true);
+    const size = view.getUint32(cursor + 24, true);
+    const nameLength = view.getUint16(cursor + 28, true);
+    const extraLength = view.getUint16(cursor + 30, true);
+    const commentLength = view.getUint16(cursor + 32, true);
+    const localOffset = view.getUint32(cursor + 42, true);
+    const path = decoder.decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength)).replace(/\\/g, '/');
+    cursor += 46 + nameLength + extraLength + commentLength;
+
+    if (flags & 1) throw new Error(`"${path}" is encrypted; encrypted archives aren't supported.`);
+    if (size > maxEntryBytes) {
+      entries.push({ path, size, data: null });
+      continue;
+    }
+    if (localOffset + 30 > view.byteLength || view.getUint32(localOffset, true) !== LOCAL_HEADER) {
+      throw new Error('The zip archive is damaged.');
+    }
+    // The local header's name/extra lengths can differ from the central directory's.
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    if (dataStart + compressedSize > view.byteLength) throw new Error('The zip archive is damaged.');
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Uint8Array | null;
+    if (method === STORED) {
+      data = raw;
+    } else if (method === DEFLATED) {
+      if (typeof DecompressionStream !== 'function') throw new Error('This browser cannot decompress zip archives.');
+      data = await inflate(raw, size);
+    } else {
+      throw new Error(`"${path}" uses an unsupported compression method (${method}).`);
+    }
+    if (!data || data.length !== size || crc32(data) !== crc) throw new Error(`"${path}" is damaged in the zip archive.`);
+    entries.push({ path, size, data });
+  }
+  return { entries, comment };
+}
@@ -0,0 +1,155 @@
+import type { BenchResult, BenchRun } from './benchRun';
+
+type BenchmarkResultsProps = {
+  /** Newest first; the first run is ranked and compared with the earlier ones. */
+  runs: BenchRun[];
+  isLight: boolean;
+  onClearHistory: () => void;
+};
+
+type MeasuredBench = Extract<BenchResult, { ok: true }>;
+type FailedBench = Extract<BenchResult, { ok: false }>;
+
+function formatOps(ops: number): string {
+  if (!Number.isFinite(ops)) return '∞';
+  if (ops >= 100) return Math.round(ops).toLocaleString('en-US');
+  return ops.toPrecision(3);
+}
+
+function formatTime(ts: number): string {
+  const d = new Date(ts);
+  return [d.getHours(), d.getMinutes(), d.getSeconds()].map((n) => String(n).padStart(2, '0')).join(':');
+}
+
+function measured(run: BenchRun): MeasuredBench[] {
+  return run.results.filter((r): r is MeasuredBench => r.ok).sort((a, b) => b.opsPerSec - a.opsPerSec);
+}
+
+export function BenchmarkResults({ runs, isLight, onClearHistory }: BenchmarkResultsProps) {
+  const muted = isLight ? 'text-black/50' : 'text-[#8695b7]';
+  const border = isLight ? 'border-black/10' : 'border-white/10';
+  const faster = isLight ? 'text-[#15803d]' : 'text-[#7ee787]';
+  const slower = isLight ? 'text-[#b91c1c]' : 'text-[#ff7b72]';
+
+  if (runs.length === 0) {
+    return (
+      <div className={muted}>
+        No benchmarks yet. Call <code>bench('name', fn)</code> in your code and run it.
+      </div>
+    );
+  }
+
+  const [latest, ...earlier] = runs;
+  const ranked = measured(latest);
+  const fastest = ranked[0]?.opsPerSec ?? 0;
+  const failed = latest.results.filter((r): r is FailedBench => !r.ok);
+
+  // The most recent earlier measurement of a benchmark with the same name.
+  const previousOf = (name: string) => {
+    for (const run of earlier) {
+      const match = measured(run).find((r) => r.name === name);
+      if (match) return match;
+    }
+    return undefined;
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-x-3">
+        <span>{formatTime(latest.ts)}</span>
+        <span className={muted}>
+          {latest.done ? `${latest.results.length} benchmarks` : `running… (${latest.results.length}/${latest.total})`}
+        </span>
+        {earlier.length > 0 && (
+          <button
+            type="button"
+            onClick={onClearHistory}
+            className={['ml-auto underline underline-offset-2 focus:outline-none', muted].join(' ')}
+          >
+            Clear history
+          </button>
+        )}
+      </div>
+
+      <table className="w-full border-collapse text-left">
+        <thead className={muted}>
+          <tr className={['border-b', border].join(' ')}>
+            <th className="py-1 pr-2 font-normal">#</th>
+            <th className="py-1 pr-2 font-normal">Benchmark</th>
+            <th className="py-1 pr-2 font-normal text-right">ops/sec</th>
+            <th className="py-1 pr-2 font-normal text-right">±</th>
+            <th className="py-1 pr-2 font-normal text-right">Samples</th>
+            <th className="py-1 pr-2 font-normal">Relative</th>
+            {earlier.length > 0 && <th className="py-1 font-normal text-right">vs previous</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {ranked.map((result, idx) => {
+            const ratio = fastest > 0 && Number.isFinite(fastest) ? result.opsPerSec / fastest : 1;
+            const previous = previousOf(result.name);
+            const change = previous ? (result.opsPerSec / previous.opsPerSec - 1) * 100 : null;
+            return (
+              <tr key={result.benchId} className={['border-b', border].join(' ')}>
+                <td className={['py-1 pr-2', muted].join(' ')}>{idx + 1}</td>
+                <td className="py-1 pr-2">{result.name}</td>
+                <td className="py-1 pr-2 text-right tabular-nums">{formatOps(result.opsPerSec)}</td>
+                <td className={['py-1 pr-2 text-right tabular-nums', muted].join(' ')}>{result.rme.toFixed(1)}%</td>
+                <td className={['py-1 pr-2 text-right tabular-nums', muted].join(' ')}>{result.samples}</td>
+                <td className="py-1 pr-2">
+                  <div className="flex items-center gap-2">
+                    <div className={['h-1.5 w-16 rounded-full', isLight ? 'bg-black/5' : 'bg-white/10'].join(' ')}>
+                      <div
+                        className={['h-full rounded-full', isLight ? 'bg-[#2563eb]' : 'bg-[#79c0ff]'].join(' ')}
+                        style={{ width: `${Math.max(2, ratio * 100)}%` }}
+                      />
+                    </div>
+                    <span className={idx === 0 ? faster : muted}>
+                      {idx === 0 ? 'fastest' : `${(1 / ratio).toFixed(2)}× slower`}
+                    </span>
+                  </div>
+                </td>
+                {earlier.length > 0 && (
+                  <td className="py-1 text-right tabular-nums">
+                    {change === null ? (
+                      <span className={muted}>—</span>
+                    ) : (
+                      <span
+                        className={Math.abs(change) <= result.rme ? muted : change > 0 ? faster : slower}
+                        title={previous ? `${formatOps(previous.opsPerSec)} ops/sec before` : undefined}
+                      >
+                        {change > 0 ? '+' : ''}
+                        {change.toFixed(1)}%
+                      </span>
+                    )}
+                  </td>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {failed.map((result) => (
+        <div key={result.benchId} className={slower}>
+          {result.name}: {result.error}
+        </div>
+      ))}
+
+      {earlier.length > 0 && (
+        <div>
+          <div className={['mb-1', muted].join(' ')}>Previous runs</div>
+          <ul className="space-y-1">
+            {earlier.map((run) => (
+              <li key={run.id} className={muted}>
+                <span className="mr-2">[{formatTime(run.ts)}]</span>
+                {measured(run)
+                  .map((r) => `${r.name}: ${formatOps(r.opsPerSec)} ops/sec`)
+                  .join(' · ') || 'no results'}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
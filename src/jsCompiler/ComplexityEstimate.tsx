@@ -0,0 +1,83 @@
+import type { ReactNode } from 'react';
+import type { ComplexityEntry } from './complexityAnalysis';
+
+type ComplexityEstimateProps = {
+  entry: ComplexityEntry;
+  isLight: boolean;
+  /** Moves the editor cursor to a snippet line. */
+  onRevealLine: (line: number) => void;
+  /** Measurements of the same function, rendered under the estimate. */
+  children?: ReactNode;
+};
+
+function badgeClass(complexity: string, isLight: boolean): string {
+  if (complexity === 'O(1)' || complexity === 'O(log n)' || complexity === 'O(√n)') {
+    return isLight ? 'bg-[#dcfce7] text-[#166534]' : 'bg-[#14532d] text-[#bbf7d0]';
+  }
+  if (complexity === 'O(n)' || complexity === 'O(n log n)') {
+    return isLight ? 'bg-[#dbeafe] text-[#1d4ed8]' : 'bg-[#1e3a8a] text-[#bfdbfe]';
+  }
+  if (complexity === 'O(n^2)' || complexity === 'O(n^2 log n)') {
+    return isLight ? 'bg-[#fef3c7] text-[#92400e]' : 'bg-[#78350f] text-[#fde68a]';
+  }
+  return isLight ? 'bg-[#fee2e2] text-[#991b1b]' : 'bg-[#7f1d1d] text-[#fecaca]';
+}
+
+function formatLines(startLine: number, endLine: number): string {
+  return startLine === endLine ? `line ${startLine}` : `lines ${startLine}–${endLine}`;
+}
+
+export function ComplexityEstimate({ entry, isLight, onRevealLine, children }: ComplexityEstimateProps) {
+  const muted = isLight ? 'text-black/50' : 'text-[#8695b7]';
+  const link = [
+    'underline underline-offset-2 focus:outline-none focus:ring-1 rounded-sm',
+    isLight ? 'text-[#1d4ed8] focus:ring-black/15' : 'text-[#79c0ff] focus:ring-white/15',
+  ].join(' ');
+
+  return (
+    <li
+      className={[
+        'rounded-md border p-2',
+        isLight ? 'border-black/10 bg-black/[0.015]' : 'border-white/10 bg-black/10',
+      ].join(' ')}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="min-w-0 truncate">
+          <span className={['font-mono font-semibold', isLight ? 'text-[#0b1220]' : 'text-[#d7dce2]'].join(' ')}>
+            {entry.name}
+          </span>{' '}
+          <button type="button" onClick={() => onRevealLine(entry.startLine)} className={link} title="Go to function">
+            {formatLines(entry.startLine, entry.endLine)}
+          </button>
+        </span>
+        <span className={`shrink-0 px-2 py-0.5 rounded text-[11px] font-medium ${badgeClass(entry.complexity, isLight)}`}>
+          {entry.complexity}
+        </span>
+      </div>
+      <div className={['mt-1', isLight ? 'text-black/65' : 'text-[#a2aabc]'].join(' ')}>{entry.reason}</div>
+      {entry.notes.map((note) => (
+        <div key={note} className={['mt-1', isLight ? 'text-[#92400e]' : 'text-[#fde68a]'].join(' ')}>
+          {note}
+        </div>
+      ))}
+      {entry.evidence.length > 0 && (
+        <details className="mt-1">
+          <summary className={['cursor-pointer select-none', muted].join(' ')}>
+            Evidence ({entry.evidence.length})
+          </summary>
+          <ul className={['mt-1 pl-4 space-y-0.5', muted].join(' ')}>
+            {entry.evidence.map((e, idx) => (
+              <li key={idx}>
+                <button type="button" onClick={() => onRevealLine(e.startLine)} className={link} title="Go to line">
+                  {formatLines(e.startLine, e.endLine)}
+                </button>
+                : {e.description}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+      {children}
+    </li>
+  );
+}
@@ -0,0 +1,83 @@
+import { fitComplexity, type ComplexityProbe } from './complexityFit';
+
+type ComplexityMeasurementProps = {
+  probe: ComplexityProbe;
+  /** The static estimate for the same function, if there is one. */
+  estimate?: string;
+  isLight: boolean;
+};
+
+const CHART_WIDTH = 240;
+const CHART_HEIGHT = 80;
+const CHART_PADDING = 4;
+
+function formatMs(ms: number): string {
+  if (ms >= 1) return `${ms.toFixed(ms >= 100 ? 0 : 2)} ms`;
+  if (ms >= 0.001) return `${(ms * 1000).toFixed(1)} µs`;
+  return `${Math.round(ms * 1e6)} ns`;
+}
+
+export function ComplexityMeasurement({ probe, estimate, isLight }: ComplexityMeasurementProps) {
+  const muted = isLight ? 'text-black/55' : 'text-[#a2aabc]';
+
+  if (probe.error) {
+    return <div className={isLight ? 'text-[#b91c1c]' : 'text-[#ff7b72]'}>Measurement failed: {probe.error}</div>;
+  }
+
+  const fit = fitComplexity(probe.points);
+  if (!fit) {
+    return (
+      <div className={muted}>
+        Only {probe.points.length} input size(s) measured; pass smaller <code>sizes</code> or a longer <code>time</code>.
+      </div>
+    );
+  }
+
+  // n on a log scale (sizes usually double), time on a linear one.
+  const ns = probe.points.map((p) => p.n);
+  const minX = Math.log2(Math.max(1, Math.min(...ns)));
+  const maxX = Math.log2(Math.max(2, ...ns));
+  const maxY = Math.max(...probe.points.map((p) => p.ms), 1e-9);
+  const x = (n: number) =>
+    CHART_PADDING + ((Math.log2(Math.max(1, n)) - minX) / Math.max(maxX - minX, 1e-9)) * (CHART_WIDTH - 2 * CHART_PADDING);
+  const y = (ms: number) =>
+    CHART_HEIGHT - CHART_PADDING - (Math.min(ms, maxY * 1.2) / (maxY * 1.2)) * (CHART_HEIGHT - 2 * CHART_PADDING);
+  const curve = Array.from({ length: 41 }, (_, i) => 2 ** (minX + ((maxX - minX) * i) / 40))
+    .map((n, i) => `${i === 0 ? 'M' : 'L'}${x(n).toFixed(1)},${y(fit.best.predict(n)).toFixed(1)}`)
+    .join(' ');
+  const disagrees = estimate !== undefined && estimate !== fit.best.complexity;
+  const last = probe.points[probe.points.length - 1];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2">
+        <span className={muted}>
+          Measured: <span className="font-medium">{fit.best.complexity}</span>
+        </span>
+        <span className={muted}>
+          {formatMs(last.ms)} at n = {last.n.toLocaleString('en-US')}
+        </span>
+      </div>
+      <svg
+        width={CHART_WIDTH}
+        height={CHART_HEIGHT}
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className={['mt-1 max-w-full rounded border', isLight ? 'border-black/10' : 'border-white/10'].join(' ')}
+        role="img"
+        aria-label={`Time per call against input size, fitted as ${fit.best.complexity}`}
+      >
+        <path d={curve} fill="none" stroke={isLight ? '#2563eb' : '#79c0ff'} strokeWidth="1.5" />
+        {probe.points.map((p) => (
+          <circle key={p.n} cx={x(p.n)} cy={y(p.ms)} r="2.5" fill={isLight ? '#0b1220' : '#d7dce2'}>
+            <title>{`n = ${p.n}: ${formatMs(p.ms)}`}</title>
+          </circle>
+        ))}
+      </svg>
+      {disagrees && (
+        <div className={['mt-1', isLight ? 'text-[#92400e]' : 'text-[#fde68a]'].join(' ')}>
+          The measurement disagrees with the static estimate ({estimate}).
+        </div>
+      )}
+    </div>
+  );
+}
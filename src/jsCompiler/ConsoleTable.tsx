@@ -0,0 +1,60 @@
+import { RemoteValueView } from './ObjectInspector';
+import type { RemoteInspectResult, RemoteValue } from './remoteValue';
+
+export type ConsoleTableRow = {
+  index: string;
+  cells: Record<string, RemoteValue>;
+  /** Set for primitive rows, shown in the trailing "Value" column. */
+  value?: RemoteValue;
+};
+
+type ConsoleTableProps = {
+  columns: string[];
+  hasValueColumn: boolean;
+  rows: ConsoleTableRow[];
+  truncated: number;
+  isLight: boolean;
+  onInspect: (handle: number) => Promise<RemoteInspectResult>;
+};
+
+export function ConsoleTable({ columns, hasValueColumn, rows, truncated, isLight, onInspect }: ConsoleTableProps) {
+  const headers = ['(index)', ...columns, ...(hasValueColumn ? ['Value'] : [])];
+  const border = isLight ? 'border-black/10' : 'border-white/10';
+  const cellClass = ['px-2 py-0.5 border text-left align-top', border].join(' ');
+
+  return (
+    <span className="block my-1 overflow-x-auto">
+      <table className={['border-collapse border', border].join(' ')}>
+        <thead>
+          <tr className={isLight ? 'bg-black/[0.04]' : 'bg-white/[0.05]'}>
+            {headers.map((h) => (
+              <th key={h} className={[cellClass, 'font-medium'].join(' ')}>
+                {h}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.index}>
+              <td className={cellClass}>{row.index}</td>
+              {columns.map((col) => (
+                <td key={col} className={cellClass}>
+                  {row.cells[col] ? <RemoteValueView value={row.cells[col]} isLight={isLight} onInspect={onInspect} /> : null}
+                </td>
+              ))}
+              {hasValueColumn && (
+                <td className={cellClass}>
+                  {row.value ? <RemoteValueView value={row.value} isLight={isLight} onInspect={onInspect} /> : null}
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {truncated > 0 && (
+        <span className={['block', isLight ? 'text-black/45' : 'text-[#8695b7]'].join(' ')}>… {truncated} more rows</span>
+      )}
+    </span>
+  );
+}
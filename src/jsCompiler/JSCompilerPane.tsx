@@ -1,34 +1,219 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
-import { MonacoPane } from '../editor/MonacoPane';
-import { runnerSrcDoc } from './runnerSrcDoc';
+import type { Monaco, OnMount } from '@monaco-editor/react';
+import type { editor } from 'monaco-editor';
+import { MonacoDiffPane, MonacoPane } from '../editor/MonacoPane';
+import { HEARTBEAT_INTERVAL_MS } from './runnerSrcDoc';
+import { createRunner, parseRunnerKind, RUNNER_KINDS, type Runner, type RunnerKind } from './runner';
+import { instrumentLoops } from './loopGuard';
+import { captureCompletionValue } from './completionValue';
+import { addReplScopeHook, collectTopLevelNames, prepareReplInput, REPL_SCOPE_HOOK_LINES } from './repl';
+import { buildModuleGraph, compileModuleGraph, hasModuleSyntax, type ModuleGraph } from './moduleGraph';
+import { RemoteValueView } from './ObjectInspector';
+import { ConsoleTable, type ConsoleTableRow } from './ConsoleTable';
+import { StdinInput } from './StdinInput';
+import { ReplInput } from './ReplInput';
+import { StackFrames } from './StackFrames';
+import { TestResults } from './TestResults';
+import { countTestResults, type TestRun, type TestStatus } from './testRun';
+import { BenchmarkResults } from './BenchmarkResults';
+import { MAX_BENCH_RUNS, type BenchResult, type BenchRun } from './benchRun';
+import { ComplexityMeasurement } from './ComplexityMeasurement';
+import { ComplexityEstimate } from './ComplexityEstimate';
+import type { ComplexityPoint, ComplexityProbe } from './complexityFit';
+import { analyzeComplexity, type ComplexityEntry } from './complexityAnalysis';
+import { decodeShareFragment, encodeShareFragment, SHARE_URL_SAFE_LENGTH } from './share';
+import { SnippetLibrary } from './SnippetLibrary';
+import { useSnippetLibrary } from './useSnippetLibrary';
+import { ProjectSidebar } from './ProjectSidebar';
+import { ProjectEditorHeader } from './ProjectEditorHeader';
+import { useProjectMode } from './useProjectMode';
+import type { Snippet } from './snippetStore';
+import {
+  FUNCTION_WRAPPER_LINE_OFFSET,
+  mapStackTrace,
+  scriptSourceUrl,
+  type SourceLocation,
+  type StackFrame,
+  type StackMappingContext,
+} from './stackTrace';
+import {
+  formatRemoteArgs,
+  formatRemoteValue,
+  isRemoteProperty,
+  isRemoteValue,
+  type RemoteInspectResult,
+  type RemoteProperty,
+  type RemoteValue,
+} from './remoteValue';
+import { useWorkspace } from '../editor/useWorkspace';
+import { StorageErrorDialog } from '../editor/StorageStatus';
+import { isFile, listFiles, type WorkspaceState } from '../editor/workspaceTypes';
+import {
+  SNIPPET_LANGUAGES,
+  disposeOtherSnippetModels,
+  languageFromPath,
+  parseSnippetLanguage,
+  snippetFileName,
+  snippetPath,
+  transpileFile,
+  transpileSnippet,
+  type SnippetLanguage,
+} from './transpile';
 import MoonIcon from '@/components/ui/moon-icon';
 import BrightnessDownIcon from '@/components/ui/brightness-down-icon';
 import CommandIcon from '@/components/svg/command-icon';
 
 type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
 
+// Which console API produced a line; `level` still decides its severity/color.
+type ConsoleMethod = ConsoleLevel | 'dir' | 'trace' | 'assert' | 'count' | 'time';
+
+const CONSOLE_METHODS: ConsoleMethod[] = ['log', 'info', 'warn', 'error', 'debug', 'dir', 'trace', 'assert', 'count', 'time'];
+
 type RunnerToParentMessage =
   | { type: 'READY' }
-  | { type: 'CONSOLE'; level: ConsoleLevel; args: unknown[]; runId: string }
+  | {
+      type: 'CONSOLE';
+      level: ConsoleLevel;
+      method: ConsoleMethod;
+      args: RemoteValue[];
+      groups: number[];
+      trace?: string;
+      runId: string;
+    }
+  | { type: 'CONSOLE_GROUP'; groupId: number; collapsed: boolean; args: RemoteValue[]; groups: number[]; runId: string }
+  | {
+      type: 'CONSOLE_TABLE';
+      columns: string[];
+      hasValueColumn: boolean;
+      rows: ConsoleTableRow[];
+      truncated: number;
+      groups: number[];
+      runId: string;
+    }
   | { type: 'RUNTIME_ERROR'; message: string; stack?: string; runId: string }
-  | { type: 'UNHANDLED_REJECTION'; message: string; stack?: string; runId: string };
+  | { type: 'UNHANDLED_REJECTION'; message: string; stack?: string; runId: string }
+  | { type: 'HEARTBEAT'; runId: string }
+  | { type: 'RUN_END'; runId: string }
+  | { type: 'TIMEOUT'; timeoutMs: number; runId: string }
+  | { type: 'RESULT'; value: RemoteValue; runId: string }
+  | { type: 'REPL_RESULT'; value: RemoteValue; runId: string }
+  | { type: 'STDIN_REQUEST'; requestId: string; prompt: string; defaultValue: string; groups: number[]; runId: string }
+  | { type: 'TEST_RUN'; total: number; runId: string }
+  | {
+      type: 'TEST_RESULT';
+      testId: string;
+      suite: string[];
+      name: string;
+      status: TestStatus;
+      durationMs: number;
+      error?: string;
+      stack?: string;
+      diff?: { expected: string; actual: string };
+      runId: string;
+    }
+  | { type: 'TEST_RUN_END'; durationMs: number; runId: string }
+  | { type: 'BENCH_RUN'; total: number; runId: string }
+  | { type: 'BENCH_RESULT'; result: BenchResult; runId: string }
+  | { type: 'BENCH_RUN_END'; runId: string }
+  | { type: 'COMPLEXITY_RESULT'; probe: ComplexityProbe; runId: string }
+  | {
+      type: 'INSPECT_RESULT';
+      requestId: string;
+      found: boolean;
+      properties: RemoteProperty[];
+      truncated: number;
+      runId: string;
+    };
+
+type RunRequest =
+  | { type: 'RUN'; code: string; runId: string; timeoutMs: number }
+  | {
+      type: 'RUN_MODULES';
+      modules: Array<{ key: string; code: string }>;
+      entry: string;
+      runId: string;
+      timeoutMs: number;
+    };
+
+type ParentToRunnerMessage =
+  | RunRequest
+  | { type: 'INSPECT'; handle: number; requestId: string }
+  | { type: 'STDIN_RESPONSE'; requestId: string; value: string | null }
+  | {
+      type: 'REPL_EVAL';
+      code: string;
+      declaredNames: string[];
+      awaitResult: boolean;
+      runId: string;
+      timeoutMs: number;
+    }
+  | { type: 'RESET' };
 
-type ParentToRunnerMessage = { type: 'RUN'; code: string; runId: string } | { type: 'RESET' };
+type StdinRequest = Omit<Extract<RunnerToParentMessage, { type: 'STDIN_REQUEST' }>, 'type'>;
 
 type OutputLine =
-  | { kind: 'console'; level: ConsoleLevel; text: string; ts: number; runId: string }
-  | { kind: 'error'; text: string; ts: number; runId: string };
-
-type ComplexityEntry = {
-  name: string;
-  complexity: string;
-  reason: string;
-};
+  | {
+      kind: 'console';
+      level: ConsoleLevel;
+      method: ConsoleMethod;
+      args: RemoteValue[];
+      text: string;
+      trace?: StackFrame[];
+      /** Ids of the enclosing console groups, outermost first. */
+      groups: number[];
+      ts: number;
+      runId: string;
+    }
+  | { kind: 'result'; value: RemoteValue; text: string; ts: number; runId: string }
+  | { kind: 'repl'; text: string; ts: number; runId: string }
+  | { kind: 'stdin'; prompt: string; value: string | null; groups: number[]; ts: number; runId: string }
+  | { kind: 'group'; groupId: number; args: RemoteValue[]; text: string; groups: number[]; ts: number; runId: string }
+  | {
+      kind: 'table';
+      columns: string[];
+      hasValueColumn: boolean;
+      rows: ConsoleTableRow[];
+      truncated: number;
+      text: string;
+      groups: number[];
+      ts: number;
+      runId: string;
+    }
+  | { kind: 'error'; text: string; frames?: StackFrame[]; ts: number; runId: string };
 
 type ResolvedTheme = 'dark' | 'light';
 
+type OutputTab = 'output' | 'tests' | 'benchmarks';
+
+// Snippet mode edits one scratch file; project mode edits and runs the workspace.
+type EditorMode = 'snippet' | 'project';
+
 const THEME_STORAGE_KEY = 'jscompiler_theme';
 const LEGACY_THEME_MODE_STORAGE_KEY = 'jscompiler_theme_mode';
+const TIMEOUT_STORAGE_KEY = 'jscompiler_timeout_ms';
+const LANGUAGE_STORAGE_KEY = 'jscompiler_language';
+const REPL_HISTORY_STORAGE_KEY = 'jscompiler_repl_history';
+const RUNNER_STORAGE_KEY = 'jscompiler_runner';
+const LIBRARY_OPEN_STORAGE_KEY = 'jscompiler_library_open';
+const MODE_STORAGE_KEY = 'jscompiler_mode';
+const MAX_REPL_HISTORY = 100;
+
+const TIMEOUT_OPTIONS_MS = [1000, 3000, 5000, 10000, 30000];
+const DEFAULT_TIMEOUT_MS = 5000;
+
+// Pause in typing before the open snippet is saved to the library.
+const SNIPPET_AUTOSAVE_DELAY_MS = 300;
+const NEW_SNIPPET_CODE = `// New snippet\n\n`;
+
+// How long the Share button's "Link copied" (or warning) stays visible.
+const SHARE_STATUS_MS = 6000;
+
+// Pause in typing before the static complexity estimates are refreshed.
+const COMPLEXITY_ANALYSIS_DELAY_MS = 400;
+
+// Owner id for the runtime-error markers this pane puts on editor models.
+const RUNTIME_MARKER_OWNER = 'jscompiler-runtime';
 
 function getSystemTheme(): ResolvedTheme {
   if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') return 'dark';
@@ -44,6 +229,123 @@ function parseUserTheme(saved: string | null): ResolvedTheme | null {
   return null;
 }
 
+function parseEditorMode(saved: string | null): EditorMode {
+  return saved === 'project' ? 'project' : 'snippet';
+}
+
+function parseTimeoutMs(saved: string | null): number {
+  const n = Number(saved);
+  return TIMEOUT_OPTIONS_MS.includes(n) ? n : DEFAULT_TIMEOUT_MS;
+}
+
+function parseReplHistory(saved: string | null): string[] {
+  try {
+    const parsed: unknown = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed.filter((h): h is string => typeof h === 'string').slice(-MAX_REPL_HISTORY) : [];
+  } catch {
+    return [];
+  }
+}
+
+function formatTimeoutLabel(ms: number): string {
+  return ms % 1000 === 0 ? `${ms / 1000}s` : `${ms}ms`;
+}
+
+type PreparedRun =
+  | {
+      ok: true;
+      request: RunRequest;
+      stackContext: StackMappingContext;
+      /** Top-level names the snippet declares, offered as REPL completions. */
+      globals: string[];
+    }
+  | { ok: false; errors: string[] };
+
+async function prepareRun({
+  code,
+  language,
+  workspace,
+  runId,
+  timeoutMs,
+}: {
+  code: string;
+  language: SnippetLanguage;
+  workspace: WorkspaceState;
+  runId: string;
+  timeoutMs: number;
+}): Promise<PreparedRun> {
+  const entryPath = snippetFileName(language);
+
+  if (!hasModuleSyntax(code)) {
+    const compiled = await transpileSnippet(language, code);
+    if (!compiled.ok) return compiled;
+    return {
+      ok: true,
+      request: {
+        type: 'RUN',
+        // Name the async function body so its stack frames are recognizable.
+        code: `${addReplScopeHook(instrumentLoops(captureCompletionValue(compiled.code, 'script')))}\n//# sourceURL=${scriptSourceUrl(entryPath)}`,
+        runId,
+        timeoutMs,
+      },
+      stackContext: {
+        entryPath,
+        lineOffsets: { [entryPath]: FUNCTION_WRAPPER_LINE_OFFSET + REPL_SCOPE_HOOK_LINES },
+        sourceMaps: { [entryPath]: compiled.sourceMap },
+      },
+      globals: collectTopLevelNames(compiled.code, 'script'),
+    };
+  }
+
+  // Module snippets live at the workspace root so `./src/...` imports resolve against it.
+  return prepareModuleRun(buildModuleGraph(workspace, { path: entryPath, source: code }), runId, timeoutMs);
+}
+
+/** Runs a workspace file as the entry module; its imports resolve against the rest of the workspace. */
+async function prepareProjectRun({
+  workspace,
+  entryPath,
+  runId,
+  timeoutMs,
+}: {
+  workspace: WorkspaceState;
+  entryPath: string | null;
+  runId: string;
+  timeoutMs: number;
+}): Promise<PreparedRun> {
+  const file = entryPath ? listFiles(workspace).find((f) => f.path === entryPath) : undefined;
+  const node = file ? workspace.nodes[file.id] : undefined;
+  if (!file || !node || !isFile(node)) {
+    return { ok: false, errors: ['No entry file: add a .js, .ts, .jsx or .tsx file to the workspace and pick it as the entry.'] };
+  }
+  return prepareModuleRun(buildModuleGraph(workspace, { path: file.path, source: node.content }), runId, timeoutMs);
+}
+
+async function prepareModuleRun(graph: ModuleGraph, runId: string, timeoutMs: number): Promise<PreparedRun> {
+  const entryPath = graph.entry;
+  const compiled = await compileModuleGraph(graph);
+  if (!compiled.ok) return compiled;
+  return {
+    ok: true,
+    request: {
+      type: 'RUN_MODULES',
+      modules: compiled.modules.map((m) => ({
+        key: m.key,
+        code: m.key === compiled.entryKey ? addReplScopeHook(captureCompletionValue(m.code, 'module')) : m.code,
+      })),
+      entry: compiled.entryKey,
+      runId,
+      timeoutMs,
+    },
+    stackContext: {
+      entryPath,
+      lineOffsets: { [entryPath]: REPL_SCOPE_HOOK_LINES },
+      sourceMaps: Object.fromEntries(compiled.modules.map((m) => [m.path, m.sourceMap])),
+    },
+    globals: collectTopLevelNames(compiled.modules.find((m) => m.key === compiled.entryKey)?.code ?? '', 'module'),
+  };
+}
+
 function makeRunId(): string {
   if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
   return `run_${Date.now().toString(36)}_${Math.random().toString(36).slice(2)}`;
@@ -57,31 +359,24 @@ function formatTime(ts: number): string {
   return `${hh}:${mm}:${ss}`;
 }
 
-function formatArgs(args: unknown[]): string {
-  return args
-    .map((a) => {
-      if (typeof a === 'string') return a;
-      if (typeof a === 'number' || typeof a === 'boolean' || typeof a === 'bigint') return String(a);
-      if (a === null) return 'null';
-      if (a === undefined) return 'undefined';
-      if (a instanceof Error) return a.stack || a.message;
-      try {
-        return JSON.stringify(a);
-      } catch {
-        try {
-          return String(a);
-        } catch {
-          return '[Unserializable]';
-        }
-      }
-    })
-    .join(' ');
-}
-
 function isRecord(v: unknown): v is Record<string, unknown> {
   return !!v && typeof v === 'object';
 }
 
+function isGroupPath(v: unknown): v is number[] {
+  return Array.isArray(v) && v.every((id) => typeof id === 'number');
+}
+
+function isComplexityPoint(v: unknown): v is ComplexityPoint {
+  return isRecord(v) && typeof v.n === 'number' && typeof v.ms === 'number';
+}
+
+function isConsoleTableRow(v: unknown): v is ConsoleTableRow {
+  if (!isRecord(v) || typeof v.index !== 'string' || !isRecord(v.cells)) return false;
+  if (v.value !== undefined && !isRemoteValue(v.value)) return false;
+  return Object.values(v.cells).every(isRemoteValue);
+}
+
 function parseRunnerMessage(v: unknown): RunnerToParentMessage | null {
   if (!isRecord(v)) return null;
   const t = v.type;
@@ -89,18 +384,57 @@ function parseRunnerMessage(v: unknown): RunnerToParentMessage | null {
 
   if (t === 'CONSOLE') {
     const level = v.level;
+    const method = v.method ?? level;
     const args = v.args;
+    const groups = v.groups ?? [];
+    const trace = v.trace;
     const runId = v.runId;
     if (
       (level === 'log' || level === 'info' || level === 'warn' || level === 'error' || level === 'debug') &&
+      CONSOLE_METHODS.includes(method as ConsoleMethod) &&
       Array.isArray(args) &&
+      args.every(isRemoteValue) &&
+      isGroupPath(groups) &&
+      (trace === undefined || typeof trace === 'string') &&
       typeof runId === 'string'
     ) {
-      return { type: 'CONSOLE', level, args, runId };
+      return { type: 'CONSOLE', level, method: method as ConsoleMethod, args, groups, trace, runId };
     }
     return null;
   }
 
+  if (t === 'CONSOLE_GROUP') {
+    const { groupId, collapsed, args, groups, runId } = v;
+    if (
+      typeof groupId !== 'number' ||
+      typeof collapsed !== 'boolean' ||
+      !Array.isArray(args) ||
+      !args.every(isRemoteValue) ||
+      !isGroupPath(groups) ||
+      typeof runId !== 'string'
+    ) {
+      return null;
+    }
+    return { type: 'CONSOLE_GROUP', groupId, collapsed, args, groups, runId };
+  }
+
+  if (t === 'CONSOLE_TABLE') {
+    const { columns, hasValueColumn, rows, truncated, groups, runId } = v;
+    if (
+      !Array.isArray(columns) ||
+      !columns.every((c) => typeof c === 'string') ||
+      typeof hasValueColumn !== 'boolean' ||
+      !Array.isArray(rows) ||
+      !rows.every(isConsoleTableRow) ||
+      typeof truncated !== 'number' ||
+      !isGroupPath(groups) ||
+      typeof runId !== 'string'
+    ) {
+      return null;
+    }
+    return { type: 'CONSOLE_TABLE', columns, hasValueColumn, rows, truncated, groups, runId };
+  }
+
   if (t === 'RUNTIME_ERROR' || t === 'UNHANDLED_REJECTION') {
     const message = v.message;
     const stack = v.stack;
@@ -112,352 +446,167 @@ function parseRunnerMessage(v: unknown): RunnerToParentMessage | null {
       : { type: 'UNHANDLED_REJECTION', message, stack, runId };
   }
 
-  return null;
-}
-
-function sanitizeRuntimeErrorText(text: string): string {
-  return text
-    .replace(/\s*\(about:srcdoc:\d+:\d+\)/g, '')
-    .replace(/\s*at about:srcdoc:\d+:\d+/g, '')
-    .trim();
-}
-
-function findMatchingBrace(code: string, openBraceIndex: number): number {
-  if (openBraceIndex < 0 || code[openBraceIndex] !== '{') return -1;
-  let depth = 0;
-  let inSingle = false;
-  let inDouble = false;
-  let inTemplate = false;
-  let inLineComment = false;
-  let inBlockComment = false;
-  let escaped = false;
-
-  for (let i = openBraceIndex; i < code.length; i += 1) {
-    const ch = code[i];
-    const next = code[i + 1];
-
-    if (inLineComment) {
-      if (ch === '\n') inLineComment = false;
-      continue;
-    }
-    if (inBlockComment) {
-      if (ch === '*' && next === '/') {
-        inBlockComment = false;
-        i += 1;
-      }
-      continue;
-    }
-    if (inSingle) {
-      if (escaped) {
-        escaped = false;
-        continue;
-      }
-      if (ch === '\\') {
-        escaped = true;
-        continue;
-      }
-      if (ch === "'") inSingle = false;
-      continue;
-    }
-    if (inDouble) {
-      if (escaped) {
-        escaped = false;
-        continue;
-      }
-      if (ch === '\\') {
-        escaped = true;
-        continue;
-      }
-      if (ch === '"') inDouble = false;
-      continue;
-    }
-    if (inTemplate) {
-      if (escaped) {
-        escaped = false;
-        continue;
-      }
-      if (ch === '\\') {
-        escaped = true;
-        continue;
-      }
-      if (ch === '`') inTemplate = false;
-      continue;
-    }
-
-    if (ch === '/' && next === '/') {
-      inLineComment = true;
-      i += 1;
-      continue;
-    }
-    if (ch === '/' && next === '*') {
-      inBlockComment = true;
-      i += 1;
-      continue;
-    }
-    if (ch === "'") {
-      inSingle = true;
-      continue;
-    }
-    if (ch === '"') {
-      inDouble = true;
-      continue;
-    }
-    if (ch === '`') {
-      inTemplate = true;
-      continue;
-    }
+  if (t === 'HEARTBEAT') {
+    const runId = v.runId;
+    if (typeof runId !== 'string') return null;
+    return { type: 'HEARTBEAT', runId };
+  }
 
-    if (ch === '{') depth += 1;
-    if (ch === '}') {
-      depth -= 1;
-      if (depth === 0) return i;
-    }
+  if (t === 'RUN_END') {
+    const runId = v.runId;
+    if (typeof runId !== 'string') return null;
+    return { type: 'RUN_END', runId };
   }
-  return -1;
-}
 
-function estimateMaxImperativeLoopDepth(body: string): number {
-  let inSingle = false;
-  let inDouble = false;
-  let inTemplate = false;
-  let inLineComment = false;
-  let inBlockComment = false;
-  let escaped = false;
-
-  let loopDepth = 0;
-  let maxLoopDepth = 0;
-  let pendingLoopBlock = false;
-  let pendingLoopStatement = false;
-  let loopHeaderDepth = 0;
-  let waitingForLoopHeader = false;
-
-  const blockStack: number[] = [];
-
-  for (let i = 0; i < body.length; i += 1) {
-    const ch = body[i];
-    const next = body[i + 1];
-
-    if (inLineComment) {
-      if (ch === '\n') inLineComment = false;
-      continue;
-    }
-    if (inBlockComment) {
-      if (ch === '*' && next === '/') {
-        inBlockComment = false;
-        i += 1;
-      }
-      continue;
-    }
-    if (inSingle) {
-      if (escaped) {
-        escaped = false;
-        continue;
-      }
-      if (ch === '\\') {
-        escaped = true;
-        continue;
-      }
-      if (ch === "'") inSingle = false;
-      continue;
-    }
-    if (inDouble) {
-      if (escaped) {
-        escaped = false;
-        continue;
-      }
-      if (ch === '\\') {
-        escaped = true;
-        continue;
-      }
-      if (ch === '"') inDouble = false;
-      continue;
-    }
-    if (inTemplate) {
-      if (escaped) {
-        escaped = false;
-        continue;
-      }
-      if (ch === '\\') {
-        escaped = true;
-        continue;
-      }
-      if (ch === '`') inTemplate = false;
-      continue;
-    }
+  if (t === 'TIMEOUT') {
+    const timeoutMs = v.timeoutMs;
+    const runId = v.runId;
+    if (typeof timeoutMs !== 'number' || typeof runId !== 'string') return null;
+    return { type: 'TIMEOUT', timeoutMs, runId };
+  }
 
-    if (ch === '/' && next === '/') {
-      inLineComment = true;
-      i += 1;
-      continue;
-    }
-    if (ch === '/' && next === '*') {
-      inBlockComment = true;
-      i += 1;
-      continue;
-    }
-    if (ch === "'") {
-      inSingle = true;
-      continue;
-    }
-    if (ch === '"') {
-      inDouble = true;
-      continue;
-    }
-    if (ch === '`') {
-      inTemplate = true;
-      continue;
-    }
+  if (t === 'RESULT' || t === 'REPL_RESULT') {
+    const { value, runId } = v;
+    if (!isRemoteValue(value) || typeof runId !== 'string') return null;
+    return { type: t, value, runId };
+  }
 
+  if (t === 'STDIN_REQUEST') {
+    const { requestId, prompt, defaultValue, groups, runId } = v;
     if (
-      (body.startsWith('for', i) || body.startsWith('while', i) || body.startsWith('do', i)) &&
-      (i === 0 || !/[A-Za-z0-9_$]/.test(body[i - 1] ?? '')) &&
-      !/[A-Za-z0-9_$]/.test(body[i + (body.startsWith('while', i) ? 5 : body.startsWith('for', i) ? 3 : 2)] ?? '')
+      typeof requestId !== 'string' ||
+      typeof prompt !== 'string' ||
+      typeof defaultValue !== 'string' ||
+      !isGroupPath(groups) ||
+      typeof runId !== 'string'
     ) {
-      loopDepth += 1;
-      maxLoopDepth = Math.max(maxLoopDepth, loopDepth);
-      pendingLoopBlock = true;
-      pendingLoopStatement = true;
-      waitingForLoopHeader = !body.startsWith('do', i);
-      i += body.startsWith('while', i) ? 4 : body.startsWith('for', i) ? 2 : 1;
-      continue;
-    }
-
-    if (waitingForLoopHeader && ch === '(') {
-      loopHeaderDepth = 1;
-      waitingForLoopHeader = false;
-      continue;
-    }
-    if (loopHeaderDepth > 0) {
-      if (ch === '(') loopHeaderDepth += 1;
-      if (ch === ')') loopHeaderDepth -= 1;
-      continue;
-    }
-
-    if (ch === '{') {
-      if (pendingLoopBlock) {
-        blockStack.push(1);
-        pendingLoopBlock = false;
-        pendingLoopStatement = false;
-      } else {
-        blockStack.push(0);
-      }
-      continue;
-    }
-
-    if (ch === '}') {
-      const delta = blockStack.pop() ?? 0;
-      if (delta > 0) {
-        loopDepth = Math.max(0, loopDepth - delta);
-      }
-      continue;
-    }
-
-    if (pendingLoopStatement && ch === ';') {
-      loopDepth = Math.max(0, loopDepth - 1);
-      pendingLoopStatement = false;
-      pendingLoopBlock = false;
-      continue;
+      return null;
     }
+    return { type: 'STDIN_REQUEST', requestId, prompt, defaultValue, groups, runId };
   }
 
-  return maxLoopDepth;
-}
-
-function estimateFunctionComplexity(name: string, body: string): ComplexityEntry {
-  const imperativeLoopDepth = estimateMaxImperativeLoopDepth(body);
-  const iteratorMatches = body.match(/\.(forEach|map|filter|reduce|some|every|find|flatMap)\s*\(/g) ?? [];
-  const iteratorDepth = iteratorMatches.length > 0 ? 1 : 0;
-  const maxLoopDepth = Math.max(imperativeLoopDepth, iteratorDepth);
-  const recursionMatches = body.match(new RegExp(`\\b${name}\\s*\\(`, 'g')) ?? [];
-  const recursionCalls = Math.max(0, recursionMatches.length - 1);
+  if (t === 'TEST_RUN' || t === 'TEST_RUN_END') {
+    const { total, durationMs, runId } = v;
+    if (typeof runId !== 'string') return null;
+    if (t === 'TEST_RUN') return typeof total === 'number' ? { type: t, total, runId } : null;
+    return typeof durationMs === 'number' ? { type: t, durationMs, runId } : null;
+  }
 
-  if (recursionCalls > 1) {
+  if (t === 'TEST_RESULT') {
+    const { testId, suite, name, status, durationMs, error, stack, diff, runId } = v;
+    if (
+      typeof testId !== 'string' ||
+      !Array.isArray(suite) ||
+      !suite.every((s) => typeof s === 'string') ||
+      typeof name !== 'string' ||
+      (status !== 'pass' && status !== 'fail' && status !== 'skip') ||
+      typeof durationMs !== 'number' ||
+      (error !== undefined && typeof error !== 'string') ||
+      (stack !== undefined && typeof stack !== 'string') ||
+      (diff !== undefined && (!isRecord(diff) || typeof diff.expected !== 'string' || typeof diff.actual !== 'string')) ||
+      typeof runId !== 'string'
+    ) {
+      return null;
+    }
     return {
+      type: 'TEST_RESULT',
+      testId,
+      suite,
       name,
-      complexity: 'O(2^n)',
-      reason: 'Multiple self-calls suggest branching recursion.',
+      status,
+      durationMs,
+      error,
+      stack,
+      diff: diff && { expected: String(diff.expected), actual: String(diff.actual) },
+      runId,
     };
   }
 
-  if (maxLoopDepth >= 3) {
-    return {
-      name,
-      complexity: 'O(n^3)',
-      reason: 'Three or more nested loop levels detected.',
-    };
+  if (t === 'BENCH_RUN' || t === 'BENCH_RUN_END') {
+    const { total, runId } = v;
+    if (typeof runId !== 'string') return null;
+    if (t === 'BENCH_RUN_END') return { type: t, runId };
+    return typeof total === 'number' ? { type: t, total, runId } : null;
   }
 
-  if (recursionCalls === 1 && maxLoopDepth >= 1) {
-    return {
-      name,
-      complexity: 'O(n^2)',
-      reason: 'Single recursion combined with looping work detected.',
-    };
+  if (t === 'BENCH_RESULT') {
+    const { benchId, name, error, opsPerSec, meanMs, rme, samples, iterations, runId } = v;
+    if (typeof benchId !== 'string' || typeof name !== 'string' || typeof runId !== 'string') return null;
+    if (typeof error === 'string') return { type: t, result: { benchId, name, ok: false, error }, runId };
+    if (
+      typeof opsPerSec !== 'number' ||
+      typeof meanMs !== 'number' ||
+      typeof rme !== 'number' ||
+      typeof samples !== 'number' ||
+      typeof iterations !== 'number'
+    ) {
+      return null;
+    }
+    return { type: t, result: { benchId, name, ok: true, opsPerSec, meanMs, rme, samples, iterations }, runId };
   }
 
-  if (maxLoopDepth === 2) {
-    return {
-      name,
-      complexity: 'O(n^2)',
-      reason: 'Two nested loop levels detected.',
-    };
+  if (t === 'COMPLEXITY_RESULT') {
+    const { probeId, name, points, error, runId } = v;
+    if (
+      typeof probeId !== 'string' ||
+      typeof name !== 'string' ||
+      !Array.isArray(points) ||
+      !points.every(isComplexityPoint) ||
+      (error !== undefined && typeof error !== 'string') ||
+      typeof runId !== 'string'
+    ) {
+      return null;
+    }
+    return { type: t, probe: { probeId, name, points, error }, runId };
   }
 
-  if (maxLoopDepth === 1 || recursionCalls === 1) {
-    return {
-      name,
-      complexity: 'O(n)',
-      reason: recursionCalls === 1 ? 'Single recursive self-call detected.' : 'Single loop-like operation detected.',
-    };
+  if (t === 'INSPECT_RESULT') {
+    const { requestId, found, properties, truncated, runId } = v;
+    if (
+      typeof requestId !== 'string' ||
+      typeof found !== 'boolean' ||
+      !Array.isArray(properties) ||
+      !properties.every(isRemoteProperty) ||
+      typeof truncated !== 'number' ||
+      typeof runId !== 'string'
+    ) {
+      return null;
+    }
+    return { type: 'INSPECT_RESULT', requestId, found, properties, truncated, runId };
   }
 
-  return {
-    name,
-    complexity: 'O(1)',
-    reason: 'No loops or recursion detected.',
-  };
+  return null;
 }
 
-function analyzeFunctionComplexity(code: string): ComplexityEntry[] {
-  const entries: ComplexityEntry[] = [];
-  const seen = new Set<string>();
-
-  const functionDeclarationRegex = /function\s+([A-Za-z_$][\w$]*)\s*\([^)]*\)\s*\{/g;
-  let match: RegExpExecArray | null;
-  while ((match = functionDeclarationRegex.exec(code)) !== null) {
-    const name = match[1];
-    const openBraceIndex = code.indexOf('{', match.index);
-    const closeBraceIndex = findMatchingBrace(code, openBraceIndex);
-    if (closeBraceIndex < 0 || seen.has(name)) continue;
-    const body = code.slice(openBraceIndex + 1, closeBraceIndex);
-    entries.push(estimateFunctionComplexity(name, body));
-    seen.add(name);
-  }
-
-  const variableArrowOrFunctionRegex =
-    /\b(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*=\s*(?:async\s*)?(?:function(?:\s+[A-Za-z_$][\w$]*)?\s*\([^)]*\)\s*\{|(?:\([^)]*\)|[A-Za-z_$][\w$]*)\s*=>\s*\{)/g;
-  while ((match = variableArrowOrFunctionRegex.exec(code)) !== null) {
-    const name = match[1];
-    if (seen.has(name)) continue;
-    const openBraceIndex = code.indexOf('{', match.index);
-    const closeBraceIndex = findMatchingBrace(code, openBraceIndex);
-    if (closeBraceIndex < 0) continue;
-    const body = code.slice(openBraceIndex + 1, closeBraceIndex);
-    entries.push(estimateFunctionComplexity(name, body));
-    seen.add(name);
-  }
+// Underlines the failing line; the marker stays until the next run clears it.
+function markRuntimeError(monaco: Monaco, location: SourceLocation, message: string) {
+  const model: editor.ITextModel | null = monaco.editor.getModel(monaco.Uri.parse(`/${location.path}`));
+  if (!model || location.line > model.getLineCount()) return;
+  const maxColumn = model.getLineMaxColumn(location.line);
+  const startColumn = Math.min(location.column, maxColumn);
+  monaco.editor.setModelMarkers(model, RUNTIME_MARKER_OWNER, [
+    {
+      severity: monaco.MarkerSeverity.Error,
+      message,
+      startLineNumber: location.line,
+      startColumn,
+      endLineNumber: location.line,
+      endColumn: Math.max(startColumn + 1, maxColumn),
+    },
+  ]);
+}
 
-  const variableArrowExpressionRegex =
-    /\b(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*=\s*(?:async\s*)?(?:\([^)]*\)|[A-Za-z_$][\w$]*)\s*=>\s*([^;\n]+)/g;
-  while ((match = variableArrowExpressionRegex.exec(code)) !== null) {
-    const name = match[1];
-    if (seen.has(name)) continue;
-    const body = match[2] ?? '';
-    entries.push(estimateFunctionComplexity(name, body));
-    seen.add(name);
-  }
+function clearRuntimeMarkers(monaco: Monaco) {
+  monaco.editor.getModels().forEach((model: editor.ITextModel) => {
+    monaco.editor.setModelMarkers(model, RUNTIME_MARKER_OWNER, []);
+  });
+}
 
-  return entries;
+function sanitizeRuntimeErrorText(text: string): string {
+  return text
+    .replace(/\s*\(about:srcdoc:\d+:\d+\)/g, '')
+    .replace(/\s*at about:srcdoc:\d+:\d+/g, '')
+    .trim();
 }
 
 function EnterArrowIcon({ className }: { className?: string }) {
@@ -507,7 +656,6 @@ function ShortcutPill({
 }
 
 export function JSCompilerPane() {
-  const isDev = import.meta.env.DEV;
   const [userTheme, setUserTheme] = useState<ResolvedTheme | null>(() => {
     // Follow system theme ONLY if user has never explicitly changed theme.
     try {
@@ -555,21 +703,110 @@ export function JSCompilerPane() {
 
   const [code, setCode] = useState(() => `// JSCompiler (browser)\n\nconsole.log('Hello from JSCompiler');\n`);
 
+  const library = useSnippetLibrary();
+  // The library snippet the editor holds; autosaved as it changes.
+  const [activeSnippetId, setActiveSnippetId] = useState<string | null>(null);
+  // The open snippet's latest code while its autosave is waiting.
+  const pendingSnippetSaveRef = useRef<{ id: string; code: string; language: SnippetLanguage } | null>(null);
+  const [libraryOpen, setLibraryOpen] = useState<boolean>(() => {
+    try {
+      return localStorage.getItem(LIBRARY_OPEN_STORAGE_KEY) === '1';
+    } catch {
+      return false;
+    }
+  });
+  const restoredSnippetRef = useRef(false);
+
+  // A snippet opened from a share link: read-only until forked.
+  const [viewingShared, setViewingShared] = useState(false);
+  const [shareStatus, setShareStatus] = useState<{ tone: 'ok' | 'warn' | 'error'; text: string } | null>(null);
+
   const [output, setOutput] = useState<OutputLine[]>([]);
-  const [iframeKey, setIframeKey] = useState(() => makeRunId());
-  const [iframeReady, setIframeReady] = useState(false);
-  const [activeRunId, setActiveRunId] = useState<string>(iframeKey);
+  // Console groups the user (or `console.groupCollapsed`) has folded, by group id.
+  const [collapsedGroups, setCollapsedGroups] = useState<Record<number, boolean>>({});
+  // Input requests from prompt()/readLine()/input() waiting for the user, oldest first.
+  const [stdinQueue, setStdinQueue] = useState<StdinRequest[]>([]);
+  // Results of the latest describe/it batch, streamed one test at a time.
+  const [testRun, setTestRun] = useState<TestRun | null>(null);
+  // Benchmark batches, newest first; kept across runs so results can be compared.
+  const [benchRuns, setBenchRuns] = useState<BenchRun[]>([]);
+  const [outputTab, setOutputTab] = useState<OutputTab>('output');
+  // Backend picked for the next run; the live runner keeps the kind it was created with.
+  const [runnerKind, setRunnerKind] = useState<RunnerKind>(() => {
+    try {
+      return parseRunnerKind(localStorage.getItem(RUNNER_STORAGE_KEY)) ?? 'iframe';
+    } catch {
+      return 'iframe';
+    }
+  });
+  // Changing the session key replaces the runner with a fresh realm.
+  const [runnerSession, setRunnerSession] = useState<{ key: string; kind: RunnerKind }>(() => ({
+    key: makeRunId(),
+    kind: runnerKind,
+  }));
+  const [runnerReady, setRunnerReady] = useState(false);
+  const [activeRunId, setActiveRunId] = useState<string>(runnerSession.key);
   const [shortcutsOpen, setShortcutsOpen] = useState(false);
   const [suggestionsEnabled, setSuggestionsEnabled] = useState(true);
   const [complexityEntries, setComplexityEntries] = useState<ComplexityEntry[]>([]);
+  // Empirical measurements from complexity() calls, shown next to the static estimates.
+  const [complexityProbes, setComplexityProbes] = useState<ComplexityProbe[]>([]);
   const [outputSplitPercent, setOutputSplitPercent] = useState(50);
   const [isDraggingSplit, setIsDraggingSplit] = useState(false);
-  const pendingRunRef = useRef<{ code: string; runId: string } | null>(null);
+  const [timeoutMs, setTimeoutMs] = useState<number>(() => {
+    try {
+      return parseTimeoutMs(localStorage.getItem(TIMEOUT_STORAGE_KEY));
+    } catch {
+      return DEFAULT_TIMEOUT_MS;
+    }
+  });
+  const [language, setLanguage] = useState<SnippetLanguage>(() => {
+    try {
+      return parseSnippetLanguage(localStorage.getItem(LANGUAGE_STORAGE_KEY)) ?? 'js';
+    } catch {
+      return 'js';
+    }
+  });
+  const [replHistory, setReplHistory] = useState<string[]>(() => {
+    try {
+      return parseReplHistory(localStorage.getItem(REPL_HISTORY_STORAGE_KEY));
+    } catch {
+      return [];
+    }
+  });
+  // Completion candidates: top-level names of the last run plus names declared in the REPL since.
+  const [replGlobals, setReplGlobals] = useState<string[]>([]);
+  const workspace = useWorkspace();
+  const [mode, setMode] = useState<EditorMode>(() => {
+    try {
+      return parseEditorMode(localStorage.getItem(MODE_STORAGE_KEY));
+    } catch {
+      return 'snippet';
+    }
+  });
+  const project = useProjectMode(workspace);
+  const { activeFile, comparison } = project;
+  // A location to reveal once the file it's in is showing in the editor.
+  const pendingRevealRef = useRef<SourceLocation | null>(null);
+  const pendingRunRef = useRef<RunRequest | null>(null);
+  // Latest requested run; transpiling is async, so older requests that finish late are dropped.
+  const requestedRunIdRef = useRef<string | null>(null);
+  // How to translate stack frames of the code currently in the runner back to editor positions.
+  const stackContextRef = useRef<StackMappingContext>({ entryPath: '', lineOffsets: {}, sourceMaps: {} });
+  const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+  // Pending object-inspector requests, resolved by INSPECT_RESULT messages.
+  const inspectRequestsRef = useRef(
+    new Map<string, { resolve: (r: RemoteInspectResult) => void; reject: (e: Error) => void; timer: number }>()
+  );
+  // Watchdog state for the run or REPL entry currently executing in the runner (null when idle).
+  const watchdogRef = useRef<{ runId: string; timeoutMs: number; lastHeartbeat: number } | null>(null);
+  // The run whose values live in the current runner realm (null for a fresh realm).
+  const realmRunIdRef = useRef<string | null>(null);
 
-  const iframeRef = useRef<HTMLIFrameElement | null>(null);
+  const runnerRef = useRef<Runner | null>(null);
   const splitContainerRef = useRef<HTMLDivElement | null>(null);
 
-  const srcDoc = useMemo(() => runnerSrcDoc(), []);
   const isMac = useMemo(() => {
     if (typeof navigator === 'undefined') return false;
     const nav = navigator as Navigator & { userAgentData?: { platform?: string } };
@@ -578,21 +815,27 @@ export function JSCompilerPane() {
   }, []);
 
   useEffect(() => {
-    function onMessage(event: MessageEvent) {
-      const frameWindow = iframeRef.current?.contentWindow ?? null;
-      if (!frameWindow || event.source !== frameWindow) return;
-      // `srcDoc` + `sandbox="allow-scripts"` results in an opaque origin ("null").
-      // If we ever switch to a same-origin runner, allow that too.
-      if (event.origin !== 'null' && event.origin !== window.location.origin) return;
-
-      const msg = parseRunnerMessage(event.data);
+    const runner = createRunner(runnerSession.kind);
+    runnerRef.current = runner;
+    realmRunIdRef.current = null;
+    return () => {
+      runner.dispose();
+      if (runnerRef.current === runner) runnerRef.current = null;
+    };
+  }, [runnerSession]);
+
+  useEffect(() => {
+    function onMessage(data: unknown) {
+      const msg = parseRunnerMessage(data);
       if (!msg) return;
       if (msg.type === 'READY') {
-        setIframeReady(true);
+        setRunnerReady(true);
         const pending = pendingRunRef.current;
-        if (pending && iframeRef.current?.contentWindow) {
-          const run: ParentToRunnerMessage = { type: 'RUN', code: pending.code, runId: pending.runId };
-          iframeRef.current.contentWindow.postMessage(run, '*');
+        if (pending && runnerRef.current) {
+          watchdogRef.current = { runId: pending.runId, timeoutMs: pending.timeoutMs, lastHeartbeat: Date.now() };
+          realmRunIdRef.current = pending.runId;
+          const message: ParentToRunnerMessage = pending;
+          runnerRef.current.post(message);
           pendingRunRef.current = null;
         }
         return;
@@ -600,13 +843,135 @@ export function JSCompilerPane() {
 
       if ('runId' in msg && msg.runId && msg.runId !== activeRunId) return;
 
+      if (msg.type === 'HEARTBEAT') {
+        const watchdog = watchdogRef.current;
+        if (watchdog && watchdog.runId === msg.runId) watchdog.lastHeartbeat = Date.now();
+        return;
+      }
+
+      if (msg.type === 'RUN_END') {
+        // An idle runner isn't watched: throttled background timers would look like a stuck loop.
+        if (watchdogRef.current?.runId === msg.runId) watchdogRef.current = null;
+        return;
+      }
+
+      if (msg.type === 'TIMEOUT') {
+        killRunner(msg.runId, msg.timeoutMs);
+        return;
+      }
+
+      if (msg.type === 'RESULT' || msg.type === 'REPL_RESULT') {
+        setOutput((prev) => [
+          ...prev,
+          { kind: 'result', value: msg.value, text: formatRemoteValue(msg.value), ts: Date.now(), runId: msg.runId },
+        ]);
+        return;
+      }
+
+      if (msg.type === 'STDIN_REQUEST') {
+        const { requestId, prompt, defaultValue, groups, runId } = msg;
+        setStdinQueue((prev) => [...prev, { requestId, prompt, defaultValue, groups, runId }]);
+        return;
+      }
+
+      if (msg.type === 'TEST_RUN') {
+        setTestRun({ total: msg.total, results: [], durationMs: null });
+        return;
+      }
+
+      if (msg.type === 'TEST_RESULT') {
+        const { testId, suite, name, status, durationMs, error, stack, diff } = msg;
+        const frames = stack ? mapStackTrace(stack, stackContextRef.current) : undefined;
+        setTestRun((prev) =>
+          prev && { ...prev, results: [...prev.results, { testId, suite, name, status, durationMs, error, frames, diff }] }
+        );
+        return;
+      }
+
+      if (msg.type === 'TEST_RUN_END') {
+        setTestRun((prev) => prev && { ...prev, durationMs: msg.durationMs });
+        return;
+      }
+
+      if (msg.type === 'BENCH_RUN') {
+        const batch: BenchRun = { id: makeRunId(), ts: Date.now(), total: msg.total, results: [], done: false };
+        setBenchRuns((prev) => [batch, ...prev].slice(0, MAX_BENCH_RUNS));
+        return;
+      }
+
+      if (msg.type === 'BENCH_RESULT') {
+        setBenchRuns(([latest, ...rest]) =>
+          latest ? [{ ...latest, results: [...latest.results, msg.result] }, ...rest] : rest
+        );
+        return;
+      }
+
+      if (msg.type === 'BENCH_RUN_END') {
+        setBenchRuns(([latest, ...rest]) => (latest ? [{ ...latest, done: true }, ...rest] : rest));
+        return;
+      }
+
+      if (msg.type === 'COMPLEXITY_RESULT') {
+        setComplexityProbes((prev) => [...prev, msg.probe]);
+        return;
+      }
+
+      if (msg.type === 'INSPECT_RESULT') {
+        const request = inspectRequestsRef.current.get(msg.requestId);
+        if (!request) return;
+        inspectRequestsRef.current.delete(msg.requestId);
+        window.clearTimeout(request.timer);
+        if (msg.found) request.resolve({ properties: msg.properties, truncated: msg.truncated });
+        else request.reject(new Error('Value is no longer available'));
+        return;
+      }
+
       if (msg.type === 'CONSOLE') {
         setOutput((prev) => [
           ...prev,
           {
             kind: 'console',
             level: msg.level,
-            text: formatArgs(msg.args),
+            method: msg.method,
+            args: msg.args,
+            text: formatRemoteArgs(msg.args),
+            trace: msg.trace === undefined ? undefined : mapStackTrace(msg.trace, stackContextRef.current),
+            groups: msg.groups,
+            ts: Date.now(),
+            runId: msg.runId,
+          },
+        ]);
+        return;
+      }
+
+      if (msg.type === 'CONSOLE_GROUP') {
+        if (msg.collapsed) setCollapsedGroups((prev) => ({ ...prev, [msg.groupId]: true }));
+        setOutput((prev) => [
+          ...prev,
+          {
+            kind: 'group',
+            groupId: msg.groupId,
+            args: msg.args,
+            text: formatRemoteArgs(msg.args),
+            groups: msg.groups,
+            ts: Date.now(),
+            runId: msg.runId,
+          },
+        ]);
+        return;
+      }
+
+      if (msg.type === 'CONSOLE_TABLE') {
+        setOutput((prev) => [
+          ...prev,
+          {
+            kind: 'table',
+            columns: msg.columns,
+            hasValueColumn: msg.hasValueColumn,
+            rows: msg.rows,
+            truncated: msg.truncated,
+            text: `console.table (${msg.rows.length} rows)`,
+            groups: msg.groups,
             ts: Date.now(),
             runId: msg.runId,
           },
@@ -616,11 +981,16 @@ export function JSCompilerPane() {
 
       if (msg.type === 'RUNTIME_ERROR' || msg.type === 'UNHANDLED_REJECTION') {
         const headline = msg.type === 'UNHANDLED_REJECTION' ? `Unhandled rejection: ${msg.message}` : msg.message;
+        const frames = msg.stack ? mapStackTrace(msg.stack, stackContextRef.current) : [];
+        if (frames[0] && monacoRef.current) {
+          markRuntimeError(monacoRef.current, frames[0].location, sanitizeRuntimeErrorText(headline));
+        }
         setOutput((prev) => [
           ...prev,
           {
             kind: 'error',
             text: sanitizeRuntimeErrorText(headline),
+            frames,
             ts: Date.now(),
             runId: msg.runId,
           },
@@ -628,89 +998,520 @@ export function JSCompilerPane() {
       }
     }
 
-    window.addEventListener('message', onMessage);
-    return () => window.removeEventListener('message', onMessage);
-  }, [activeRunId]);
+    return runnerRef.current?.subscribe(onMessage);
+  }, [activeRunId, runnerSession]);
+
+  useEffect(() => {
+    // Parent-side watchdog: if the runner stops sending heartbeats for longer
+    // than the budget, its event loop is stuck (e.g. a blocking call the loop
+    // guard can't see), so tear the runner down.
+    const timer = window.setInterval(() => {
+      const watchdog = watchdogRef.current;
+      if (!watchdog) return;
+      if (Date.now() - watchdog.lastHeartbeat > watchdog.timeoutMs + HEARTBEAT_INTERVAL_MS) {
+        killRunner(watchdog.runId, watchdog.timeoutMs);
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!isDraggingSplit) return;
+
+    function onPointerMove(e: PointerEvent) {
+      const container = splitContainerRef.current;
+      if (!container) return;
+      const rect = container.getBoundingClientRect();
+      if (rect.height <= 0) return;
+      const rawPercent = ((e.clientY - rect.top) / rect.height) * 100;
+      const nextPercent = Math.max(20, Math.min(80, rawPercent));
+      setOutputSplitPercent(nextPercent);
+    }
+
+    function onPointerUp() {
+      setIsDraggingSplit(false);
+    }
+
+    window.addEventListener('pointermove', onPointerMove);
+    window.addEventListener('pointerup', onPointerUp, { once: true });
+    return () => {
+      window.removeEventListener('pointermove', onPointerMove);
+      window.removeEventListener('pointerup', onPointerUp);
+    };
+  }, [isDraggingSplit]);
+
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      // Run: Cmd+Enter (mac) / Ctrl+Enter (win/linux)
+      const isEnter = e.key === 'Enter';
+      const runCombo = isEnter && (isMac ? e.metaKey : e.ctrlKey);
+
+      // Clear output: Cmd+L (mac) / Ctrl+L (win/linux)
+      const clearCombo = e.key.toLowerCase() === 'l' && (isMac ? e.metaKey : e.ctrlKey);
+
+      // Save the open workspace file: Cmd+S (mac) / Ctrl+S (win/linux)
+      const saveCombo = e.key.toLowerCase() === 's' && (isMac ? e.metaKey : e.ctrlKey);
+
+      // Search in workspace files: Cmd+Shift+F (mac) / Ctrl+Shift+F (win/linux)
+      const searchCombo = e.key.toLowerCase() === 'f' && e.shiftKey && (isMac ? e.metaKey : e.ctrlKey);
+
+      if (runCombo) {
+        e.preventDefault();
+        e.stopPropagation();
+        setShortcutsOpen(false);
+        run();
+        return;
+      }
+
+      if (clearCombo) {
+        e.preventDefault();
+        e.stopPropagation();
+        clear();
+        return;
+      }
+
+      if (saveCombo && mode === 'project') {
+        e.preventDefault();
+        e.stopPropagation();
+        if (activeFile) workspace.saveFile(activeFile.id);
+        return;
+      }
+
+      if (searchCombo && mode === 'project') {
+        e.preventDefault();
+        e.stopPropagation();
+        setShortcutsOpen(false);
+        project.focusSearch();
+        return;
+      }
+
+      if (e.key === 'Escape') {
+        setShortcutsOpen(false);
+      }
+    }
+
+    // Capture phase so it still works when Monaco is focused.
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isMac, code, language, timeoutMs, runnerKind, workspace.state, mode, project.entryPath, activeFile?.id]);
+
+  const run = async () => {
+    const runId = makeRunId();
+    requestedRunIdRef.current = runId;
+    setOutput([]);
+    setCollapsedGroups({});
+    setStdinQueue([]);
+    setTestRun(null);
+    setComplexityProbes([]);
+    if (monacoRef.current) clearRuntimeMarkers(monacoRef.current);
+    setActiveRunId(runId);
+    watchdogRef.current = null;
+    pendingRunRef.current = null;
+
+    let prepared: PreparedRun;
+    try {
+      prepared =
+        mode === 'project'
+          ? await prepareProjectRun({ workspace: workspace.state, entryPath: project.entryPath, runId, timeoutMs })
+          : await prepareRun({ code, language, workspace: workspace.state, runId, timeoutMs });
+    } catch (e) {
+      prepared = { ok: false, errors: [`Transpile failed: ${e instanceof Error ? e.message : String(e)}`] };
+    }
+    if (requestedRunIdRef.current !== runId) return;
+
+    if (!prepared.ok) {
+      const ts = Date.now();
+      setOutput(prepared.errors.map((text) => ({ kind: 'error', text, ts, runId })));
+      return;
+    }
+
+    stackContextRef.current = prepared.stackContext;
+    setReplGlobals(prepared.globals);
+    setRunnerReady(false);
+    pendingRunRef.current = prepared.request;
+    setRunnerSession({ key: runId, kind: runnerKind }); // fresh realm per run
+  };
+
+  const inspectRemote = (runId: string, handle: number): Promise<RemoteInspectResult> => {
+    const runner = runnerRef.current;
+    // Handles only live as long as the realm of the run that produced them.
+    if (!runner || runId !== realmRunIdRef.current) {
+      return Promise.reject(new Error('Value is no longer available'));
+    }
+    const requestId = makeRunId();
+    return new Promise((resolve, reject) => {
+      const timer = window.setTimeout(() => {
+        inspectRequestsRef.current.delete(requestId);
+        reject(new Error('Runner did not respond'));
+      }, 3000);
+      inspectRequestsRef.current.set(requestId, { resolve, reject, timer });
+      const message: ParentToRunnerMessage = { type: 'INSPECT', handle, requestId };
+      runner.post(message);
+    });
+  };
+
+  const handleEditorMount: OnMount = (mountedEditor, monaco) => {
+    editorRef.current = mountedEditor;
+    monacoRef.current = monaco;
+    // The editor comes back after a diff view was closed to reveal something in it.
+    const pending = pendingRevealRef.current;
+    if (pending) {
+      pendingRevealRef.current = null;
+      revealPosition(pending);
+    }
+  };
+
+  // Snippet mode only has the snippet; project mode can open any workspace file.
+  const canRevealLocation = (location: SourceLocation) =>
+    mode === 'project' ? workspace.files.some((f) => f.path === location.path) : location.path === snippetFileName(language);
+
+  const revealPosition = (location: SourceLocation) => {
+    const ed = editorRef.current;
+    if (!ed) return;
+    const position = { lineNumber: location.line, column: location.column };
+    ed.setPosition(position);
+    ed.revealPositionInCenter(position);
+    ed.focus();
+  };
+
+  const revealLocation = (location: SourceLocation) => {
+    if (!canRevealLocation(location)) return;
+    const file = mode === 'project' ? workspace.files.find((f) => f.path === location.path) : undefined;
+    if (comparison) {
+      // The diff view is showing; the editor remounts once it's closed.
+      pendingRevealRef.current = location;
+      if (file) project.openFile(file.id);
+      else project.setComparing(null);
+      return;
+    }
+    if (file && file.id !== activeFile?.id) {
+      // The editor switches models on the next render; reveal after that.
+      pendingRevealRef.current = location;
+      project.openFile(file.id);
+      return;
+    }
+    revealPosition(location);
+  };
+
+  const switchMode = (next: EditorMode) => {
+    setMode(next);
+    if (next === 'project') project.openEntry();
+  };
+
+  const answerStdin = (request: StdinRequest, value: string | null) => {
+    setStdinQueue((prev) => prev.filter((r) => r.requestId !== request.requestId));
+    if (request.runId !== activeRunId) return;
+    setOutput((prev) => [
+      ...prev,
+      { kind: 'stdin', prompt: request.prompt, value, groups: request.groups, ts: Date.now(), runId: request.runId },
+    ]);
+    const message: ParentToRunnerMessage = { type: 'STDIN_RESPONSE', requestId: request.requestId, value };
+    runnerRef.current?.post(message);
+  };
+
+  // Evaluates a REPL entry in the current runner realm (no remount), inside the
+  // last snippet's scope when it registered one.
+  const evaluateRepl = async (source: string) => {
+    const runId = activeRunId;
+    const ts = Date.now();
+    setReplHistory((prev) => (prev[prev.length - 1] === source ? prev : [...prev, source].slice(-MAX_REPL_HISTORY)));
+    setOutput((prev) => [...prev, { kind: 'repl', text: source, ts, runId }]);
+
+    let js = source;
+    if (language !== 'js') {
+      const compiled = await transpileFile(`/repl.${language}`, source);
+      if (!compiled.ok) {
+        setOutput((prev) => [...prev, ...compiled.errors.map((text) => ({ kind: 'error' as const, text, ts, runId }))]);
+        return;
+      }
+      js = compiled.code;
+    }
+    const prepared = prepareReplInput(js);
+    if (!prepared.ok) {
+      setOutput((prev) => [...prev, { kind: 'error', text: prepared.error, ts, runId }]);
+      return;
+    }
+    setReplGlobals((prev) => [...new Set([...prev, ...prepared.declaredNames])]);
+
+    const runner = runnerRef.current;
+    // Dropped when a new run started while the entry was transpiling.
+    if (!runner || (requestedRunIdRef.current !== null && requestedRunIdRef.current !== runId)) return;
+    // Watched until it settles (RUN_END), like a run; a fresh runner adopts the entry's run id.
+    watchdogRef.current = { runId, timeoutMs, lastHeartbeat: Date.now() };
+    realmRunIdRef.current ??= runId;
+    const message: ParentToRunnerMessage = {
+      type: 'REPL_EVAL',
+      code: instrumentLoops(prepared.code),
+      declaredNames: prepared.declaredNames,
+      awaitResult: prepared.awaitResult,
+      runId,
+      timeoutMs,
+    };
+    runner.post(message);
+  };
+
+  // Throws the session away: a fresh runner realm without the last snippet's state.
+  const resetRepl = () => {
+    watchdogRef.current = null;
+    setStdinQueue([]);
+    setReplGlobals([]);
+    setRunnerReady(false);
+    setRunnerSession({ key: makeRunId(), kind: runnerKind });
+  };
+
+  const killRunner = (runId: string, budgetMs: number) => {
+    const watchdog = watchdogRef.current;
+    if (!watchdog || watchdog.runId !== runId) return;
+    watchdogRef.current = null;
+    setStdinQueue([]);
+    setOutput((prev) => [
+      ...prev,
+      { kind: 'error', text: `Execution timed out after ${budgetMs} ms`, ts: Date.now(), runId },
+    ]);
+    // Replace the runner with a fresh realm; disposing the stuck one terminates
+    // a worker outright, an iframe is discarded with its document.
+    setRunnerReady(false);
+    setRunnerSession((prev) => ({ key: makeRunId(), kind: prev.kind }));
+  };
+
+  const shareSnippet = async () => {
+    let url: string;
+    try {
+      const fragment = await encodeShareFragment({ code, language, timeoutMs, runner: runnerKind });
+      url = `${window.location.origin}${window.location.pathname}${window.location.search}#${fragment}`;
+    } catch {
+      setShareStatus({ tone: 'error', text: 'Could not create a link' });
+      return;
+    }
+    const warning =
+      url.length > SHARE_URL_SAFE_LENGTH
+        ? ` It is ${url.length.toLocaleString('en-US')} characters long; some apps cut links after ${SHARE_URL_SAFE_LENGTH.toLocaleString('en-US')}.`
+        : '';
+    try {
+      await navigator.clipboard.writeText(url);
+      setShareStatus({ tone: warning ? 'warn' : 'ok', text: `Link copied.${warning}` });
+    } catch {
+      // No clipboard access: leave the link in the address bar instead.
+      window.history.replaceState(null, '', url);
+      setShareStatus({ tone: 'warn', text: `Copy the link from the address bar.${warning}` });
+    }
+  };
+
+  const leaveSharedView = () => {
+    setViewingShared(false);
+    window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+  };
+
+  const forkSharedSnippet = () => {
+    leaveSharedView();
+    setActiveSnippetId(library.create({ name: 'Shared snippet', code, language }).id);
+  };
+
+  // Writes the autosave still waiting for a pause in typing, if any.
+  const flushSnippetSave = () => {
+    const pending = pendingSnippetSaveRef.current;
+    if (!pending) return;
+    pendingSnippetSaveRef.current = null;
+    library.update(pending.id, { code: pending.code, language: pending.language });
+  };
+
+  const openSnippet = (snippet: Snippet) => {
+    if (viewingShared) leaveSharedView();
+    setActiveSnippetId(snippet.id);
+    setCode(snippet.code);
+    setLanguage(snippet.language);
+    library.update(snippet.id, { openedAt: Date.now() });
+  };
+
+  const createSnippet = () => openSnippet(library.create({ code: NEW_SNIPPET_CODE, language }));
+
+  const duplicateSnippet = (id: string) => {
+    const copy = library.duplicate(id);
+    if (copy) openSnippet(copy);
+  };
+
+  const deleteSnippet = (id: string) => {
+    library.remove(id);
+    if (id !== activeSnippetId) return;
+    const next = library.recent.find((s) => s.id !== id);
+    if (next) openSnippet(next);
+    else openSnippet(library.create({ code: NEW_SNIPPET_CODE, language }));
+  };
+
+  const activeSnippet = library.snippets.find((s) => s.id === activeSnippetId) ?? null;
+
+  // Workspace-relative path of the file in the editor, as stack frames and estimates refer to it.
+  const editorFilePath = mode === 'project' ? (activeFile?.path ?? null) : snippetFileName(language);
+
+  const clear = () => {
+    setOutput([]);
+    setCollapsedGroups({});
+    setTestRun(null);
+    setComplexityProbes([]);
+  };
+
+
+  // Static estimates follow the editor. Code that doesn't compile keeps the
+  // previous estimates so the annotations don't flicker mid-edit.
+  useEffect(() => {
+    let cancelled = false;
+    if (mode === 'project' && (!activeFile || languageFromPath(activeFile.path) === null)) {
+      setComplexityEntries([]);
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      const compiling =
+        mode === 'project' && activeFile ? transpileFile(`/${activeFile.path}`, project.activeFileContent) : transpileSnippet(language, code);
+      compiling
+        .then((compiled) => {
+          if (!cancelled && compiled.ok) setComplexityEntries(analyzeComplexity(compiled.code, compiled.sourceMap));
+        })
+        .catch(() => {
+          // ignore
+        });
+    }, COMPLEXITY_ANALYSIS_DELAY_MS);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [code, language, mode, activeFile?.path, project.activeFileContent]);
+
+  useEffect(() => {
+    const pending = pendingRevealRef.current;
+    // A disposed editor (the diff view replaced it) has no model; the new one reveals on mount.
+    if (!pending || pending.path !== activeFile?.path || !editorRef.current?.getModel()) return;
+    pendingRevealRef.current = null;
+    revealPosition(pending);
+  }, [activeFile?.path]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(MODE_STORAGE_KEY, mode);
+    } catch {
+      // ignore
+    }
+  }, [mode]);
+
+  // Reopen the most recently used snippet once the library has loaded (or
+  // keep the current code as the first one).
+  useEffect(() => {
+    if (!library.loaded || restoredSnippetRef.current) return;
+    restoredSnippetRef.current = true;
+    if (viewingShared) return;
+    const last = library.recent[0];
+    if (last) openSnippet(last);
+    else setActiveSnippetId(library.create({ name: 'Untitled', code, language }).id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [library.loaded]);
 
   useEffect(() => {
-    if (!isDraggingSplit) return;
+    // Leaving a snippet (for another one or a share link) saves it right away.
+    const pending = pendingSnippetSaveRef.current;
+    if (pending && (pending.id !== activeSnippetId || viewingShared)) flushSnippetSave();
+    if (!activeSnippetId || viewingShared) return;
+    pendingSnippetSaveRef.current = { id: activeSnippetId, code, language };
+    const timer = window.setTimeout(flushSnippetSave, SNIPPET_AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [code, language, activeSnippetId, viewingShared]);
 
-    function onPointerMove(e: PointerEvent) {
-      const container = splitContainerRef.current;
-      if (!container) return;
-      const rect = container.getBoundingClientRect();
-      if (rect.height <= 0) return;
-      const rawPercent = ((e.clientY - rect.top) / rect.height) * 100;
-      const nextPercent = Math.max(20, Math.min(80, rawPercent));
-      setOutputSplitPercent(nextPercent);
-    }
+  useEffect(() => {
+    // The tab may be discarded once hidden; don't wait for the autosave delay.
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flushSnippetSave();
+    };
+    window.addEventListener('pagehide', flushSnippetSave);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', flushSnippetSave);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
-    function onPointerUp() {
-      setIsDraggingSplit(false);
+  useEffect(() => {
+    try {
+      localStorage.setItem(LIBRARY_OPEN_STORAGE_KEY, libraryOpen ? '1' : '0');
+    } catch {
+      // ignore
     }
+  }, [libraryOpen]);
 
-    window.addEventListener('pointermove', onPointerMove);
-    window.addEventListener('pointerup', onPointerUp, { once: true });
+  // Opening a share link shows its snippet (and settings) read-only until it's
+  // forked; the viewer's own settings aren't overwritten in the meantime.
+  useEffect(() => {
+    let cancelled = false;
+    const loadSharedSnippet = () => {
+      decodeShareFragment(window.location.hash)
+        .then((shared) => {
+          if (cancelled || !shared) return;
+          setCode(shared.code);
+          setLanguage(shared.language);
+          setTimeoutMs(parseTimeoutMs(String(shared.timeoutMs)));
+          setRunnerKind(shared.runner);
+          setViewingShared(true);
+          setMode('snippet');
+        })
+        .catch(() => {
+          // ignore
+        });
+    };
+    loadSharedSnippet();
+    window.addEventListener('hashchange', loadSharedSnippet);
     return () => {
-      window.removeEventListener('pointermove', onPointerMove);
-      window.removeEventListener('pointerup', onPointerUp);
+      cancelled = true;
+      window.removeEventListener('hashchange', loadSharedSnippet);
     };
-  }, [isDraggingSplit]);
+  }, []);
 
   useEffect(() => {
-    function onKeyDown(e: KeyboardEvent) {
-      // Run: Cmd+Enter (mac) / Ctrl+Enter (win/linux)
-      const isEnter = e.key === 'Enter';
-      const runCombo = isEnter && (isMac ? e.metaKey : e.ctrlKey);
-
-      // Clear output: Cmd+L (mac) / Ctrl+L (win/linux)
-      const clearCombo = e.key.toLowerCase() === 'l' && (isMac ? e.metaKey : e.ctrlKey);
-
-      if (runCombo) {
-        e.preventDefault();
-        e.stopPropagation();
-        setShortcutsOpen(false);
-        run();
-        return;
-      }
-
-      if (clearCombo) {
-        e.preventDefault();
-        e.stopPropagation();
-        clear();
-        return;
-      }
+    if (!shareStatus) return;
+    const timer = window.setTimeout(() => setShareStatus(null), SHARE_STATUS_MS);
+    return () => window.clearTimeout(timer);
+  }, [shareStatus]);
 
-      if (e.key === 'Escape') {
-        setShortcutsOpen(false);
+  useEffect(() => {
+    if (!viewingShared) {
+      try {
+        localStorage.setItem(LANGUAGE_STORAGE_KEY, language);
+      } catch {
+        // ignore
       }
     }
+    // Each language has its own model; drop the others so their top-level
+    // declarations don't clash in the shared TypeScript program.
+    disposeOtherSnippetModels(language).catch(() => {
+      // ignore
+    });
+  }, [language, viewingShared]);
 
-    // Capture phase so it still works when Monaco is focused.
-    window.addEventListener('keydown', onKeyDown, true);
-    return () => window.removeEventListener('keydown', onKeyDown, true);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isMac, code]);
-
-  const run = () => {
-    const runId = makeRunId();
-    setOutput([]);
-    if (isDev) {
-      setComplexityEntries(analyzeFunctionComplexity(code));
-    } else {
-      setComplexityEntries([]);
+  useEffect(() => {
+    if (viewingShared) return;
+    try {
+      localStorage.setItem(TIMEOUT_STORAGE_KEY, String(timeoutMs));
+    } catch {
+      // ignore
     }
-    setIframeReady(false);
-    setActiveRunId(runId);
-    pendingRunRef.current = { code, runId };
-    setIframeKey(runId); // remount iframe to reset state per run
-  };
+  }, [timeoutMs, viewingShared]);
 
-  const clear = () => {
-    setOutput([]);
-    setComplexityEntries([]);
-  };
+  useEffect(() => {
+    if (viewingShared) return;
+    try {
+      localStorage.setItem(RUNNER_STORAGE_KEY, runnerKind);
+    } catch {
+      // ignore
+    }
+  }, [runnerKind, viewingShared]);
 
+  useEffect(() => {
+    try {
+      localStorage.setItem(REPL_HISTORY_STORAGE_KEY, JSON.stringify(replHistory));
+    } catch {
+      // ignore
+    }
+  }, [replHistory]);
 
   useEffect(() => {
     try {
@@ -729,7 +1530,7 @@ export function JSCompilerPane() {
   }, [userTheme]);
 
   const isLight = theme === 'light';
-  const share = false;
+  const testCounts = countTestResults(testRun?.results ?? []);
   const themeButtonTitle = `Theme: ${theme}. Click to switch to ${theme === 'dark' ? 'light' : 'dark'}.`;
 
   return (
@@ -765,6 +1566,53 @@ export function JSCompilerPane() {
           </div>
 
           <div className="flex items-center gap-2 justify-end">
+            <div
+              role="radiogroup"
+              aria-label="Editor mode"
+              className={['h-8 p-0.5 rounded-md border inline-flex items-center', isLight ? 'border-black/10' : 'border-white/10'].join(' ')}
+            >
+              {(['snippet', 'project'] as const).map((m) => (
+                <button
+                  key={m}
+                  type="button"
+                  role="radio"
+                  aria-checked={mode === m}
+                  onClick={() => switchMode(m)}
+                  className={[
+                    'h-full px-2.5 rounded text-xs focus:outline-none focus:ring-2',
+                    mode === m
+                      ? isLight
+                        ? 'bg-black/5 text-[#0b1220] font-medium'
+                        : 'bg-white/10 text-[#d7dce2] font-medium'
+                      : isLight
+                        ? 'text-[#0b1220]/60 hover:bg-black/5'
+                        : 'text-[#a2aabc] hover:bg-white/10',
+                    isLight ? 'focus:ring-black/15' : 'focus:ring-white/15',
+                  ].join(' ')}
+                  title={m === 'snippet' ? 'Edit and run a single snippet' : 'Edit the workspace and run an entry file'}
+                >
+                  {m === 'snippet' ? 'Snippet' : 'Project'}
+                </button>
+              ))}
+            </div>
+            {mode === 'snippet' && (
+              <button
+                type="button"
+                onClick={() => setLibraryOpen((prev) => !prev)}
+                aria-pressed={libraryOpen}
+                className={[
+                  'h-8 px-2.5 rounded-md text-xs transition-all duration-150 ease-out',
+                  'hover:-translate-y-px active:translate-y-0 active:scale-[0.99] focus:outline-none focus:ring-2',
+                  libraryOpen ? (isLight ? 'bg-black/5' : 'bg-white/10') : '',
+                  isLight
+                    ? 'text-[#0b1220]/70 hover:bg-black/5 focus:ring-black/15'
+                    : 'text-[#a2aabc] hover:bg-white/10 focus:ring-white/15',
+                ].join(' ')}
+                title={libraryOpen ? 'Hide the snippet library' : 'Show the snippet library'}
+              >
+                Snippets
+              </button>
+            )}
             {/*
               Theme follows system only until the user toggles.
               After first toggle, we persist the user's choice (dark/light).
@@ -807,8 +1655,42 @@ export function JSCompilerPane() {
         </div>
       </div>
 
-      <div className="flex-1 overflow-hidden p-2 sm:p-3">
-        <div className="h-full grid grid-cols-1 lg:grid-cols-2 gap-3 sm:gap-4 overflow-hidden">
+      <div className="flex-1 overflow-hidden p-2 sm:p-3 flex gap-3 sm:gap-4">
+        {(mode === 'project' || libraryOpen) && (
+          <aside
+            className={[
+              'w-60 shrink-0 min-h-0 rounded-xl border overflow-hidden',
+              isLight ? 'border-black/10 bg-white' : 'border-white/10 bg-[#171c28]',
+              'shadow-[0_16px_40px_-32px_rgba(0,0,0,0.9)]',
+            ].join(' ')}
+          >
+            {mode === 'project' ? (
+              <ProjectSidebar
+                workspace={workspace}
+                project={project}
+                isLight={isLight}
+                onOpenMatch={(path, match) => revealLocation({ path, line: match.line, column: match.column })}
+              />
+            ) : (
+              <SnippetLibrary
+                snippets={library.snippets}
+                recent={library.recent}
+                activeId={viewingShared ? null : activeSnippetId}
+                isLight={isLight}
+                onOpen={(id) => {
+                  const snippet = library.snippets.find((s) => s.id === id);
+                  if (snippet) openSnippet(snippet);
+                }}
+                onCreate={createSnippet}
+                onRename={(id, name) => library.update(id, { name })}
+                onDuplicate={duplicateSnippet}
+                onSetTags={(id, tags) => library.update(id, { tags })}
+                onDelete={deleteSnippet}
+              />
+            )}
+          </aside>
+        )}
+        <div className="flex-1 min-w-0 h-full grid grid-cols-1 lg:grid-cols-2 gap-3 sm:gap-4 overflow-hidden">
           <div
             className={[
               'min-w-0 rounded-xl border overflow-hidden flex flex-col',
@@ -823,20 +1705,92 @@ export function JSCompilerPane() {
               ].join(' ')}
             >
               <div className="min-w-0 flex items-center gap-2">
-                <div className={['text-[12px] font-medium truncate', isLight ? 'text-[#0b1220]/75' : 'text-[#d7dce2]/90'].join(' ')}>
-                  main.js
-                </div>
+                {mode === 'project' ? (
+                  <label
+                    className={[
+                      'h-7 rounded-md text-xs inline-flex items-center gap-1.5',
+                      isLight ? 'text-[#0b1220]/80' : 'text-[#d7dce2]/90',
+                    ].join(' ')}
+                    title="The workspace file Run starts from"
+                  >
+                    <span className="font-medium">Entry</span>
+                    <select
+                      value={project.entryPath ?? ''}
+                      onChange={(e) => project.chooseEntry(e.target.value)}
+                      disabled={project.runnableFiles.length === 0}
+                      className={[
+                        'h-7 max-w-56 px-1.5 rounded-md border text-xs focus:outline-none focus:ring-2',
+                        isLight
+                          ? 'border-black/15 bg-white text-[#0b1220]/80 focus:ring-black/15'
+                          : 'border-white/15 bg-[#1d2433] text-[#d7dce2]/90 focus:ring-white/15',
+                      ].join(' ')}
+                    >
+                      {project.runnableFiles.length === 0 && <option value="">No runnable files</option>}
+                      {project.runnableFiles.map((f) => (
+                        <option key={f.id} value={f.path}>
+                          {f.path}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ) : (
+                  <>
+                    {activeSnippet && !viewingShared && (
+                      <div className={['text-[12px] font-medium truncate', isLight ? 'text-[#0b1220]/90' : 'text-[#d7dce2]'].join(' ')}>
+                        {activeSnippet.name}
+                      </div>
+                    )}
+                    <div className={['text-[12px] font-medium truncate', isLight ? 'text-[#0b1220]/75' : 'text-[#d7dce2]/90'].join(' ')}>
+                      {snippetFileName(language)}
+                    </div>
+                    <select
+                      value={language}
+                      onChange={(e) => setLanguage(parseSnippetLanguage(e.target.value) ?? 'js')}
+                      disabled={viewingShared}
+                      aria-label="Language"
+                      title="Language"
+                      className={[
+                        'h-7 px-1.5 rounded-md border text-xs focus:outline-none focus:ring-2',
+                        isLight
+                          ? 'border-black/15 bg-white text-[#0b1220]/80 focus:ring-black/15'
+                          : 'border-white/15 bg-[#1d2433] text-[#d7dce2]/90 focus:ring-white/15',
+                      ].join(' ')}
+                    >
+                      {SNIPPET_LANGUAGES.map((l) => (
+                        <option key={l.id} value={l.id}>
+                          {l.label}
+                        </option>
+                      ))}
+                    </select>
+                  </>
+                )}
               </div>
               <div className="flex items-center gap-2 flex-wrap">
-                {share && (
+                {shareStatus && (
+                  <span
+                    role="status"
+                    className={[
+                      'max-w-64 text-[11px] leading-4',
+                      shareStatus.tone === 'ok'
+                        ? isLight
+                          ? 'text-[#15803d]'
+                          : 'text-[#7ee787]'
+                        : shareStatus.tone === 'warn'
+                          ? isLight
+                            ? 'text-[#92400e]'
+                            : 'text-[#fde68a]'
+                          : isLight
+                            ? 'text-[#b91c1c]'
+                            : 'text-[#ff7b72]',
+                    ].join(' ')}
+                  >
+                    {shareStatus.text}
+                  </span>
+                )}
+                {mode === 'snippet' && (
                   <button
-                    onClick={() => {
-                      try {
-                        navigator.clipboard?.writeText(code);
-                      } catch {
-                        // ignore
-                      }
-                    }}
+                    type="button"
+                    onClick={() => void shareSnippet()}
                     className={[
                       'h-7 px-2.5 rounded-md text-xs transition-all duration-150 ease-out',
                       'hover:-translate-y-px active:translate-y-0 active:scale-[0.99] focus:outline-none focus:ring-2',
@@ -844,7 +1798,7 @@ export function JSCompilerPane() {
                         ? 'text-[#0b1220]/70 hover:bg-black/5 focus:ring-black/15'
                         : 'text-[#a2aabc] hover:bg-white/10 focus:ring-white/15',
                     ].join(' ')}
-                    title="Copy code to clipboard"
+                    title="Copy a link that opens this snippet and its settings"
                   >
                     Share
                   </button>
@@ -883,6 +1837,56 @@ export function JSCompilerPane() {
                     />
                   </span>
                 </button>
+                <label
+                  className={[
+                    'h-7 pl-1.5 rounded-md text-xs inline-flex items-center gap-1.5',
+                    isLight ? 'text-[#0b1220]/80' : 'text-[#d7dce2]/90',
+                  ].join(' ')}
+                  title={RUNNER_KINDS.find((k) => k.id === runnerKind)?.description}
+                >
+                  <span className="font-medium">Runner</span>
+                  <select
+                    value={runnerKind}
+                    onChange={(e) => setRunnerKind(parseRunnerKind(e.target.value) ?? 'iframe')}
+                    className={[
+                      'h-7 px-1.5 rounded-md border text-xs focus:outline-none focus:ring-2',
+                      isLight
+                        ? 'border-black/15 bg-white text-[#0b1220]/80 focus:ring-black/15'
+                        : 'border-white/15 bg-[#1d2433] text-[#d7dce2]/90 focus:ring-white/15',
+                    ].join(' ')}
+                  >
+                    {RUNNER_KINDS.map((k) => (
+                      <option key={k.id} value={k.id}>
+                        {k.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label
+                  className={[
+                    'h-7 pl-1.5 rounded-md text-xs inline-flex items-center gap-1.5',
+                    isLight ? 'text-[#0b1220]/80' : 'text-[#d7dce2]/90',
+                  ].join(' ')}
+                  title="Execution budget: code that blocks longer than this is stopped"
+                >
+                  <span className="font-medium">Timeout</span>
+                  <select
+                    value={timeoutMs}
+                    onChange={(e) => setTimeoutMs(parseTimeoutMs(e.target.value))}
+                    className={[
+                      'h-7 px-1.5 rounded-md border text-xs focus:outline-none focus:ring-2',
+                      isLight
+                        ? 'border-black/15 bg-white text-[#0b1220]/80 focus:ring-black/15'
+                        : 'border-white/15 bg-[#1d2433] text-[#d7dce2]/90 focus:ring-white/15',
+                    ].join(' ')}
+                  >
+                    {TIMEOUT_OPTIONS_MS.map((ms) => (
+                      <option key={ms} value={ms}>
+                        {formatTimeoutLabel(ms)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
                 <button
                   onClick={run}
                   className={[
@@ -905,23 +1909,99 @@ export function JSCompilerPane() {
               </div>
             </div>
 
+            {mode === 'snippet' && viewingShared && (
+              <div
+                className={[
+                  'px-3 py-1.5 flex flex-wrap items-center justify-between gap-2 border-b text-xs',
+                  isLight ? 'border-black/10 bg-[#eff6ff] text-[#1d4ed8]' : 'border-white/10 bg-[#1e3a8a]/30 text-[#bfdbfe]',
+                ].join(' ')}
+              >
+                <span>Viewing a shared snippet (read-only). Run it here, or fork it to edit.</span>
+                <button
+                  type="button"
+                  onClick={forkSharedSnippet}
+                  className={[
+                    'h-6 px-2 rounded-md border font-medium focus:outline-none focus:ring-2',
+                    isLight
+                      ? 'border-[#2563eb]/30 bg-white hover:bg-[#dbeafe] focus:ring-black/15'
+                      : 'border-[#79c0ff]/30 bg-[#1d2433] hover:bg-white/10 focus:ring-white/15',
+                  ].join(' ')}
+                >
+                  Fork into my editor
+                </button>
+              </div>
+            )}
+
+            {mode === 'snippet' && library.persistError && (
+              <div
+                role="alert"
+                className={[
+                  'px-3 py-1.5 flex flex-wrap items-center justify-between gap-2 border-b text-xs',
+                  isLight ? 'border-black/10 bg-[#fef2f2] text-[#b91c1c]' : 'border-white/10 bg-[#ff7b72]/10 text-[#ff7b72]',
+                ].join(' ')}
+              >
+                <span className="min-w-0">{library.persistError}</span>
+                <button
+                  type="button"
+                  onClick={library.dismissPersistError}
+                  className={[
+                    'h-6 px-2 rounded-md font-medium focus:outline-none focus:ring-2',
+                    isLight ? 'hover:bg-black/5 focus:ring-black/15' : 'hover:bg-white/10 focus:ring-white/15',
+                  ].join(' ')}
+                >
+                  Dismiss
+                </button>
+              </div>
+            )}
+
+            {mode === 'project' && <ProjectEditorHeader workspace={workspace} project={project} isLight={isLight} />}
+
             <div className="flex-1 min-h-0">
-              <MonacoPane
-                path="/main.js"
-                value={code}
-                onChange={setCode}
-                theme={theme}
-                suggestionsEnabled={suggestionsEnabled}
-              />
+              {mode === 'project' ? (
+                comparison ? (
+                  <MonacoDiffPane
+                    path={comparison.path}
+                    original={comparison.original ?? ''}
+                    modified={comparison.modified ?? ''}
+                    originalModelPath={comparison.originalModelPath}
+                    modifiedModelPath={`history:/current/${comparison.path}`}
+                    theme={theme}
+                  />
+                ) : activeFile ? (
+                  <MonacoPane
+                    path={`/${activeFile.path}`}
+                    value={project.activeFileContent}
+                    onChange={(next) => workspace.updateFileContent(activeFile.id, next)}
+                    onMount={handleEditorMount}
+                    theme={theme}
+                    suggestionsEnabled={suggestionsEnabled}
+                    complexity={complexityEntries}
+                  />
+                ) : (
+                  <div className={['h-full grid place-items-center text-xs', isLight ? 'text-black/50' : 'text-[#8695b7]'].join(' ')}>
+                    {workspace.loaded ? 'Open a file from the Explorer' : 'Loading workspace…'}
+                  </div>
+                )
+              ) : (
+                <MonacoPane
+                  path={snippetPath(language)}
+                  value={code}
+                  onChange={setCode}
+                  readOnly={viewingShared}
+                  onMount={handleEditorMount}
+                  theme={theme}
+                  suggestionsEnabled={suggestionsEnabled}
+                  complexity={complexityEntries}
+                />
+              )}
             </div>
           </div>
 
           <div ref={splitContainerRef} className="min-w-0 min-h-0 flex flex-col">
             <div
-              style={isDev ? { flexBasis: `${outputSplitPercent}%` } : undefined}
+              style={{ flexBasis: `${outputSplitPercent}%` }}
               className={[
                 'min-h-0 rounded-xl border overflow-hidden flex flex-col',
-                isDev ? '' : 'flex-1',
                 isLight ? 'border-black/10 bg-white' : 'border-white/10 bg-[#171c28]',
                 'shadow-[0_16px_40px_-32px_rgba(0,0,0,0.9)]',
               ].join(' ')}
@@ -933,12 +2013,48 @@ export function JSCompilerPane() {
                 ].join(' ')}
               >
                 <div className="min-w-0 flex items-center gap-2">
-                  <div className={['text-[12px] font-medium truncate', isLight ? 'text-[#0b1220]/75' : 'text-[#d7dce2]/90'].join(' ')}>
-                    Output
+                  <div className="flex items-center gap-1" role="tablist" aria-label="Output views">
+                    {(['output', 'tests', 'benchmarks'] as const).map((tab) => (
+                      <button
+                        key={tab}
+                        type="button"
+                        role="tab"
+                        aria-selected={outputTab === tab}
+                        onClick={() => setOutputTab(tab)}
+                        className={[
+                          'h-6 px-2 rounded-md text-[12px] font-medium truncate transition-colors focus:outline-none focus:ring-2',
+                          outputTab === tab
+                            ? isLight
+                              ? 'bg-black/5 text-[#0b1220]/85 focus:ring-black/15'
+                              : 'bg-white/10 text-[#d7dce2] focus:ring-white/15'
+                            : isLight
+                              ? 'text-black/45 hover:bg-black/5 focus:ring-black/15'
+                              : 'text-[#8695b7] hover:bg-white/5 focus:ring-white/15',
+                        ].join(' ')}
+                      >
+                        {tab === 'output' ? 'Output' : tab === 'tests' ? 'Tests' : 'Benchmarks'}
+                        {tab === 'tests' && testRun && (
+                          <span
+                            className={[
+                              'ml-1.5',
+                              testCounts.fail > 0
+                                ? isLight
+                                  ? 'text-[#b91c1c]'
+                                  : 'text-[#ff7b72]'
+                                : isLight
+                                  ? 'text-[#15803d]'
+                                  : 'text-[#7ee787]',
+                            ].join(' ')}
+                          >
+                            {testCounts.fail > 0 ? `${testCounts.fail}✗` : `${testCounts.pass}✓`}
+                          </span>
+                        )}
+                      </button>
+                    ))}
                   </div>
                   <div className={['text-[12px]', isLight ? 'text-black/45' : 'text-[#8695b7]'].join(' ')}>
-                    <span className={iframeReady ? 'text-[#16a34a]' : isLight ? 'text-[#b45309]' : 'text-[#ffcc66]'}>
-                      {iframeReady ? 'ready' : 'loading'}
+                    <span className={runnerReady ? 'text-[#16a34a]' : isLight ? 'text-[#b45309]' : 'text-[#ffcc66]'}>
+                      {runnerReady ? 'ready' : 'loading'}
                     </span>
                   </div>
                 </div>
@@ -971,155 +2087,241 @@ export function JSCompilerPane() {
                   isLight ? 'text-[#0b1220]' : '',
                 ].join(' ')}
               >
-                {output.length === 0 ? (
+                {outputTab === 'tests' ? (
+                  <TestResults run={testRun} isLight={isLight} canReveal={canRevealLocation} onReveal={revealLocation} />
+                ) : outputTab === 'benchmarks' ? (
+                  <BenchmarkResults
+                    runs={benchRuns}
+                    isLight={isLight}
+                    onClearHistory={() => setBenchRuns((prev) => prev.slice(0, 1))}
+                  />
+                ) : output.length === 0 && stdinQueue.length === 0 ? (
                   <div className={isLight ? 'text-black/50' : 'text-[#8695b7]'}>No output</div>
                 ) : (
                   <ul className="space-y-1">
                     {output.map((line, idx) => {
+                      const groups = 'groups' in line ? line.groups : [];
+                      if (groups.some((id) => collapsedGroups[id])) return null;
+                      const level = line.kind === 'console' ? line.level : line.kind === 'error' ? 'error' : 'log';
                       const color = isLight
-                        ? line.kind === 'error'
+                        ? level === 'error'
                           ? 'text-[#b91c1c]'
-                          : line.level === 'error'
-                            ? 'text-[#b91c1c]'
-                            : line.level === 'warn'
-                              ? 'text-[#b45309]'
-                              : line.level === 'info'
-                                ? 'text-black/55'
-                                : 'text-[#0b1220]'
-                        : line.kind === 'error'
+                          : level === 'warn'
+                            ? 'text-[#b45309]'
+                            : level === 'info'
+                              ? 'text-black/55'
+                              : 'text-[#0b1220]'
+                        : level === 'error'
                           ? 'text-[#ff7b72]'
-                          : line.level === 'error'
-                            ? 'text-[#ff7b72]'
-                            : line.level === 'warn'
-                              ? 'text-[#ffcc66]'
-                              : line.level === 'info'
-                                ? 'text-[#a2aabc]'
-                                : 'text-[#d7dce2]';
+                          : level === 'warn'
+                            ? 'text-[#ffcc66]'
+                            : level === 'info'
+                              ? 'text-[#a2aabc]'
+                              : 'text-[#d7dce2]';
+                      const onInspect = (handle: number) => inspectRemote(line.runId, handle);
+                      const frames = line.kind === 'console' ? line.trace : line.kind === 'error' ? line.frames : undefined;
                       return (
-                        <li key={idx} className={`whitespace-pre-wrap wrap-break-word ${color}`}>
+                        <li
+                          key={idx}
+                          className={`whitespace-pre-wrap wrap-break-word ${color}`}
+                          style={groups.length > 0 ? { paddingLeft: groups.length * 14 } : undefined}
+                        >
                           <span className={['mr-2 select-none', isLight ? 'text-black/40' : 'text-[#6679a4]'].join(' ')}>
                             [{formatTime(line.ts)}]
                           </span>
-                          {line.text}
+                          {line.kind === 'console' && line.method === 'dir' && line.args[0] ? (
+                            <RemoteValueView value={line.args[0]} isLight={isLight} onInspect={onInspect} defaultExpanded />
+                          ) : line.kind === 'console' ? (
+                            line.args.map((arg, argIdx) => (
+                              <span key={argIdx}>
+                                {argIdx > 0 && ' '}
+                                <RemoteValueView value={arg} top isLight={isLight} onInspect={onInspect} />
+                              </span>
+                            ))
+                          ) : line.kind === 'group' ? (
+                            <button
+                              type="button"
+                              onClick={() =>
+                                setCollapsedGroups((prev) => ({ ...prev, [line.groupId]: !prev[line.groupId] }))
+                              }
+                              className="inline text-left font-semibold focus:outline-none"
+                              aria-expanded={!collapsedGroups[line.groupId]}
+                            >
+                              <span className={['inline-block w-3 select-none', isLight ? 'text-black/45' : 'text-[#8695b7]'].join(' ')}>
+                                {collapsedGroups[line.groupId] ? '▸' : '▾'}
+                              </span>
+                              {line.text}
+                            </button>
+                          ) : line.kind === 'result' ? (
+                            <>
+                              <span className={['select-none', isLight ? 'text-black/45' : 'text-[#8695b7]'].join(' ')}>← </span>
+                              <RemoteValueView value={line.value} isLight={isLight} onInspect={onInspect} />
+                            </>
+                          ) : line.kind === 'repl' ? (
+                            <>
+                              <span className={['select-none', isLight ? 'text-black/45' : 'text-[#8695b7]'].join(' ')}>› </span>
+                              {line.text}
+                            </>
+                          ) : line.kind === 'stdin' ? (
+                            <>
+                              {line.prompt && <span>{line.prompt} </span>}
+                              <span className={isLight ? 'text-black/45' : 'text-[#8695b7]'}>› </span>
+                              {line.value === null ? (
+                                <span className={['italic', isLight ? 'text-black/45' : 'text-[#8695b7]'].join(' ')}>
+                                  (cancelled)
+                                </span>
+                              ) : (
+                                <span className={isLight ? 'text-[#1d4ed8]' : 'text-[#7ee787]'}>{line.value}</span>
+                              )}
+                            </>
+                          ) : line.kind === 'table' ? (
+                            <ConsoleTable
+                              columns={line.columns}
+                              hasValueColumn={line.hasValueColumn}
+                              rows={line.rows}
+                              truncated={line.truncated}
+                              isLight={isLight}
+                              onInspect={onInspect}
+                            />
+                          ) : (
+                            line.text
+                          )}
+                          {frames && frames.length > 0 && (
+                            <StackFrames
+                              frames={frames}
+                              isLight={isLight}
+                              canReveal={canRevealLocation}
+                              onReveal={revealLocation}
+                            />
+                          )}
                         </li>
                       );
                     })}
+                    {stdinQueue[0] && (
+                      <li
+                        className={isLight ? 'text-[#0b1220]' : 'text-[#d7dce2]'}
+                        style={stdinQueue[0].groups.length > 0 ? { paddingLeft: stdinQueue[0].groups.length * 14 } : undefined}
+                      >
+                        <StdinInput
+                          key={stdinQueue[0].requestId}
+                          prompt={stdinQueue[0].prompt}
+                          defaultValue={stdinQueue[0].defaultValue}
+                          queued={stdinQueue.length - 1}
+                          isLight={isLight}
+                          onSubmit={(value) => answerStdin(stdinQueue[0], value)}
+                        />
+                      </li>
+                    )}
                   </ul>
                 )}
               </div>
+
+              {outputTab === 'output' && (
+                <ReplInput
+                  history={replHistory}
+                  completions={replGlobals}
+                  disabled={!runnerReady}
+                  isLight={isLight}
+                  onSubmit={evaluateRepl}
+                  onReset={resetRepl}
+                />
+              )}
             </div>
 
-            {isDev && (
+            <div
+              className={[
+                'h-4 shrink-0 flex items-center justify-center',
+              ].join(' ')}
+              onPointerDown={(e) => {
+                e.preventDefault();
+                setIsDraggingSplit(true);
+              }}
+              role="separator"
+              aria-orientation="horizontal"
+              aria-label="Resize output and complexity panels"
+            >
               <div
                 className={[
-                  'h-4 shrink-0 flex items-center justify-center',
+                  'h-1.5 w-20 rounded-full border cursor-row-resize transition-colors',
+                  isLight
+                    ? 'border-black/10 bg-black/[0.08] hover:bg-black/[0.14]'
+                    : 'border-white/15 bg-white/[0.15] hover:bg-white/[0.24]',
                 ].join(' ')}
-                onPointerDown={(e) => {
-                  e.preventDefault();
-                  setIsDraggingSplit(true);
-                }}
-                role="separator"
-                aria-orientation="horizontal"
-                aria-label="Resize output and complexity panels"
-              >
-                <div
-                  className={[
-                    'h-1.5 w-20 rounded-full border cursor-row-resize transition-colors',
-                    isLight
-                      ? 'border-black/10 bg-black/[0.08] hover:bg-black/[0.14]'
-                      : 'border-white/15 bg-white/[0.15] hover:bg-white/[0.24]',
-                  ].join(' ')}
-                />
-              </div>
-            )}
+              />
+            </div>
 
-            {isDev && (
+            <div
+              style={{ flexBasis: `${100 - outputSplitPercent}%` }}
+              className={[
+                'min-h-0 rounded-xl border overflow-hidden flex flex-col',
+                isLight ? 'border-black/10 bg-white' : 'border-white/10 bg-[#171c28]',
+                'shadow-[0_16px_40px_-32px_rgba(0,0,0,0.9)]',
+              ].join(' ')}
+            >
               <div
-                style={{ flexBasis: `${100 - outputSplitPercent}%` }}
                 className={[
-                  'min-h-0 rounded-xl border overflow-hidden flex flex-col',
-                  isLight ? 'border-black/10 bg-white' : 'border-white/10 bg-[#171c28]',
-                  'shadow-[0_16px_40px_-32px_rgba(0,0,0,0.9)]',
+                  'min-h-10 p-3 sm:py-0 flex items-center justify-between gap-2 border-b',
+                  isLight ? 'border-black/10 bg-white/70' : 'border-white/10 bg-black/10',
                 ].join(' ')}
               >
-                <div
+                <div className={['text-[12px] font-medium truncate', isLight ? 'text-[#0b1220]/75' : 'text-[#d7dce2]/90'].join(' ')}>
+                  Time Complexity Indicator
+                </div>
+                <span
                   className={[
-                    'min-h-10 p-3 sm:py-0 flex items-center justify-between gap-2 border-b',
-                    isLight ? 'border-black/10 bg-white/70' : 'border-white/10 bg-black/10',
+                    'shrink-0 inline-flex items-center rounded-full px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide',
+                    isLight ? 'bg-[#fef3c7] text-[#92400e] border border-[#f59e0b]/30' : 'bg-[#78350f] text-[#fde68a] border border-[#f59e0b]/30',
                   ].join(' ')}
                 >
-                  <div className={['text-[12px] font-medium truncate', isLight ? 'text-[#0b1220]/75' : 'text-[#d7dce2]/90'].join(' ')}>
-                    Time Complexity Indicator
-                  </div>
-                  <span
-                    className={[
-                      'shrink-0 inline-flex items-center rounded-full px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide',
-                      isLight ? 'bg-[#fef3c7] text-[#92400e] border border-[#f59e0b]/30' : 'bg-[#78350f] text-[#fde68a] border border-[#f59e0b]/30',
-                    ].join(' ')}
-                  >
-                    Beta
-                  </span>
-                </div>
+                  Beta
+                </span>
+              </div>
 
-                <div className="flex-1 min-h-0 overflow-auto px-3 py-2 text-[12px] leading-5">
-                  {complexityEntries.length === 0 ? (
-                    <div className={isLight ? 'text-black/50' : 'text-[#8695b7]'}>
-                      No function complexity data yet. Run code to analyze.
-                    </div>
-                  ) : (
-                    <ul className="space-y-2">
-                      {complexityEntries.map((entry) => {
-                        const bandClass = isLight
-                          ? entry.complexity === 'O(1)'
-                            ? 'bg-[#dcfce7] text-[#166534]'
-                            : entry.complexity === 'O(n)'
-                              ? 'bg-[#dbeafe] text-[#1d4ed8]'
-                              : entry.complexity === 'O(n^2)'
-                                ? 'bg-[#fef3c7] text-[#92400e]'
-                                : 'bg-[#fee2e2] text-[#991b1b]'
-                          : entry.complexity === 'O(1)'
-                            ? 'bg-[#14532d] text-[#bbf7d0]'
-                            : entry.complexity === 'O(n)'
-                              ? 'bg-[#1e3a8a] text-[#bfdbfe]'
-                              : entry.complexity === 'O(n^2)'
-                                ? 'bg-[#78350f] text-[#fde68a]'
-                                : 'bg-[#7f1d1d] text-[#fecaca]';
-
-                        return (
-                          <li
-                            key={entry.name}
-                            className={[
-                              'rounded-md border p-2',
-                              isLight ? 'border-black/10 bg-black/[0.015]' : 'border-white/10 bg-black/10',
-                            ].join(' ')}
-                          >
-                            <div className="flex items-center justify-between gap-2">
-                              <span className={['font-mono font-semibold', isLight ? 'text-[#0b1220]' : 'text-[#d7dce2]'].join(' ')}>
-                                {entry.name}
-                              </span>
-                              <span className={`px-2 py-0.5 rounded text-[11px] font-medium ${bandClass}`}>{entry.complexity}</span>
-                            </div>
-                            <div className={['mt-1', isLight ? 'text-black/65' : 'text-[#a2aabc]'].join(' ')}>
-                              {entry.reason}
+              <div className="flex-1 min-h-0 overflow-auto px-3 py-2 text-[12px] leading-5">
+                {complexityEntries.length === 0 && complexityProbes.length === 0 ? (
+                  <div className={isLight ? 'text-black/50' : 'text-[#8695b7]'}>
+                    No functions to analyze yet. Write one, or call{' '}
+                    <code>complexity(fn, (n) =&gt; input)</code> to measure a function.
+                  </div>
+                ) : (
+                  <ul className="space-y-2">
+                    {complexityEntries.map((entry) => (
+                      <ComplexityEstimate
+                        key={entry.name}
+                        entry={entry}
+                        isLight={isLight}
+                        onRevealLine={(line) => editorFilePath && revealLocation({ path: editorFilePath, line, column: 1 })}
+                      >
+                        {complexityProbes
+                          .filter((p) => p.name === entry.name)
+                          .map((probe) => (
+                            <div key={probe.probeId} className="mt-2">
+                              <ComplexityMeasurement probe={probe} estimate={entry.complexity} isLight={isLight} />
                             </div>
-                          </li>
-                        );
-                      })}
-                    </ul>
-                  )}
-                </div>
+                          ))}
+                      </ComplexityEstimate>
+                    ))}
+                    {complexityProbes
+                      .filter((probe) => !complexityEntries.some((entry) => entry.name === probe.name))
+                      .map((probe) => (
+                        <li
+                          key={probe.probeId}
+                          className={[
+                            'rounded-md border p-2',
+                            isLight ? 'border-black/10 bg-black/[0.015]' : 'border-white/10 bg-black/10',
+                          ].join(' ')}
+                        >
+                          <div className={['mb-1 font-mono font-semibold', isLight ? 'text-[#0b1220]' : 'text-[#d7dce2]'].join(' ')}>
+                            {probe.name}
+                          </div>
+                          <ComplexityMeasurement probe={probe} isLight={isLight} />
+                        </li>
+                      ))}
+                  </ul>
+                )}
               </div>
-            )}
+            </div>
 
-            {/* Hidden-ish runner: sandboxed iframe */}
-            <iframe
-              key={iframeKey}
-              ref={iframeRef}
-              sandbox="allow-scripts"
-              srcDoc={srcDoc}
-              title="JSCompiler Runner"
-              className="h-0 w-0 border-0 opacity-0 pointer-events-none"
-            />
           </div>
         </div>
       </div>
@@ -1189,6 +2391,28 @@ export function JSCompilerPane() {
                       {isMac ? <CommandIcon size={14} /> : <span>Ctrl</span>}
                       <span>L</span>
                     </div>
+
+                    <div className={isLight ? 'text-[#0b1220]' : 'text-[#d7dce2]'}>Save file (project mode)</div>
+                    <div
+                      className={[
+                        'font-mono flex items-center gap-1',
+                        isLight ? 'text-[#2563eb]' : 'text-[#ffcc66]',
+                      ].join(' ')}
+                    >
+                      {isMac ? <CommandIcon size={14} /> : <span>Ctrl</span>}
+                      <span>S</span>
+                    </div>
+
+                    <div className={isLight ? 'text-[#0b1220]' : 'text-[#d7dce2]'}>Search in files (project mode)</div>
+                    <div
+                      className={[
+                        'font-mono flex items-center gap-1',
+                        isLight ? 'text-[#2563eb]' : 'text-[#ffcc66]',
+                      ].join(' ')}
+                    >
+                      {isMac ? <CommandIcon size={14} /> : <span>Ctrl</span>}
+                      <span>Shift F</span>
+                    </div>
                   </div>
                 </div>
 
@@ -1232,12 +2456,23 @@ export function JSCompilerPane() {
               </div>
 
               <div className={['mt-4 text-[12px]', isLight ? 'text-black/55' : 'text-[#8695b7]'].join(' ')}>
-                Note: code runs in a sandboxed iframe. Infinite loops can still freeze the tab (no “stop” yet).
+                Note: code runs in a sandboxed iframe or a Web Worker (Runner menu). Code that blocks longer than the selected timeout is stopped and the runner is reset.
               </div>
             </div>
           </div>
         </div>
       )}
+
+      {workspace.persistError && (
+        <StorageErrorDialog
+          message={workspace.persistError}
+          usage={workspace.storageUsage}
+          workspace={workspace.state}
+          isLight={isLight}
+          onRetry={workspace.retryPersist}
+          onDismiss={workspace.dismissPersistError}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import type { RemoteInspectResult, RemoteObjectValue, RemoteProperty, RemoteValue } from './remoteValue';
+import { formatRemoteValue } from './remoteValue';
+
+type InspectFn = (handle: number) => Promise<RemoteInspectResult>;
+
+type RemoteValueViewProps = {
+  value: RemoteValue;
+  isLight: boolean;
+  onInspect: InspectFn;
+  /** Top-level console arguments print strings unquoted. */
+  top?: boolean;
+  /** Start objects expanded (`console.dir`). */
+  defaultExpanded?: boolean;
+};
+
+function primitiveColor(kind: string, isLight: boolean): string {
+  switch (kind) {
+    case 'string':
+      return isLight ? 'text-[#b91c1c]' : 'text-[#f28b54]';
+    case 'number':
+    case 'bigint':
+    case 'boolean':
+      return isLight ? 'text-[#1d4ed8]' : 'text-[#9980ff]';
+    case 'symbol':
+      return isLight ? 'text-[#7c3aed]' : 'text-[#c792ea]';
+    default:
+      return isLight ? 'text-black/45' : 'text-[#8695b7]';
+  }
+}
+
+export function RemoteValueView({ value, isLight, onInspect, top = false, defaultExpanded = false }: RemoteValueViewProps) {
+  if (value.type === 'primitive') {
+    // Top-level strings inherit the line color (warn/error etc.).
+    if (top && value.kind === 'string') return <span>{value.text}</span>;
+    return <span className={primitiveColor(value.kind, isLight)}>{formatRemoteValue(value)}</span>;
+  }
+  if (value.type === 'function' || value.type === 'accessor') {
+    return <span className={['italic', isLight ? 'text-black/60' : 'text-[#a2aabc]'].join(' ')}>{formatRemoteValue(value)}</span>;
+  }
+  return <ObjectNode value={value} isLight={isLight} onInspect={onInspect} defaultExpanded={defaultExpanded} />;
+}
+
+type ObjectNodeProps = {
+  value: RemoteObjectValue;
+  isLight: boolean;
+  onInspect: InspectFn;
+  defaultExpanded: boolean;
+};
+
+function ObjectNode({ value, isLight, onInspect, defaultExpanded }: ObjectNodeProps) {
+  // Expanding by default only makes sense when the first level came along eagerly.
+  const [open, setOpen] = useState(defaultExpanded && !!value.properties);
+  const [loaded, setLoaded] = useState<RemoteInspectResult | null>(() =>
+    value.properties ? { properties: value.properties, truncated: value.truncated ?? 0 } : null
+  );
+  const [status, setStatus] = useState<'idle' | 'loading' | 'error'>('idle');
+
+  const toggle = () => {
+    const nextOpen = !open;
+    setOpen(nextOpen);
+    if (!nextOpen || loaded || status === 'loading') return;
+    setStatus('loading');
+    onInspect(value.handle).then(
+      (result) => {
+        setLoaded(result);
+        setStatus('idle');
+      },
+      () => setStatus('error')
+    );
+  };
+
+  const muted = isLight ? 'text-black/45' : 'text-[#8695b7]';
+
+  return (
+    <span className="inline">
+      <button
+        type="button"
+        onClick={toggle}
+        className={[
+          'inline text-left rounded-sm focus:outline-none focus:ring-1 whitespace-pre-wrap',
+          isLight ? 'hover:bg-black/5 focus:ring-black/15' : 'hover:bg-white/5 focus:ring-white/15',
+        ].join(' ')}
+        aria-expanded={open}
+      >
+        <span className={['inline-block w-3 select-none', muted].join(' ')}>{open ? '▾' : '▸'}</span>
+        {value.preview}
+      </button>
+      {open && (
+        <span className={['block ml-1.5 pl-3 border-l', isLight ? 'border-black/10' : 'border-white/10'].join(' ')}>
+          {status === 'loading' && <span className={['block', muted].join(' ')}>Loading…</span>}
+          {status === 'error' && (
+            <span className={['block', muted].join(' ')}>Value is no longer available (the runner was reset).</span>
+          )}
+          {loaded && (
+            <>
+              {loaded.properties.length === 0 && <span className={['block', muted].join(' ')}>No properties</span>}
+              {loaded.properties.map((prop, idx) => (
+                <PropertyRow key={`${prop.key}:${idx}`} prop={prop} isLight={isLight} onInspect={onInspect} />
+              ))}
+              {loaded.truncated > 0 && (
+                <span className={['block', muted].join(' ')}>… {loaded.truncated} more</span>
+              )}
+            </>
+          )}
+        </span>
+      )}
+    </span>
+  );
+}
+
+function PropertyRow({ prop, isLight, onInspect }: { prop: RemoteProperty; isLight: boolean; onInspect: InspectFn }) {
+  const keyColor = isLight ? 'text-[#7c3aed]' : 'text-[#c792ea]';
+  return (
+    <span className="block">
+      <span className={keyColor}>{prop.key}</span>
+      <span className={isLight ? 'text-black/45' : 'text-[#8695b7]'}>{prop.entry === 'map' ? ' => ' : ': '}</span>
+      <RemoteValueView value={prop.value} isLight={isLight} onInspect={onInspect} />
+    </span>
+  );
+}
@@ -0,0 +1,100 @@
+import type { Workspace } from '../editor/useWorkspace';
+import { EditorTabs } from '../editor/EditorTabs';
+import type { ProjectMode } from './useProjectMode';
+
+type ProjectEditorHeaderProps = {
+  workspace: Workspace;
+  project: ProjectMode;
+  isLight: boolean;
+};
+
+/** What sits above the project editor: the sync-conflict banner, the open tabs and the diff view's header. */
+export function ProjectEditorHeader({ workspace, project, isLight }: ProjectEditorHeaderProps) {
+  const { activeFile, comparison, syncConflict } = project;
+  return (
+    <>
+      {syncConflict && (
+        <div
+          role="alert"
+          className={[
+            'px-3 py-1.5 flex flex-wrap items-center justify-between gap-2 border-b text-xs',
+            isLight ? 'border-black/10 bg-[#fffbeb] text-[#b45309]' : 'border-white/10 bg-[#78350f]/30 text-[#fde68a]',
+          ].join(' ')}
+        >
+          <span className="min-w-0">
+            <span className="font-medium">{syncConflict.path}</span> was also changed in another tab.
+            {workspace.syncConflicts.length > 1 ? ` (${workspace.syncConflicts.length - 1} more file${workspace.syncConflicts.length > 2 ? 's' : ''})` : ''}
+          </span>
+          <span className="flex items-center gap-1">
+            {[
+              { label: 'Compare', onClick: () => project.setComparing({ kind: 'conflict', fileId: syncConflict.fileId }) },
+              { label: 'Keep mine', onClick: () => project.resolveConflict(syncConflict.fileId, 'mine') },
+              { label: 'Use theirs', onClick: () => project.resolveConflict(syncConflict.fileId, 'theirs') },
+            ].map((action) => (
+              <button
+                key={action.label}
+                type="button"
+                onClick={action.onClick}
+                className={[
+                  'h-6 px-2 rounded-md font-medium focus:outline-none focus:ring-2',
+                  isLight ? 'hover:bg-black/5 focus:ring-black/15' : 'hover:bg-white/10 focus:ring-white/15',
+                ].join(' ')}
+              >
+                {action.label}
+              </button>
+            ))}
+          </span>
+        </div>
+      )}
+
+      <EditorTabs
+        tabs={project.editorTabs}
+        activeId={comparison ? null : (activeFile?.id ?? null)}
+        isLight={isLight}
+        onSelect={project.selectFile}
+        onClose={project.closeFile}
+      />
+
+      {comparison && (
+        <div
+          className={[
+            'px-3 py-1.5 flex flex-wrap items-center justify-between gap-2 border-b text-xs',
+            isLight ? 'border-black/10 text-black/60' : 'border-white/10 text-[#a2aabc]',
+          ].join(' ')}
+        >
+          <span className="min-w-0 truncate">
+            <span className="font-medium">{comparison.path}</span>
+            <span className={isLight ? 'text-black/50' : 'text-[#8695b7]'}>
+              {' '}
+              · {comparison.label} ↔ current
+            </span>
+          </span>
+          <span className="flex items-center gap-1">
+            {comparison.snapshotId && comparison.original !== undefined && comparison.original !== comparison.modified && (
+              <button
+                type="button"
+                onClick={() => comparison.snapshotId && workspace.restoreSnapshotFile(comparison.snapshotId, comparison.path)}
+                className={[
+                  'h-6 px-2 rounded-md font-medium focus:outline-none focus:ring-2',
+                  isLight ? 'hover:bg-black/5 focus:ring-black/15' : 'hover:bg-white/10 focus:ring-white/15',
+                ].join(' ')}
+              >
+                Restore this file
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => project.setComparing(null)}
+              className={[
+                'h-6 px-2 rounded-md focus:outline-none focus:ring-2',
+                isLight ? 'hover:bg-black/5 focus:ring-black/15' : 'hover:bg-white/10 focus:ring-white/15',
+              ].join(' ')}
+            >
+              Close
+            </button>
+          </span>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,104 @@
+import type { Workspace } from '../editor/useWorkspace';
+import { Explorer } from '../editor/Explorer';
+import { Trash } from '../editor/Trash';
+import { WorkspaceArchiveControls } from '../editor/WorkspaceArchiveControls';
+import { HistoryPanel } from '../editor/HistoryPanel';
+import { SearchPanel } from '../editor/SearchPanel';
+import type { SearchMatch } from '../editor/workspaceSearch';
+import { StorageMeter } from '../editor/StorageStatus';
+import type { ProjectMode } from './useProjectMode';
+
+type ProjectSidebarProps = {
+  workspace: Workspace;
+  project: ProjectMode;
+  isLight: boolean;
+  onOpenMatch: (path: string, match: SearchMatch) => void;
+};
+
+/** Project mode's sidebar: archive import/export, then the Files, Search and History views. */
+export function ProjectSidebar({ workspace, project, isLight, onOpenMatch }: ProjectSidebarProps) {
+  return (
+    <div className="h-full flex flex-col">
+      <div className={['px-2 pt-1.5 border-b', isLight ? 'border-black/10' : 'border-white/10'].join(' ')}>
+        <WorkspaceArchiveControls workspace={workspace.state} isLight={isLight} onImport={workspace.importArchive} />
+      </div>
+      <div className="px-2 pt-1.5 flex items-center gap-1" role="tablist" aria-label="Sidebar views">
+        {(['files', 'search', 'history'] as const).map((view) => (
+          <button
+            key={view}
+            type="button"
+            role="tab"
+            aria-selected={project.sidebarView === view}
+            onClick={() => project.setSidebarView(view)}
+            className={[
+              'h-6 px-2 rounded-md text-[12px] font-medium transition-colors focus:outline-none focus:ring-2',
+              project.sidebarView === view
+                ? isLight
+                  ? 'bg-black/5 text-[#0b1220]/85 focus:ring-black/15'
+                  : 'bg-white/10 text-[#d7dce2] focus:ring-white/15'
+                : isLight
+                  ? 'text-black/45 hover:bg-black/5 focus:ring-black/15'
+                  : 'text-[#8695b7] hover:bg-white/5 focus:ring-white/15',
+            ].join(' ')}
+          >
+            {view === 'files' ? 'Files' : view === 'search' ? 'Search' : `History${workspace.snapshots.length > 0 ? ` (${workspace.snapshots.length})` : ''}`}
+          </button>
+        ))}
+      </div>
+      {!workspace.loaded ? (
+        <div className={['flex-1 px-3 py-2 text-xs', isLight ? 'text-black/50' : 'text-[#8695b7]'].join(' ')}>
+          Loading workspace…
+        </div>
+      ) : project.sidebarView === 'files' ? (
+        <>
+          <div className="flex-1 min-h-0 overflow-auto p-1 text-xs">
+            <Explorer
+              workspace={workspace.state}
+              activeFileIds={[project.activeFile?.id ?? null]}
+              onOpenFile={project.openFile}
+              isLight={isLight}
+              actions={workspace}
+            />
+          </div>
+          <Trash
+            entries={workspace.trash}
+            isLight={isLight}
+            onRestore={workspace.restoreFromTrash}
+            onDeleteForever={workspace.deleteFromTrash}
+            onEmpty={workspace.emptyTrash}
+          />
+        </>
+      ) : project.sidebarView === 'history' ? (
+        <div className="flex-1 min-h-0 overflow-auto">
+          <HistoryPanel
+            snapshots={workspace.snapshots}
+            current={workspace.state}
+            isLight={isLight}
+            autoSnapshots={workspace.autoSnapshots}
+            onAutoSnapshotsChange={workspace.setAutoSnapshots}
+            onSave={workspace.saveAll}
+            comparing={project.comparison && project.comparing?.kind === 'snapshot' ? project.comparing : null}
+            onCompare={(snapshotId, path) => project.setComparing({ kind: 'snapshot', snapshotId, path })}
+            onRestoreFile={workspace.restoreSnapshotFile}
+            onRestoreWorkspace={workspace.restoreSnapshot}
+            onDelete={workspace.deleteSnapshot}
+          />
+        </div>
+      ) : null}
+      {workspace.loaded && (
+        // Stays mounted so the query and options survive switching views.
+        <div className={project.sidebarView === 'search' ? 'flex-1 min-h-0 overflow-auto' : 'hidden'}>
+          <SearchPanel
+            workspace={workspace.state}
+            isLight={isLight}
+            active={project.sidebarView === 'search'}
+            focusRequest={project.searchFocusRequest}
+            onOpenMatch={onOpenMatch}
+            onReplace={workspace.replaceInFiles}
+          />
+        </div>
+      )}
+      <StorageMeter usage={workspace.storageUsage} isLight={isLight} />
+    </div>
+  );
+}
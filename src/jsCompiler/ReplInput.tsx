@@ -0,0 +1,196 @@
+import { useRef, useState, type KeyboardEvent } from 'react';
+import { isIncompleteReplInput } from './repl';
+
+const MAX_SUGGESTIONS = 8;
+const MAX_ROWS = 8;
+
+type ReplInputProps = {
+  history: string[];
+  /** Names offered for completion (globals defined by the snippet and earlier entries). */
+  completions: string[];
+  disabled: boolean;
+  isLight: boolean;
+  onSubmit: (source: string) => void;
+  onReset: () => void;
+};
+
+function wordBeforeCaret(value: string, caret: number): string {
+  const m = /[A-Za-z_$][\w$]*$/.exec(value.slice(0, caret));
+  if (!m) return '';
+  // Property access (`obj.fo`) isn't completed; only bare identifiers are.
+  return value[caret - m[0].length - 1] === '.' ? '' : m[0];
+}
+
+export function ReplInput({ history, completions, disabled, isLight, onSubmit, onReset }: ReplInputProps) {
+  const [value, setValue] = useState('');
+  const [caret, setCaret] = useState(0);
+  // Position while browsing history (null = editing a new entry, kept in `draft`).
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+  const [suggestionsClosed, setSuggestionsClosed] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+
+  const word = wordBeforeCaret(value, caret);
+  const suggestions =
+    word && !suggestionsClosed
+      ? completions
+          .filter((name) => name.startsWith(word) && name !== word)
+          .sort()
+          .slice(0, MAX_SUGGESTIONS)
+      : [];
+  const active = Math.min(highlighted, Math.max(0, suggestions.length - 1));
+  const muted = isLight ? 'text-black/45' : 'text-[#8695b7]';
+
+  // Controlled value changes reset the selection; put the caret back after React re-renders.
+  const moveCaret = (position: number) => {
+    requestAnimationFrame(() => textareaRef.current?.setSelectionRange(position, position));
+  };
+
+  const update = (next: string, nextCaret: number) => {
+    setValue(next);
+    setCaret(nextCaret);
+    setHighlighted(0);
+    setSuggestionsClosed(false);
+  };
+
+  const showHistory = (index: number | null) => {
+    const next = index === null ? draft : history[index];
+    setHistoryIndex(index);
+    setValue(next);
+    setCaret(next.length);
+    setSuggestionsClosed(true);
+    moveCaret(next.length);
+  };
+
+  const accept = (name: string) => {
+    const start = caret - word.length;
+    const nextCaret = start + name.length;
+    update(value.slice(0, start) + name + value.slice(caret), nextCaret);
+    setSuggestionsClosed(true);
+    moveCaret(nextCaret);
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    const target = e.currentTarget;
+    const before = value.slice(0, target.selectionStart);
+    const after = value.slice(target.selectionEnd);
+
+    if (e.key === 'Enter' && !e.shiftKey && !e.metaKey && !e.ctrlKey) {
+      // Unfinished input (open brackets, trailing operator) continues on the next line.
+      if (!value.trim() || isIncompleteReplInput(value)) return;
+      e.preventDefault();
+      onSubmit(value);
+      setHistoryIndex(null);
+      setDraft('');
+      update('', 0);
+      return;
+    }
+
+    if (e.key === 'Tab' && !e.shiftKey) {
+      e.preventDefault();
+      if (suggestions.length > 0) {
+        accept(suggestions[active]);
+      } else {
+        update(`${before}  ${after}`, before.length + 2);
+        moveCaret(before.length + 2);
+      }
+      return;
+    }
+
+    if (e.key === 'Escape' && suggestions.length > 0) {
+      e.preventDefault();
+      setSuggestionsClosed(true);
+      return;
+    }
+
+    if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      const up = e.key === 'ArrowUp';
+      if (suggestions.length > 0) {
+        e.preventDefault();
+        setHighlighted((active + (up ? suggestions.length - 1 : 1)) % suggestions.length);
+        return;
+      }
+      // History only takes over on the first/last line, so multi-line entries stay editable.
+      if (up && !before.includes('\n') && history.length > 0) {
+        e.preventDefault();
+        if (historyIndex === null) setDraft(value);
+        showHistory(historyIndex === null ? history.length - 1 : Math.max(0, historyIndex - 1));
+      } else if (!up && !after.includes('\n') && historyIndex !== null) {
+        e.preventDefault();
+        showHistory(historyIndex >= history.length - 1 ? null : historyIndex + 1);
+      }
+    }
+  };
+
+  return (
+    <div
+      className={[
+        'shrink-0 border-t px-3 py-2 font-mono text-[12px] leading-5',
+        isLight ? 'border-black/10 bg-white/70' : 'border-white/10 bg-black/10',
+      ].join(' ')}
+    >
+      {suggestions.length > 0 && (
+        <div className="mb-1 flex flex-wrap gap-1" role="listbox" aria-label="Completions">
+          {suggestions.map((name, idx) => (
+            <button
+              key={name}
+              type="button"
+              role="option"
+              aria-selected={idx === active}
+              onMouseDown={(e) => {
+                // Keep focus in the textarea.
+                e.preventDefault();
+                accept(name);
+              }}
+              className={[
+                'px-1.5 rounded-sm border',
+                idx === active
+                  ? isLight
+                    ? 'border-black/25 bg-black/5 text-[#0b1220]'
+                    : 'border-white/25 bg-white/10 text-[#d7dce2]'
+                  : isLight
+                    ? 'border-black/10 text-black/60'
+                    : 'border-white/10 text-[#a2aabc]',
+              ].join(' ')}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex items-start gap-2">
+        <span className={['select-none', muted].join(' ')}>›</span>
+        <textarea
+          ref={textareaRef}
+          value={value}
+          rows={Math.min(MAX_ROWS, value.split('\n').length)}
+          disabled={disabled}
+          onChange={(e) => update(e.target.value, e.target.selectionStart)}
+          onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+          onKeyDown={onKeyDown}
+          spellCheck={false}
+          aria-label="REPL input"
+          placeholder={disabled ? 'Runner is loading…' : 'Evaluate in the last run (Enter to run, Shift+Enter for a new line)'}
+          className={[
+            'flex-1 min-w-0 resize-none bg-transparent focus:outline-none',
+            isLight ? 'placeholder:text-black/35' : 'text-[#d7dce2] placeholder:text-[#6679a4]',
+          ].join(' ')}
+        />
+        <button
+          type="button"
+          onClick={onReset}
+          className={[
+            'h-5 px-2 rounded-md text-[11px] border transition-colors focus:outline-none focus:ring-2',
+            isLight
+              ? 'border-black/15 text-[#0b1220]/70 hover:bg-black/5 focus:ring-black/15'
+              : 'border-white/15 text-[#a2aabc] hover:bg-white/10 focus:ring-white/15',
+          ].join(' ')}
+          title="Discard the session and start a fresh runner"
+        >
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import { useState } from 'react';
+import { matchesSnippetQuery, type Snippet } from './snippetStore';
+
+type SnippetLibraryProps = {
+  snippets: Snippet[];
+  /** Most recently opened first. */
+  recent: Snippet[];
+  activeId: string | null;
+  isLight: boolean;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onSetTags: (id: string, tags: string[]) => void;
+  onDelete: (id: string) => void;
+};
+
+// `list` keeps the editor in the list it was opened from (a snippet can be in both).
+type Editing = { id: string; list: string; field: 'name' | 'tags'; value: string };
+
+export function SnippetLibrary({
+  snippets,
+  recent,
+  activeId,
+  isLight,
+  onOpen,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onSetTags,
+  onDelete,
+}: SnippetLibraryProps) {
+  const [query, setQuery] = useState('');
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState<string | null>(null);
+
+  const muted = isLight ? 'text-black/50' : 'text-[#8695b7]';
+  const inputClass = [
+    'w-full h-7 px-2 rounded-md border text-xs focus:outline-none focus:ring-2',
+    isLight
+      ? 'border-black/15 bg-white text-[#0b1220] focus:ring-black/15'
+      : 'border-white/15 bg-[#0f1420] text-[#d7dce2] focus:ring-white/15',
+  ].join(' ');
+  const actionClass = ['px-1 rounded focus:outline-none focus:ring-1', isLight ? 'hover:bg-black/5' : 'hover:bg-white/10'].join(
+    ' '
+  );
+
+  const allTags = [...new Set(snippets.flatMap((s) => s.tags))].sort();
+  const queryTerms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const toggleTag = (tag: string) => {
+    const term = `#${tag}`;
+    setQuery(queryTerms.includes(term) ? queryTerms.filter((t) => t !== term).join(' ') : [...queryTerms, term].join(' '));
+  };
+  const matches = query.trim()
+    ? snippets.filter((s) => matchesSnippetQuery(s, query))
+    : [...snippets].sort((a, b) => a.name.localeCompare(b.name));
+
+  const commitEdit = () => {
+    if (!editing) return;
+    if (editing.field === 'name') onRename(editing.id, editing.value);
+    else onSetTags(editing.id, editing.value.split(','));
+    setEditing(null);
+  };
+
+  const renderSnippet = (snippet: Snippet, listKey: string) => {
+    const isActive = snippet.id === activeId;
+    const isEditing = editing?.id === snippet.id && editing.list === listKey;
+    return (
+      <li key={`${listKey}:${snippet.id}`} className="group">
+        <div
+          className={[
+            'rounded-md px-2 py-1',
+            isActive ? (isLight ? 'bg-black/[0.06]' : 'bg-[#2f3b54]') : isLight ? 'hover:bg-black/[0.03]' : 'hover:bg-white/5',
+          ].join(' ')}
+        >
+          {isEditing ? (
+            <input
+              autoFocus
+              value={editing.value}
+              onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+              onBlur={commitEdit}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitEdit();
+                if (e.key === 'Escape') setEditing(null);
+              }}
+              placeholder={editing.field === 'tags' ? 'tags, comma separated' : 'Snippet name'}
+              aria-label={editing.field === 'tags' ? 'Tags' : 'Snippet name'}
+              className={inputClass}
+            />
+          ) : (
+            <button
+              type="button"
+              onClick={() => onOpen(snippet.id)}
+              className="w-full min-w-0 text-left focus:outline-none"
+              title={`Updated ${new Date(snippet.updatedAt).toLocaleString()}`}
+            >
+              <span className="flex items-center gap-1.5">
+                <span className="truncate font-medium">{snippet.name}</span>
+                <span className={['shrink-0 text-[10px] uppercase', muted].join(' ')}>{snippet.language}</span>
+              </span>
+              {snippet.tags.length > 0 && (
+                <span className={['block truncate text-[11px]', muted].join(' ')}>
+                  {snippet.tags.map((t) => `#${t}`).join(' ')}
+                </span>
+              )}
+            </button>
+          )}
+          {!isEditing && (
+            <div
+              className={[
+                'mt-0.5 flex items-center gap-1 text-[11px]',
+                muted,
+                isActive || confirmingDelete === snippet.id ? '' : 'hidden group-hover:flex group-focus-within:flex',
+              ].join(' ')}
+            >
+              {confirmingDelete === snippet.id ? (
+                <>
+                  <span>Delete?</span>
+                  <button
+                    type="button"
+                    className={[actionClass, isLight ? 'text-[#b91c1c]' : 'text-[#ff7b72]'].join(' ')}
+                    onClick={() => {
+                      setConfirmingDelete(null);
+                      onDelete(snippet.id);
+                    }}
+                  >
+                    Yes
+                  </button>
+                  <button type="button" className={actionClass} onClick={() => setConfirmingDelete(null)}>
+                    No
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    className={actionClass}
+                    onClick={() => setEditing({ id: snippet.id, list: listKey, field: 'name', value: snippet.name })}
+                  >
+                    Rename
+                  </button>
+                  <button
+                    type="button"
+                    className={actionClass}
+                    onClick={() => setEditing({ id: snippet.id, list: listKey, field: 'tags', value: snippet.tags.join(', ') })}
+                  >
+                    Tags
+                  </button>
+                  <button type="button" className={actionClass} onClick={() => onDuplicate(snippet.id)}>
+                    Duplicate
+                  </button>
+                  <button type="button" className={actionClass} onClick={() => setConfirmingDelete(snippet.id)}>
+                    Delete
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <div className="h-full min-h-0 flex flex-col text-xs">
+      <div className="p-2 space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <span className={['font-medium uppercase tracking-wide text-[11px]', muted].join(' ')}>Snippets</span>
+          <button
+            type="button"
+            onClick={onCreate}
+            className={['h-6 px-2 rounded-md font-medium focus:outline-none focus:ring-2', isLight ? 'hover:bg-black/5 focus:ring-black/15' : 'hover:bg-white/10 focus:ring-white/15'].join(' ')}
+            title="New snippet"
+          >
+            + New
+          </button>
+        </div>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search, or #tag"
+          aria-label="Search snippets"
+          className={inputClass}
+        />
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {allTags.map((tag) => {
+              const selected = queryTerms.includes(`#${tag}`);
+              return (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => toggleTag(tag)}
+                  aria-pressed={selected}
+                  className={[
+                    'px-1.5 rounded-full border text-[11px] focus:outline-none',
+                    selected
+                      ? 'border-[#2563eb] bg-[#2563eb] text-white'
+                      : isLight
+                        ? 'border-black/15 text-black/60 hover:bg-black/5'
+                        : 'border-white/15 text-[#a2aabc] hover:bg-white/10',
+                  ].join(' ')}
+                >
+                  #{tag}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto px-2 pb-2 space-y-3">
+        {!query.trim() && recent.length > 0 && (
+          <div>
+            <div className={['px-2 mb-1 text-[11px]', muted].join(' ')}>Recent</div>
+            <ul className="space-y-0.5">{recent.map((s) => renderSnippet(s, 'recent'))}</ul>
+          </div>
+        )}
+        <div>
+          <div className={['px-2 mb-1 text-[11px]', muted].join(' ')}>
+            {query.trim() ? `${matches.length} found` : 'All snippets'}
+          </div>
+          <ul className="space-y-0.5">{matches.map((s) => renderSnippet(s, 'all'))}</ul>
+        </div>
+      </div>
+    </div>
+  );
+}
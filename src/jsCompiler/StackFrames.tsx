@@ -0,0 +1,41 @@
+import { formatSourceLocation, type SourceLocation, type StackFrame } from './stackTrace';
+
+type StackFramesProps = {
+  frames: StackFrame[];
+  isLight: boolean;
+  /** Locations for which this returns false (files not open in the editor) render as plain text. */
+  canReveal: (location: SourceLocation) => boolean;
+  onReveal: (location: SourceLocation) => void;
+};
+
+export function StackFrames({ frames, isLight, canReveal, onReveal }: StackFramesProps) {
+  const muted = isLight ? 'text-black/50' : 'text-[#8695b7]';
+
+  return (
+    <span className={['block pl-4', muted].join(' ')}>
+      {frames.map((frame, idx) => {
+        const label = formatSourceLocation(frame.location);
+        const location = canReveal(frame.location) ? (
+          <button
+            type="button"
+            onClick={() => onReveal(frame.location)}
+            className={[
+              'underline underline-offset-2 focus:outline-none focus:ring-1 rounded-sm',
+              isLight ? 'text-[#1d4ed8] focus:ring-black/15' : 'text-[#79c0ff] focus:ring-white/15',
+            ].join(' ')}
+            title="Go to location in editor"
+          >
+            {label}
+          </button>
+        ) : (
+          <span>{label}</span>
+        );
+        return (
+          <span key={idx} className="block">
+            at {frame.name ? <>{frame.name} ({location})</> : location}
+          </span>
+        );
+      })}
+    </span>
+  );
+}
@@ -0,0 +1,50 @@
+import { useState } from 'react';
+
+type StdinInputProps = {
+  prompt: string;
+  defaultValue: string;
+  /** Number of requests queued behind this one. */
+  queued: number;
+  isLight: boolean;
+  /** Called with the entered line, or null when the user cancels (Escape). */
+  onSubmit: (value: string | null) => void;
+};
+
+export function StdinInput({ prompt, defaultValue, queued, isLight, onSubmit }: StdinInputProps) {
+  const [value, setValue] = useState(defaultValue);
+  const muted = isLight ? 'text-black/45' : 'text-[#8695b7]';
+
+  return (
+    <form
+      className="flex items-center gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit(value);
+      }}
+    >
+      {prompt && <span className="whitespace-pre-wrap">{prompt}</span>}
+      <span className={['select-none', muted].join(' ')}>›</span>
+      <input
+        autoFocus
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key !== 'Escape') return;
+          e.preventDefault();
+          e.stopPropagation();
+          onSubmit(null);
+        }}
+        aria-label={prompt || 'Program input'}
+        placeholder="Type input, Enter to send, Esc to cancel"
+        spellCheck={false}
+        className={[
+          'flex-1 min-w-0 h-6 px-2 rounded-md border bg-transparent font-mono text-[12px] focus:outline-none focus:ring-2',
+          isLight
+            ? 'border-black/15 placeholder:text-black/35 focus:ring-black/15'
+            : 'border-white/15 placeholder:text-[#6679a4] focus:ring-white/15',
+        ].join(' ')}
+      />
+      {queued > 0 && <span className={['text-[11px] select-none', muted].join(' ')}>+{queued} waiting</span>}
+    </form>
+  );
+}
@@ -0,0 +1,101 @@
+import { diffLines } from './diff';
+import { StackFrames } from './StackFrames';
+import type { SourceLocation } from './stackTrace';
+import { countTestResults, type TestRun } from './testRun';
+
+type TestResultsProps = {
+  run: TestRun | null;
+  isLight: boolean;
+  canReveal: (location: SourceLocation) => boolean;
+  onReveal: (location: SourceLocation) => void;
+};
+
+function formatDuration(ms: number): string {
+  return ms < 1 ? '<1 ms' : ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(2)} s`;
+}
+
+function AssertionDiff({ expected, actual, isLight }: { expected: string; actual: string; isLight: boolean }) {
+  const removed = isLight ? 'text-[#15803d]' : 'text-[#7ee787]';
+  const added = isLight ? 'text-[#b91c1c]' : 'text-[#ff7b72]';
+  return (
+    <div
+      className={[
+        'mt-1 rounded-md border px-2 py-1',
+        isLight ? 'border-black/10 bg-black/[0.02]' : 'border-white/10 bg-black/20',
+      ].join(' ')}
+    >
+      <div className="mb-1">
+        <span className={removed}>- Expected</span>
+        <span className={['ml-3', added].join(' ')}>+ Received</span>
+      </div>
+      {diffLines(expected, actual).map((line, idx) => (
+        <div
+          key={idx}
+          className={line.kind === 'removed' ? removed : line.kind === 'added' ? added : isLight ? 'text-black/55' : 'text-[#a2aabc]'}
+        >
+          {line.kind === 'removed' ? '- ' : line.kind === 'added' ? '+ ' : '  '}
+          {line.text}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function TestResults({ run, isLight, canReveal, onReveal }: TestResultsProps) {
+  const muted = isLight ? 'text-black/50' : 'text-[#8695b7]';
+
+  if (!run) {
+    return (
+      <div className={muted}>
+        No tests yet. Use <code>describe</code>, <code>it</code> and <code>expect</code> in your code and run it.
+      </div>
+    );
+  }
+
+  const counts = countTestResults(run.results);
+  const pass = isLight ? 'text-[#15803d]' : 'text-[#7ee787]';
+  const fail = isLight ? 'text-[#b91c1c]' : 'text-[#ff7b72]';
+
+  return (
+    <div>
+      <div className="mb-2 flex flex-wrap items-center gap-x-3">
+        {counts.fail > 0 && <span className={fail}>{counts.fail} failed</span>}
+        <span className={counts.pass > 0 ? pass : muted}>{counts.pass} passed</span>
+        {counts.skip > 0 && <span className={muted}>{counts.skip} skipped</span>}
+        <span className={muted}>{run.total} total</span>
+        <span className={muted}>
+          {run.durationMs === null
+            ? `running… (${run.results.length}/${run.total})`
+            : `in ${formatDuration(run.durationMs)}`}
+        </span>
+      </div>
+      <ul className="space-y-1">
+        {run.results.map((result) => (
+          <li key={result.testId} className="whitespace-pre-wrap wrap-break-word">
+            <div className="flex items-baseline gap-2">
+              <span className={['w-3 shrink-0 select-none', result.status === 'pass' ? pass : result.status === 'fail' ? fail : muted].join(' ')}>
+                {result.status === 'pass' ? '✓' : result.status === 'fail' ? '✗' : '○'}
+              </span>
+              <span className={['flex-1 min-w-0', result.status === 'skip' ? muted : ''].join(' ')}>
+                {result.suite.length > 0 && <span className={muted}>{result.suite.join(' › ')} › </span>}
+                {result.name}
+              </span>
+              {result.status !== 'skip' && <span className={['shrink-0', muted].join(' ')}>{formatDuration(result.durationMs)}</span>}
+            </div>
+            {result.status === 'fail' && (
+              <div className="pl-5">
+                {result.error && <div className={fail}>{result.error}</div>}
+                {result.diff && (result.diff.expected.includes('\n') || result.diff.actual.includes('\n')) && (
+                  <AssertionDiff expected={result.diff.expected} actual={result.diff.actual} isLight={isLight} />
+                )}
+                {result.frames && result.frames.length > 0 && (
+                  <StackFrames frames={result.frames} isLight={isLight} canReveal={canReveal} onReveal={onReveal} />
+                )}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
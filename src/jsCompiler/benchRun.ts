@@ -0,0 +1,25 @@
+export type BenchResult =
+  | {
+      benchId: string;
+      name: string;
+      ok: true;
+      opsPerSec: number;
+      meanMs: number;
+      /** Relative margin of error (95% confidence), in percent. */
+      rme: number;
+      samples: number;
+      iterations: number;
+    }
+  | { benchId: string; name: string; ok: false; error: string };
+
+export type BenchRun = {
+  /** Distinguishes batches; a REPL entry can start another batch in the same runner. */
+  id: string;
+  ts: number;
+  total: number;
+  results: BenchResult[];
+  done: boolean;
+};
+
+/** Earlier batches kept around for comparison, newest first. */
+export const MAX_BENCH_RUNS = 5;
@@ -0,0 +1,159 @@
+/** Default sampling time per benchmark. */
+export const DEFAULT_BENCH_TIME_MS = 500;
+
+/**
+ * `bench(name, fn, { time })` for the runner realm, spliced into the runner
+ * script (see runnerSrcDoc.ts) like the test framework. Benchmarks registered
+ * by the snippet run after its tests: each one is warmed up, its batch size is
+ * grown until a batch is long enough to time reliably, and batches are sampled
+ * until the time budget is spent. The runner yields between batches so the
+ * heartbeat (and with it the execution budget) keeps ticking.
+ */
+export function benchmarkScript(): string {
+  return `
+        let pendingBenches = [];
+        let nextBenchId = 1;
+        let benchesRunning = false;
+        // A batch shorter than this is dominated by timer resolution.
+        const MIN_BATCH_MS = 10;
+        const WARMUP_MS = 50;
+        // Two-tailed 95% Student's t critical values by degrees of freedom (1-30).
+        const T_TABLE = [
+          12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+          2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086,
+          2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042
+        ];
+
+        window.bench = function (name, fn, options) {
+          const time = options && typeof options.time === 'number' && options.time > 0 ? options.time : ${DEFAULT_BENCH_TIME_MS};
+          pendingBenches.push({ id: String(nextBenchId), name: String(name), fn: fn, timeMs: time });
+          nextBenchId += 1;
+        };
+
+        function yieldToEventLoop() {
+          return new Promise(function (resolve) { setTimeout(resolve, 0); });
+        }
+
+        // Runs \`count\` calls and resolves to the elapsed milliseconds. Async
+        // functions are awaited one call at a time.
+        function timeBatch(bench, count) {
+          const started = performance.now();
+          if (!bench.async) {
+            for (let i = 0; i < count; i += 1) bench.fn();
+            return Promise.resolve(performance.now() - started);
+          }
+          let chain = Promise.resolve();
+          for (let i = 0; i < count; i += 1) chain = chain.then(function () { return bench.fn(); });
+          return chain.then(function () { return performance.now() - started; });
+        }
+
+        function summarize(samples) {
+          const n = samples.length;
+          const mean = samples.reduce(function (sum, s) { return sum + s; }, 0) / n;
+          const variance = n > 1 ? samples.reduce(function (sum, s) { return sum + (s - mean) * (s - mean); }, 0) / (n - 1) : 0;
+          const sem = Math.sqrt(variance / n);
+          const df = n - 1;
+          const critical = df < 1 ? 0 : df <= T_TABLE.length ? T_TABLE[df - 1] : 1.96;
+          const moe = sem * critical;
+          return {
+            meanMs: mean,
+            rme: mean > 0 ? (moe / mean) * 100 : 0,
+            opsPerSec: mean > 0 ? 1000 / mean : Infinity
+          };
+        }
+
+        function measure(bench) {
+          if (typeof bench.fn !== 'function') return Promise.reject(new TypeError('bench() needs a function'));
+          const samples = [];
+          let batchSize = 1;
+          let iterations = 0;
+          let deadline = 0;
+          // The first call tells sync and async benchmarks apart.
+          return Promise.resolve()
+            .then(function () {
+              const first = bench.fn();
+              bench.async = !!first && typeof first.then === 'function';
+              return first;
+            })
+            .then(function warmup() {
+              const until = performance.now() + WARMUP_MS;
+              function step() {
+                if (performance.now() >= until) return undefined;
+                return timeBatch(bench, batchSize).then(yieldToEventLoop).then(step);
+              }
+              return step();
+            })
+            .then(function () {
+              function calibrate() {
+                return timeBatch(bench, batchSize).then(function (elapsed) {
+                  if (elapsed >= MIN_BATCH_MS || batchSize >= 1 << 30) return undefined;
+                  batchSize *= elapsed > 0 ? Math.min(10, Math.max(2, Math.ceil(MIN_BATCH_MS / elapsed))) : 10;
+                  return yieldToEventLoop().then(calibrate);
+                });
+              }
+              return calibrate();
+            })
+            .then(function () {
+              deadline = performance.now() + bench.timeMs;
+              function sample() {
+                if (timedOut) return undefined;
+                return timeBatch(bench, batchSize).then(function (elapsed) {
+                  samples.push(elapsed / batchSize);
+                  iterations += batchSize;
+                  if (performance.now() >= deadline && samples.length >= 5) return undefined;
+                  return yieldToEventLoop().then(sample);
+                });
+              }
+              return sample();
+            })
+            .then(function () {
+              const stats = summarize(samples);
+              stats.samples = samples.length;
+              stats.iterations = iterations;
+              return stats;
+            });
+        }
+
+        function runPendingBenchmarks() {
+          if (benchesRunning || pendingBenches.length === 0 || timedOut) return Promise.resolve();
+          const benches = pendingBenches;
+          pendingBenches = [];
+          benchesRunning = true;
+          const runId = window.__RUN_ID__ || '';
+          post({ type: 'BENCH_RUN', total: benches.length, runId: runId });
+          let chain = Promise.resolve();
+          benches.forEach(function (bench) {
+            chain = chain.then(function () {
+              if (timedOut) return undefined;
+              return measure(bench).then(function (stats) {
+                post({
+                  type: 'BENCH_RESULT',
+                  benchId: bench.id,
+                  name: bench.name,
+                  opsPerSec: stats.opsPerSec,
+                  meanMs: stats.meanMs,
+                  rme: stats.rme,
+                  samples: stats.samples,
+                  iterations: stats.iterations,
+                  runId: runId
+                });
+              }, function (e) {
+                post({
+                  type: 'BENCH_RESULT',
+                  benchId: bench.id,
+                  name: bench.name,
+                  error: formatErrorMessage(e, String(e)),
+                  runId: runId
+                });
+              });
+            });
+          });
+          return chain.then(function () {
+            benchesRunning = false;
+            if (timedOut) return undefined;
+            post({ type: 'BENCH_RUN_END', runId: runId });
+            return runPendingBenchmarks();
+          });
+        }
+`;
+}
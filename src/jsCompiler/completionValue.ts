@@ -0,0 +1,44 @@
+import { parse, type ExpressionStatement } from 'acorn';
+
+/** Export through which a module snippet hands its last expression's value to the runner. */
+export const RESULT_EXPORT_NAME = '__jscResult__';
+
+export type CompletionMode = 'script' | 'module';
+
+function lastExpressionStatement(code: string, mode: CompletionMode): ExpressionStatement | null {
+  try {
+    const program = parse(code, {
+      ecmaVersion: 'latest',
+      sourceType: mode,
+      allowAwaitOutsideFunction: true,
+      allowReturnOutsideFunction: mode === 'script',
+      allowHashBang: true,
+    });
+    const last = program.body.filter((node) => node.type !== 'EmptyStatement').pop();
+    if (!last || last.type !== 'ExpressionStatement' || last.directive !== undefined) return null;
+    return last;
+  } catch {
+    // Leave unparsable code alone; the runner reports the syntax error itself.
+    return null;
+  }
+}
+
+/**
+ * Rewrites the snippet's final expression statement so the runner can show its
+ * value: `return (expr);` for scripts (which run as an async function body) or
+ * `export const __jscResult__ = (expr);` for modules. Everything stays on its
+ * original line so stack locations are unaffected.
+ */
+export function captureCompletionValue(code: string, mode: CompletionMode): string {
+  const statement = lastExpressionStatement(code, mode);
+  if (!statement) return code;
+  const { expression } = statement;
+  const prefix = mode === 'script' ? 'return (' : `export const ${RESULT_EXPORT_NAME} = (`;
+  return (
+    code.slice(0, statement.start) +
+    prefix +
+    code.slice(expression.start, expression.end) +
+    ');' +
+    code.slice(statement.end)
+  );
+}
@@ -0,0 +1,707 @@
+import {
+  parse,
+  type AnyNode,
+  type CallExpression,
+  type Expression,
+  type ForStatement,
+  type Program,
+} from 'acorn';
+import { originalPositionFor } from './sourceMap';
+
+export type ComplexityEvidence = {
+  kind: 'loop' | 'callback' | 'builtin' | 'call' | 'recursion';
+  /** Short name for one-line summaries, e.g. `for loop` or `.sort()`. */
+  label: string;
+  description: string;
+  /** 1-based, in the original source. */
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+};
+
+export type ComplexityEntry = {
+  name: string;
+  complexity: string;
+  reason: string;
+  /** One line for inline annotations, e.g. `2 nested for loops`. */
+  summary: string;
+  /** Amortized / average-case caveats that the Big-O alone doesn't tell. */
+  notes: string[];
+  /** Every loop, callback, costly built-in, call and recursion found, in source order. */
+  evidence: ComplexityEvidence[];
+  /** The loops, calls and recursive call sites the estimate comes from. */
+  responsible: ComplexityEvidence[];
+  startLine: number;
+  endLine: number;
+};
+
+type FunctionNode = Extract<AnyNode, { type: 'FunctionDeclaration' | 'FunctionExpression' | 'ArrowFunctionExpression' }>;
+
+/** exp: exponential; otherwise n^poly · log^log n. */
+type Growth = { exp: boolean; poly: number; log: number };
+
+type Cost = Growth & {
+  /** Evidence along the most expensive path, outermost first. */
+  chain: ComplexityEvidence[];
+};
+
+type Unit = {
+  name: string;
+  /** Class or object the function is a member of (`this.x()` resolves within it). */
+  owner: string | null;
+  key: string;
+  node: FunctionNode;
+};
+
+type UnitResult = {
+  cost: Cost;
+  notes: string[];
+  evidence: ComplexityEvidence[];
+  /** Call sites of the recursion, when the function is recursive. */
+  recursiveCalls: ComplexityEvidence[];
+};
+
+const CONSTANT: Cost = { exp: false, poly: 0, log: 0, chain: [] };
+const LINEAR: Growth = { exp: false, poly: 1, log: 0 };
+const LOGARITHMIC: Growth = { exp: false, poly: 0, log: 1 };
+const LINEARITHMIC: Growth = { exp: false, poly: 1, log: 1 };
+
+const ITERATION_METHODS = new Set([
+  'forEach', 'map', 'filter', 'reduce', 'reduceRight', 'some', 'every', 'find', 'findIndex', 'findLast',
+  'findLastIndex', 'flatMap',
+]);
+const LINEAR_METHODS = new Set([
+  'includes', 'indexOf', 'lastIndexOf', 'slice', 'concat', 'join', 'reverse', 'splice', 'shift', 'unshift', 'fill',
+  'flat', 'toSorted', 'toReversed', 'toSpliced', 'with', 'split', 'repeat', 'padStart', 'padEnd', 'replaceAll',
+]);
+const LINEAR_STATIC_CALLS = new Set([
+  'Array.from', 'Object.keys', 'Object.values', 'Object.entries', 'Object.assign', 'Object.fromEntries',
+  'JSON.stringify', 'JSON.parse', 'structuredClone', 'Math.max', 'Math.min',
+]);
+const HASH_METHODS = new Set(['has', 'get', 'set', 'add', 'delete']);
+const MEMO_NAME_RE = /memo|cache|visited|seen|dp/i;
+
+function compareGrowth(a: Growth, b: Growth): number {
+  if (a.exp !== b.exp) return a.exp ? 1 : -1;
+  if (a.poly !== b.poly) return a.poly - b.poly;
+  return a.log - b.log;
+}
+
+function maxCost(...costs: Cost[]): Cost {
+  return costs.reduce((best, c) => (compareGrowth(c, best) > 0 ? c : best), CONSTANT);
+}
+
+function times(outer: Growth, evidence: ComplexityEvidence, inner: Cost): Cost {
+  return {
+    exp: outer.exp || inner.exp,
+    poly: outer.poly + inner.poly,
+    log: outer.log + inner.log,
+    chain: [evidence, ...inner.chain],
+  };
+}
+
+export function formatGrowth(g: Growth): string {
+  if (g.exp) return 'O(2^n)';
+  const parts: string[] = [];
+  if (g.poly === 0.5) parts.push('√n');
+  else if (g.poly === 1) parts.push('n');
+  else if (g.poly > 0) parts.push(`n^${g.poly}`);
+  if (g.log === 1) parts.push('log n');
+  else if (g.log > 1) parts.push(`log^${g.log} n`);
+  return `O(${parts.join(' ') || '1'})`;
+}
+
+function isNode(v: unknown): v is AnyNode {
+  return !!v && typeof v === 'object' && typeof (v as { type?: unknown }).type === 'string';
+}
+
+function childNodes(node: AnyNode): AnyNode[] {
+  const out: AnyNode[] = [];
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'loc') continue;
+    if (Array.isArray(value)) value.forEach((v) => isNode(v) && out.push(v));
+    else if (isNode(value)) out.push(value);
+  }
+  return out;
+}
+
+function isFunctionNode(node: AnyNode): node is FunctionNode {
+  return node.type === 'FunctionDeclaration' || node.type === 'FunctionExpression' || node.type === 'ArrowFunctionExpression';
+}
+
+function propertyName(node: AnyNode, computed: boolean): string | null {
+  if (!computed && node.type === 'Identifier') return node.name;
+  if (node.type === 'PrivateIdentifier') return `#${node.name}`;
+  if (node.type === 'Literal' && (typeof node.value === 'string' || typeof node.value === 'number')) return String(node.value);
+  return null;
+}
+
+function collectUnits(program: Program): Unit[] {
+  const units: Unit[] = [];
+  const seen = new Set<string>();
+  const add = (owner: string | null, key: string, node: AnyNode | null | undefined) => {
+    if (!node || !isFunctionNode(node)) return;
+    const name = owner ? `${owner}.${key}` : key;
+    if (seen.has(name)) return;
+    seen.add(name);
+    units.push({ name, owner, key, node });
+  };
+  const addMembers = (owner: string, node: AnyNode | null | undefined) => {
+    if (!node) return;
+    if (node.type === 'ObjectExpression') {
+      node.properties.forEach((p) => {
+        if (p.type !== 'Property') return;
+        const key = propertyName(p.key, p.computed);
+        if (key) add(owner, key, p.value);
+      });
+    } else if (node.type === 'ClassExpression' || node.type === 'ClassDeclaration') {
+      node.body.body.forEach((member) => {
+        if (member.type !== 'MethodDefinition' && member.type !== 'PropertyDefinition') return;
+        const key = propertyName(member.key, member.computed);
+        if (key) add(owner, key, member.value);
+      });
+    }
+  };
+
+  const visit = (node: AnyNode) => {
+    if (node.type === 'FunctionDeclaration' && node.id) add(null, node.id.name, node);
+    if (node.type === 'ClassDeclaration' && node.id) addMembers(node.id.name, node);
+    if (node.type === 'VariableDeclarator' && node.id.type === 'Identifier') {
+      add(null, node.id.name, node.init);
+      addMembers(node.id.name, node.init);
+    }
+    if (node.type === 'AssignmentExpression') {
+      const { left } = node;
+      if (left.type === 'Identifier') add(null, left.name, node.right);
+      else if (left.type === 'MemberExpression' && left.object.type === 'Identifier') {
+        const key = propertyName(left.property, left.computed);
+        if (key) add(left.object.name, key, node.right);
+      }
+    }
+    childNodes(node).forEach(visit);
+  };
+  visit(program);
+  return units;
+}
+
+/** Resolves the function a call targets, if it's one of the analyzed units. */
+function resolveCall(call: CallExpression, from: Unit, units: Unit[]): Unit | null {
+  const { callee } = call;
+  if (callee.type === 'Identifier') return units.find((u) => u.owner === null && u.key === callee.name) ?? null;
+  if (callee.type !== 'MemberExpression') return null;
+  const key = propertyName(callee.property, callee.computed);
+  if (!key) return null;
+  if (callee.object.type === 'ThisExpression') return units.find((u) => u.owner === from.owner && u.key === key) ?? null;
+  if (callee.object.type === 'Identifier') {
+    const owner = callee.object.name;
+    return units.find((u) => u.owner === owner && u.key === key) ?? null;
+  }
+  return null;
+}
+
+function methodName(call: CallExpression): string | null {
+  const { callee } = call;
+  if (callee.type !== 'MemberExpression') return null;
+  return propertyName(callee.property, callee.computed);
+}
+
+function staticCallName(call: CallExpression): string | null {
+  const { callee } = call;
+  if (callee.type === 'Identifier') return callee.name;
+  if (callee.type === 'MemberExpression' && callee.object.type === 'Identifier') {
+    const key = propertyName(callee.property, callee.computed);
+    return key ? `${callee.object.name}.${key}` : null;
+  }
+  return null;
+}
+
+function identifiersIn(node: AnyNode | null | undefined, out = new Set<string>()): Set<string> {
+  if (!node) return out;
+  if (node.type === 'Identifier') out.add(node.name);
+  if (!isFunctionNode(node)) childNodes(node).forEach((c) => identifiersIn(c, out));
+  return out;
+}
+
+function isNumberLiteral(node: AnyNode | null | undefined): boolean {
+  return !!node && node.type === 'Literal' && typeof node.value === 'number';
+}
+
+/** `x / 2`, `x >> 1`, `x * 0.5`, `Math.floor(x / 2)`: an expression that halves a value. */
+function isHalving(node: AnyNode | null | undefined): boolean {
+  if (!node) return false;
+  if (node.type === 'BinaryExpression') {
+    const { operator, right } = node;
+    if ((operator === '/' || operator === '>>' || operator === '>>>') && isNumberLiteral(right)) return true;
+    if (operator === '*' && right.type === 'Literal' && typeof right.value === 'number' && right.value < 1) return true;
+  }
+  if (isFunctionNode(node)) return false;
+  return childNodes(node).some(isHalving);
+}
+
+/** Assignments in `body` that scale one of `vars` geometrically (`i *= 2`, `n = n >> 1`, `hi = mid`...). */
+function scalesGeometrically(body: AnyNode, vars: Set<string>, halvingNames: Set<string>): boolean {
+  let found = false;
+  const visit = (node: AnyNode) => {
+    if (found || isFunctionNode(node)) return;
+    if (node.type === 'VariableDeclarator' && node.id.type === 'Identifier' && isHalving(node.init)) {
+      halvingNames.add(node.id.name);
+    }
+    if (node.type === 'AssignmentExpression' && node.left.type === 'Identifier' && vars.has(node.left.name)) {
+      const { operator, right } = node;
+      if (['*=', '/=', '>>=', '>>>=', '<<='].includes(operator)) found = true;
+      else if (operator === '=') {
+        found =
+          isHalving(right) ||
+          [...identifiersIn(right)].some((n) => halvingNames.has(n)) ||
+          (right.type === 'BinaryExpression' && right.operator === '*' && isNumberLiteral(right.right));
+      }
+    }
+    childNodes(node).forEach(visit);
+  };
+  visit(body);
+  return found;
+}
+
+type LoopShape = { growth: Growth; label: string };
+
+function forLoopShape(node: ForStatement): LoopShape {
+  const { init, test, update } = node;
+  const loopVars = identifiersIn(update);
+  const initialized =
+    init?.type === 'VariableDeclaration' ? init.declarations.every((d) => !d.init || isNumberLiteral(d.init)) : !init || isNumberLiteral(init);
+  if (test?.type === 'BinaryExpression' && initialized) {
+    const { left, right } = test;
+    const counterOnLeft = [...identifiersIn(left)].some((name) => loopVars.has(name));
+    const counter = counterOnLeft ? left : right;
+    const bound = counterOnLeft ? right : left;
+    if (isNumberLiteral(bound)) return { growth: { exp: false, poly: 0, log: 0 }, label: 'constant bounds' };
+    // `i * i <= n` (the counter squared, not just any product) or `i <= Math.sqrt(n)`
+    const squared =
+      counter.type === 'BinaryExpression' &&
+      counter.operator === '*' &&
+      counter.left.type === 'Identifier' &&
+      counter.right.type === 'Identifier' &&
+      counter.left.name === counter.right.name &&
+      loopVars.has(counter.left.name);
+    if (squared || (bound.type === 'CallExpression' && staticCallName(bound) === 'Math.sqrt')) {
+      return { growth: { exp: false, poly: 0.5, log: 0 }, label: 'O(√n) iterations' };
+    }
+  }
+  if (update && scalesGeometrically(update, loopVars, new Set())) return { growth: LOGARITHMIC, label: 'O(log n) iterations (geometric step)' };
+  return { growth: LINEAR, label: 'O(n) iterations' };
+}
+
+function whileLoopShape(test: Expression, body: AnyNode): LoopShape {
+  const vars = identifiersIn(test);
+  if (scalesGeometrically(body, vars, new Set())) return { growth: LOGARITHMIC, label: 'O(log n) iterations (range halves)' };
+  return { growth: LINEAR, label: 'O(n) iterations' };
+}
+
+type Analysis = {
+  unit: Unit;
+  units: Unit[];
+  scc: Set<Unit>;
+  locate: (node: AnyNode) => Location;
+  notes: Set<string>;
+  evidence: ComplexityEvidence[];
+  recursiveCalls: CallExpression[];
+  loopDepth: number;
+  unitCost: (unit: Unit) => UnitResult;
+};
+
+type Location = Pick<ComplexityEvidence, 'startLine' | 'startColumn' | 'endLine' | 'endColumn'>;
+
+function evidenceFor(
+  a: Analysis,
+  kind: ComplexityEvidence['kind'],
+  label: string,
+  description: string,
+  node: AnyNode
+): ComplexityEvidence {
+  const e = { kind, label, description, ...a.locate(node) };
+  a.evidence.push(e);
+  return e;
+}
+
+function costOfNodes(nodes: Array<AnyNode | null | undefined>, a: Analysis): Cost {
+  return maxCost(...nodes.map((n) => (n ? costOf(n, a) : CONSTANT)));
+}
+
+function costOfLoop(a: Analysis, shape: LoopShape, label: string, node: AnyNode, body: AnyNode, extra: Array<AnyNode | null | undefined>): Cost {
+  const evidence = evidenceFor(a, 'loop', shape.growth.log > 0 ? `O(log n) ${label}` : label, `${label}, ${shape.label}`, node);
+  a.loopDepth += 1;
+  const inner = costOfNodes([body, ...extra], a);
+  a.loopDepth -= 1;
+  return times(shape.growth, evidence, inner);
+}
+
+function costOfCall(node: CallExpression, a: Analysis): Cost {
+  const parts = [costOfNodes([node.callee.type === 'Super' ? null : node.callee, ...node.arguments], a)];
+  const method = methodName(node);
+  const callback = node.arguments[0];
+
+  const target = resolveCall(node, a.unit, a.units);
+  if (target && a.scc.has(target)) {
+    a.recursiveCalls.push(node);
+  } else if (target && target !== a.unit) {
+    const callee = a.unitCost(target);
+    callee.notes.forEach((n) => a.notes.add(n));
+    const evidence = evidenceFor(a, 'call', `${target.name}()`, `calls ${target.name}(), ${formatGrowth(callee.cost)}`, node);
+    parts.push({ ...callee.cost, chain: [evidence, ...callee.cost.chain] });
+  } else if (method && ITERATION_METHODS.has(method) && callback && isFunctionNode(callback)) {
+    const evidence = evidenceFor(a, 'callback', `.${method}()`, `.${method}() callback, O(n) calls`, node);
+    a.loopDepth += 1;
+    const inner = costOf(callback.body, a);
+    a.loopDepth -= 1;
+    parts.push(times(LINEAR, evidence, inner));
+  } else if (method === 'sort' || method === 'toSorted') {
+    const evidence = evidenceFor(a, 'builtin', `.${method}()`, `.${method}(), O(n log n)`, node);
+    parts.push(times(LINEARITHMIC, evidence, callback && isFunctionNode(callback) ? costOf(callback.body, a) : CONSTANT));
+  } else if (method && LINEAR_METHODS.has(method)) {
+    if ((method === 'shift' || method === 'unshift') && a.loopDepth > 0) {
+      a.notes.add(`.${method}() re-indexes the whole array on each call; a head index or a deque keeps it O(1).`);
+    }
+    parts.push(times(LINEAR, evidenceFor(a, 'builtin', `.${method}()`, `.${method}(), O(n)`, node), CONSTANT));
+  } else if (LINEAR_STATIC_CALLS.has(staticCallName(node) ?? '')) {
+    parts.push(times(LINEAR, evidenceFor(a, 'builtin', `${staticCallName(node)}()`, `${staticCallName(node)}(), O(n)`, node), CONSTANT));
+  } else if (method === 'push' && a.loopDepth > 0) {
+    a.notes.add('.push() in a loop is amortized O(1): the array occasionally grows and copies.');
+  } else if (method && HASH_METHODS.has(method) && a.loopDepth > 0) {
+    a.notes.add(`Map/Set .${method}() is O(1) on average (hashing); the worst case is rare.`);
+  }
+
+  // Callbacks that aren't iterated (e.g. passed to a helper) run at least once.
+  node.arguments.forEach((arg) => {
+    if (arg !== callback || !(method && ITERATION_METHODS.has(method))) {
+      if (isFunctionNode(arg) && method !== 'sort' && method !== 'toSorted') parts.push(costOf(arg.body, a));
+    }
+  });
+  return maxCost(...parts);
+}
+
+function costOf(node: AnyNode, a: Analysis): Cost {
+  switch (node.type) {
+    case 'FunctionDeclaration':
+    case 'FunctionExpression':
+    case 'ArrowFunctionExpression':
+      // Named functions are separate units; inline ones are costed where they are called.
+      return CONSTANT;
+    case 'ForStatement':
+      return maxCost(
+        costOfNodes([node.init], a),
+        costOfLoop(a, forLoopShape(node), 'for loop', node, node.body, [node.test, node.update])
+      );
+    case 'ForOfStatement':
+    case 'ForInStatement': {
+      const literal = node.right.type === 'ArrayExpression' || node.right.type === 'ObjectExpression';
+      const shape: LoopShape = literal
+        ? { growth: { exp: false, poly: 0, log: 0 }, label: 'over a literal' }
+        : { growth: LINEAR, label: 'O(n) iterations' };
+      return maxCost(
+        costOf(node.right, a),
+        costOfLoop(a, shape, node.type === 'ForOfStatement' ? 'for…of loop' : 'for…in loop', node, node.body, [])
+      );
+    }
+    case 'WhileStatement':
+      return costOfLoop(a, whileLoopShape(node.test, node.body), 'while loop', node, node.body, [node.test]);
+    case 'DoWhileStatement':
+      return costOfLoop(a, whileLoopShape(node.test, node.body), 'do…while loop', node, node.body, [node.test]);
+    case 'CallExpression':
+      return costOfCall(node, a);
+    case 'NewExpression': {
+      const name = node.callee.type === 'Identifier' ? node.callee.name : '';
+      const inner = costOfNodes(node.arguments, a);
+      if ((name === 'Set' || name === 'Map') && node.arguments.length > 0) {
+        return maxCost(inner, times(LINEAR, evidenceFor(a, 'builtin', `new ${name}()`, `new ${name}(iterable), O(n)`, node), CONSTANT));
+      }
+      return inner;
+    }
+    case 'SpreadElement':
+      return maxCost(costOf(node.argument, a), times(LINEAR, evidenceFor(a, 'builtin', 'spread', 'spread copy, O(n)', node), CONSTANT));
+    default:
+      return costOfNodes(childNodes(node), a);
+  }
+}
+
+/** Recursive calls on one execution path; exclusive branches count once. */
+function recursiveCallsPerInvocation(node: AnyNode, calls: Set<AnyNode>, inLoop: boolean): number {
+  if (isFunctionNode(node) && !inLoop) {
+    return 0;
+  }
+  if (calls.has(node)) {
+    return (inLoop ? 2 : 1) + childNodes(node).reduce((s, c) => s + recursiveCallsPerInvocation(c, calls, inLoop), 0);
+  }
+  if (node.type === 'IfStatement' || node.type === 'ConditionalExpression') {
+    return (
+      recursiveCallsPerInvocation(node.test, calls, inLoop) +
+      Math.max(
+        recursiveCallsPerInvocation(node.consequent, calls, inLoop),
+        node.alternate ? recursiveCallsPerInvocation(node.alternate, calls, inLoop) : 0
+      )
+    );
+  }
+  const loops = ['ForStatement', 'ForOfStatement', 'ForInStatement', 'WhileStatement', 'DoWhileStatement'];
+  const nextInLoop =
+    inLoop ||
+    loops.includes(node.type) ||
+    (node.type === 'CallExpression' && ITERATION_METHODS.has(methodName(node) ?? ''));
+  return childNodes(node).reduce((s, c) => s + recursiveCallsPerInvocation(c, calls, nextInLoop), 0);
+}
+
+type Shrink = 'halve' | 'decrement' | 'unknown';
+
+function shrinkOf(call: CallExpression): Shrink {
+  const args = call.arguments;
+  const halves = args.some(
+    (arg) =>
+      isHalving(arg) ||
+      [...identifiersIn(arg)].some((n) => /^mid/i.test(n)) ||
+      (arg.type === 'CallExpression' && methodName(arg) === 'slice' && arg.arguments.some((x) => isHalving(x) || [...identifiersIn(x)].some((n) => /^mid/i.test(n))))
+  );
+  if (halves) return 'halve';
+  const decrements = args.some(
+    (arg) =>
+      (arg.type === 'BinaryExpression' && (arg.operator === '-' || arg.operator === '+') && isNumberLiteral(arg.right)) ||
+      (arg.type === 'CallExpression' && ['slice', 'substring', 'substr'].includes(methodName(arg) ?? '')) ||
+      (arg.type === 'UpdateExpression')
+  );
+  return decrements ? 'decrement' : 'unknown';
+}
+
+/** A lookup table consulted before recursing (memo/cache/visited): each input is solved once. */
+function usesMemo(body: AnyNode): boolean {
+  let found = false;
+  const visit = (node: AnyNode) => {
+    if (found) return;
+    if (node.type === 'CallExpression' && methodName(node) === 'has' && node.callee.type === 'MemberExpression') {
+      if ([...identifiersIn(node.callee.object)].some((n) => MEMO_NAME_RE.test(n))) found = true;
+    }
+    if (node.type === 'MemberExpression' && node.computed && node.object.type === 'Identifier' && MEMO_NAME_RE.test(node.object.name)) {
+      found = true;
+    }
+    if (node.type === 'BinaryExpression' && node.operator === 'in' && [...identifiersIn(node.right)].some((n) => MEMO_NAME_RE.test(n))) {
+      found = true;
+    }
+    if (!isFunctionNode(node) || node === body) childNodes(node).forEach(visit);
+  };
+  visit(body);
+  return found;
+}
+
+/** Strongly connected components of the call graph (Tarjan). */
+function callGraphComponents(units: Unit[]): Map<Unit, Set<Unit>> {
+  const edges = new Map<Unit, Set<Unit>>();
+  units.forEach((unit) => {
+    const targets = new Set<Unit>();
+    const visit = (node: AnyNode) => {
+      if (node !== unit.node && units.some((u) => u.node === node)) return;
+      if (node.type === 'CallExpression') {
+        const target = resolveCall(node, unit, units);
+        if (target) targets.add(target);
+      }
+      childNodes(node).forEach(visit);
+    };
+    visit(unit.node);
+    edges.set(unit, targets);
+  });
+
+  const index = new Map<Unit, number>();
+  const stack: Unit[] = [];
+  const onStack = new Set<Unit>();
+  const components = new Map<Unit, Set<Unit>>();
+  let counter = 0;
+  // Returns v's low-link.
+  const strongConnect = (v: Unit): number => {
+    const vIndex = counter;
+    let vLow = counter;
+    index.set(v, vIndex);
+    counter += 1;
+    stack.push(v);
+    onStack.add(v);
+    (edges.get(v) ?? new Set()).forEach((w) => {
+      const wIndex = index.get(w);
+      if (wIndex === undefined) vLow = Math.min(vLow, strongConnect(w));
+      else if (onStack.has(w)) vLow = Math.min(vLow, wIndex);
+    });
+    if (vLow === vIndex) {
+      const component = new Set<Unit>();
+      let w: Unit | undefined;
+      do {
+        w = stack.pop();
+        if (!w) break;
+        onStack.delete(w);
+        component.add(w);
+      } while (w !== v);
+      // A lone function is only recursive if it calls itself.
+      const recursive = component.size > 1 || (edges.get(v)?.has(v) ?? false);
+      component.forEach((u) => components.set(u, recursive ? component : new Set()));
+    }
+    return vLow;
+  };
+  units.forEach((u) => {
+    if (!index.has(u)) strongConnect(u);
+  });
+  return components;
+}
+
+function analyzeUnit(
+  unit: Unit,
+  units: Unit[],
+  components: Map<Unit, Set<Unit>>,
+  locate: Analysis['locate'],
+  unitCost: (unit: Unit) => UnitResult
+): UnitResult {
+  const a: Analysis = {
+    unit,
+    units,
+    scc: components.get(unit) ?? new Set(),
+    locate,
+    notes: new Set(),
+    evidence: [],
+    recursiveCalls: [],
+    loopDepth: 0,
+    unitCost,
+  };
+  const work = costOf(unit.node.body, a);
+  const notes = a.notes;
+  const k = recursiveCallsPerInvocation(unit.node.body, new Set(a.recursiveCalls), false);
+  if (k === 0) return { cost: work, notes: [...notes], evidence: a.evidence, recursiveCalls: [] };
+
+  const others = [...a.scc].filter((u) => u !== unit).map((u) => u.name);
+  const mutual = others.length > 0 ? ` (mutually recursive with ${others.join(', ')})` : '';
+  const shrinks = a.recursiveCalls.map(shrinkOf);
+  const shrink: Shrink = shrinks.every((s) => s === 'halve') ? 'halve' : shrinks.includes('decrement') ? 'decrement' : 'unknown';
+  const first = a.recursiveCalls[0];
+  const recursion = (label: string, description: string) =>
+    evidenceFor(a, 'recursion', label, `${description}${mutual}`, first);
+
+  let cost: Cost;
+  if (usesMemo(unit.node.body)) {
+    notes.add('Results are memoized (or inputs marked visited), so each distinct input is solved once.');
+    cost = times(LINEAR, recursion('memoized recursion', `${k} recursive call${k === 1 ? '' : 's'}, memoized`), work);
+  } else if (shrink === 'halve' && k === 1) {
+    const evidence = recursion('halving recursion', '1 recursive call on a halved input');
+    cost = work.poly === 0 && !work.exp ? times(LOGARITHMIC, evidence, work) : { ...work, chain: [evidence, ...work.chain] };
+  } else if (shrink === 'halve') {
+    // Master theorem with b = 2: compare the work with n^log2(k).
+    const critical = Math.log2(k);
+    const evidence = recursion('divide and conquer', `${k} recursive calls on halved inputs (divide and conquer)`);
+    if (work.exp || work.poly > critical) cost = { ...work, chain: [evidence, ...work.chain] };
+    else if (work.poly === critical) cost = { exp: false, poly: critical, log: work.log + 1, chain: [evidence, ...work.chain] };
+    else cost = { exp: false, poly: critical, log: 0, chain: [evidence] };
+  } else if (k === 1) {
+    cost = times(LINEAR, recursion('linear recursion', '1 recursive call, input shrinks by a constant'), work);
+  } else {
+    cost = { exp: true, poly: 0, log: 0, chain: [recursion('branching recursion', `${k} recursive calls per invocation (branching recursion)`)] };
+  }
+  const recursiveCalls = a.recursiveCalls.map((call) => ({
+    kind: 'recursion' as const,
+    label: 'recursive call',
+    description: `recursive call${mutual}`,
+    ...locate(call),
+  }));
+  return { cost, notes: [...notes], evidence: a.evidence, recursiveCalls };
+}
+
+function describeChain(chain: ComplexityEvidence[], evidence: ComplexityEvidence[]): string {
+  if (chain.length === 0 && evidence.length > 0) return 'Every loop and call runs a constant number of times.';
+  if (chain.length === 0) return 'No loops, recursion or linear-time calls detected.';
+  const [first, ...rest] = chain;
+  const text = [first.description, ...rest.map((e) => `containing ${e.description}`)].join(', ');
+  return `${text.charAt(0).toUpperCase()}${text.slice(1)}.`;
+}
+
+/** `for loop › for loop › .includes()` becomes `2 nested for loops › .includes()`. */
+function summarizeChain(chain: ComplexityEvidence[], evidence: ComplexityEvidence[]): string {
+  if (chain.length === 0) return evidence.length > 0 ? 'constant-bound loops only' : 'no loops or recursion';
+  const parts: Array<{ label: string; count: number }> = [];
+  chain.forEach((e) => {
+    const last = parts[parts.length - 1];
+    if (last && last.label === e.label) last.count += 1;
+    else parts.push({ label: e.label, count: 1 });
+  });
+  return parts.map((p) => (p.count === 1 ? p.label : `${p.count} nested ${p.label}s`)).join(' › ');
+}
+
+function parseProgram(code: string): Program | null {
+  for (const sourceType of ['module', 'script'] as const) {
+    try {
+      return parse(code, {
+        ecmaVersion: 'latest',
+        sourceType,
+        locations: true,
+        allowAwaitOutsideFunction: true,
+        allowReturnOutsideFunction: sourceType === 'script',
+        allowHashBang: true,
+      });
+    } catch {
+      // try the next source type
+    }
+  }
+  return null;
+}
+
+/**
+ * Estimates the time complexity of every named function, method and function
+ * valued property in `code` (plain JavaScript; compile TS/JSX first and pass its
+ * source map so line numbers refer to the original file). Unparsable code
+ * yields no entries.
+ */
+export function analyzeComplexity(code: string, sourceMap: string | null = null): ComplexityEntry[] {
+  const program = parseProgram(code);
+  if (!program) return [];
+
+  // acorn columns are 0-based; everything handed out is 1-based.
+  const mapPosition = (pos: { line: number; column: number }) =>
+    (sourceMap ? originalPositionFor(sourceMap, pos.line, pos.column + 1) : null) ?? { line: pos.line, column: pos.column + 1 };
+  const locate = (node: AnyNode): Location => {
+    if (!node.loc) return { startLine: 1, startColumn: 1, endLine: 1, endColumn: 1 };
+    const start = mapPosition(node.loc.start);
+    const end = mapPosition(node.loc.end);
+    // An unmappable end (e.g. emitted helper code) collapses to the start.
+    return end.line < start.line || (end.line === start.line && end.column < start.column)
+      ? { startLine: start.line, startColumn: start.column, endLine: start.line, endColumn: start.column }
+      : { startLine: start.line, startColumn: start.column, endLine: end.line, endColumn: end.column };
+  };
+
+  const units = collectUnits(program);
+  const components = callGraphComponents(units);
+  const results = new Map<Unit, UnitResult>();
+  const inProgress = new Set<Unit>();
+  const unitCost = (unit: Unit): UnitResult => {
+    const cached = results.get(unit);
+    if (cached) return cached;
+    if (inProgress.has(unit)) return { cost: CONSTANT, notes: [], evidence: [], recursiveCalls: [] };
+    inProgress.add(unit);
+    const result = analyzeUnit(unit, units, components, locate, unitCost);
+    inProgress.delete(unit);
+    results.set(unit, result);
+    return result;
+  };
+
+  return units.map((unit) => {
+    const { cost, notes, evidence, recursiveCalls } = unitCost(unit);
+    const { startLine, endLine } = locate(unit.node);
+    return {
+      name: unit.name,
+      complexity: formatGrowth(cost),
+      reason: describeChain(cost.chain, evidence),
+      summary: summarizeChain(cost.chain, evidence),
+      notes,
+      evidence: [...evidence].sort((x, y) => x.startLine - y.startLine || x.startColumn - y.startColumn),
+      responsible: [...cost.chain, ...recursiveCalls].filter(
+        (e, idx, all) =>
+          all.findIndex(
+            (o) =>
+              o.startLine === e.startLine &&
+              o.startColumn === e.startColumn &&
+              o.endLine === e.endLine &&
+              o.endColumn === e.endColumn
+          ) === idx
+      ),
+      startLine,
+      endLine,
+    };
+  });
+}
@@ -0,0 +1,81 @@
+export type ComplexityPoint = { n: number; ms: number };
+
+export type ComplexityClass = 'O(1)' | 'O(log n)' | 'O(n)' | 'O(n log n)' | 'O(n^2)' | 'O(2^n)';
+
+export type ComplexityFit = {
+  complexity: ComplexityClass;
+  /** Fitted time in ms for input size n. */
+  predict: (n: number) => number;
+  /** Root mean square of the relative residuals. */
+  error: number;
+};
+
+// Simplest first: a more complex class has to fit clearly better to win.
+const MODELS: Array<{ complexity: ComplexityClass; growth: (n: number, maxN: number) => number }> = [
+  { complexity: 'O(1)', growth: () => 0 },
+  { complexity: 'O(log n)', growth: (n, maxN) => Math.log2(Math.max(n, 1)) / Math.log2(Math.max(maxN, 2)) },
+  { complexity: 'O(n)', growth: (n, maxN) => n / maxN },
+  {
+    complexity: 'O(n log n)',
+    growth: (n, maxN) => (n * Math.log2(Math.max(n, 1))) / (maxN * Math.log2(Math.max(maxN, 2))),
+  },
+  { complexity: 'O(n^2)', growth: (n, maxN) => (n / maxN) ** 2 },
+  // Normalized by 2^maxN so large sizes don't overflow.
+  { complexity: 'O(2^n)', growth: (n, maxN) => 2 ** (n - maxN) },
+];
+
+const MIN_POINTS = 3;
+const SIMPLER_MODEL_TOLERANCE = 1.1;
+
+/**
+ * Fits `ms ≈ a + b·g(n)` (a, b ≥ 0) for each complexity class by least squares
+ * on relative residuals, so the small sizes weigh as much as the large ones.
+ * Returns null with fewer than three points.
+ */
+export function fitComplexity(points: ComplexityPoint[]): { best: ComplexityFit; fits: ComplexityFit[] } | null {
+  const data = points.filter((p) => Number.isFinite(p.ms) && p.ms >= 0);
+  if (data.length < MIN_POINTS) return null;
+  const maxN = Math.max(...data.map((p) => p.n), 1);
+  const weights = data.map((p) => 1 / Math.max(p.ms, 1e-6) ** 2);
+
+  const fits = MODELS.map(({ complexity, growth }) => {
+    const g = data.map((p) => growth(p.n, maxN));
+    const sw = weights.reduce((s, w) => s + w, 0);
+    const swg = weights.reduce((s, w, i) => s + w * g[i], 0);
+    const swt = weights.reduce((s, w, i) => s + w * data[i].ms, 0);
+    const swgg = weights.reduce((s, w, i) => s + w * g[i] * g[i], 0);
+    const swgt = weights.reduce((s, w, i) => s + w * g[i] * data[i].ms, 0);
+    const det = sw * swgg - swg * swg;
+
+    let a = swt / sw;
+    let b = 0;
+    if (det > 1e-12 * sw * swgg) {
+      a = (swgg * swt - swg * swgt) / det;
+      b = (sw * swgt - swg * swt) / det;
+      if (b < 0) {
+        a = swt / sw;
+        b = 0;
+      } else if (a < 0) {
+        a = 0;
+        b = swgt / swgg;
+      }
+    }
+
+    const error = Math.sqrt(
+      data.reduce((s, p, i) => s + weights[i] * (p.ms - (a + b * g[i])) ** 2, 0) / data.length
+    );
+    return { complexity, predict: (n: number) => a + b * growth(n, maxN), error };
+  });
+
+  const lowest = Math.min(...fits.map((f) => f.error));
+  const best = fits.find((f) => f.error <= lowest * SIMPLER_MODEL_TOLERANCE + 1e-9) ?? fits[0];
+  return { best, fits };
+}
+
+/** One `complexity()` measurement from the runner. */
+export type ComplexityProbe = {
+  probeId: string;
+  name: string;
+  points: ComplexityPoint[];
+  error?: string;
+};
@@ -0,0 +1,133 @@
+/** Input sizes tried when `complexity()` gets no `sizes` option. */
+export const DEFAULT_COMPLEXITY_SIZES = [8, 16, 32, 64, 128, 256, 512, 1024, 2048, 4096, 8192, 16384, 32768, 65536];
+
+/** Total time one `complexity()` measurement may take by default. */
+export const DEFAULT_COMPLEXITY_TIME_MS = 2000;
+
+/**
+ * `complexity(fn, makeInput, { name, sizes, time })` for the runner realm,
+ * spliced into the runner script after the benchmark script. Each registered
+ * function is timed at growing input sizes (fresh inputs from `makeInput(n)`,
+ * built outside the timed section) and the per-call times are posted as
+ * COMPLEXITY_RESULT; fitting them to complexity classes happens in the parent.
+ * Sizes stop growing once a single call gets slow or the time budget is spent.
+ */
+export function complexityProbeScript(): string {
+  return `
+        let pendingProbes = [];
+        let nextProbeId = 1;
+        let probesRunning = false;
+        const PROBE_MIN_BATCH_MS = 5;
+        const PROBE_WARMUP_MS = 30;
+        const PROBE_MAX_CALL_MS = 100;
+        // Upper bound on input items alive at once (inputs × n), so fast functions
+        // on large inputs don't exhaust memory. Past it, a batch cycles through
+        // the inputs it has; only sublinear functions get there, and those
+        // rarely mutate their input.
+        const PROBE_MAX_INPUT_ITEMS = 200000;
+        const PROBE_MAX_BATCH = 1000000;
+
+        window.complexity = function (fn, makeInput, options) {
+          const opts = options || {};
+          const sizes = Array.isArray(opts.sizes) && opts.sizes.length > 0
+            ? opts.sizes.filter(function (n) { return typeof n === 'number' && n >= 0; }).sort(function (a, b) { return a - b; })
+            : ${JSON.stringify(DEFAULT_COMPLEXITY_SIZES)};
+          pendingProbes.push({
+            id: String(nextProbeId),
+            name: typeof opts.name === 'string' && opts.name ? opts.name : (fn && fn.name) || 'anonymous',
+            fn: fn,
+            makeInput: makeInput,
+            sizes: sizes,
+            timeMs: typeof opts.time === 'number' && opts.time > 0 ? opts.time : ${DEFAULT_COMPLEXITY_TIME_MS}
+          });
+          nextProbeId += 1;
+        };
+
+        function timeCalls(probe, n, count) {
+          const inputs = [];
+          const distinct = Math.min(count, Math.max(1, Math.floor(PROBE_MAX_INPUT_ITEMS / Math.max(1, n))));
+          for (let i = 0; i < distinct; i += 1) inputs.push(probe.makeInput(n));
+          const started = performance.now();
+          for (let i = 0; i < count; i += 1) probe.fn(inputs[i % distinct]);
+          return performance.now() - started;
+        }
+
+        // Resolves to the median per-call time at size n.
+        function timeAtSize(probe, n) {
+          const single = timeCalls(probe, n, 1);
+          // A single slow call is measurement enough.
+          if (single >= PROBE_MAX_CALL_MS) return Promise.resolve(single);
+          // Batch enough calls to get well above the timer resolution.
+          const count = single >= PROBE_MIN_BATCH_MS ? 1
+            : Math.min(PROBE_MAX_BATCH, single > 0 ? Math.ceil((2 * PROBE_MIN_BATCH_MS) / single) : PROBE_MAX_BATCH);
+          const samples = [];
+          function sample() {
+            if (samples.length >= 3) return undefined;
+            samples.push(timeCalls(probe, n, count) / count);
+            return yieldToEventLoop().then(sample);
+          }
+          return yieldToEventLoop().then(sample).then(function () {
+            samples.sort(function (a, b) { return a - b; });
+            return samples[1];
+          });
+        }
+
+        function probe(p) {
+          if (typeof p.fn !== 'function' || typeof p.makeInput !== 'function') {
+            return Promise.reject(new TypeError('complexity() needs a function and an input generator'));
+          }
+          const deadline = performance.now() + p.timeMs;
+          const points = [];
+          let index = 0;
+          // Let the JIT settle on the smallest size so it doesn't inflate the first points.
+          // Runs inside the promise chain so a throwing fn or makeInput rejects the probe.
+          function warmup() {
+            const warmupUntil = performance.now() + PROBE_WARMUP_MS;
+            while (p.sizes.length > 0 && performance.now() < warmupUntil) {
+              if (timeCalls(p, p.sizes[0], 1) >= PROBE_MAX_CALL_MS) break;
+            }
+          }
+          function next() {
+            if (timedOut || index >= p.sizes.length || performance.now() >= deadline) return points;
+            const n = p.sizes[index];
+            index += 1;
+            return timeAtSize(p, n).then(function (ms) {
+              points.push({ n: n, ms: ms });
+              if (ms >= PROBE_MAX_CALL_MS) return points;
+              return yieldToEventLoop().then(next);
+            });
+          }
+          return Promise.resolve().then(warmup).then(next);
+        }
+
+        function runPendingProbes() {
+          if (probesRunning || pendingProbes.length === 0 || timedOut) return Promise.resolve();
+          const probes = pendingProbes;
+          pendingProbes = [];
+          probesRunning = true;
+          const runId = window.__RUN_ID__ || '';
+          let chain = Promise.resolve();
+          probes.forEach(function (p) {
+            chain = chain.then(function () {
+              if (timedOut) return undefined;
+              return probe(p).then(function (points) {
+                post({ type: 'COMPLEXITY_RESULT', probeId: p.id, name: p.name, points: points, runId: runId });
+              }, function (e) {
+                post({
+                  type: 'COMPLEXITY_RESULT',
+                  probeId: p.id,
+                  name: p.name,
+                  points: [],
+                  error: formatErrorMessage(e, String(e)),
+                  runId: runId
+                });
+              });
+            });
+          });
+          return chain.then(function () {
+            probesRunning = false;
+            return runPendingProbes();
+          });
+        }
+`;
+}
@@ -0,0 +1,51 @@
+export type DiffLine = { kind: 'same' | 'removed' | 'added'; text: string };
+
+/**
+ * Line diff of `before` against `after` (longest common subsequence). Common
+ * leading and trailing lines are matched up front so typical edits stay cheap.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start += 1;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA -= 1;
+    endB -= 1;
+  }
+
+  const rows = endA - start;
+  const cols = endB - start;
+  // lcs[i * (cols + 1) + j] = LCS length of a[start + i..endA) and b[start + j..endB).
+  const lcs = new Uint32Array((rows + 1) * (cols + 1));
+  for (let i = rows - 1; i >= 0; i -= 1) {
+    for (let j = cols - 1; j >= 0; j -= 1) {
+      lcs[i * (cols + 1) + j] =
+        a[start + i] === b[start + j]
+          ? lcs[(i + 1) * (cols + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (cols + 1) + j], lcs[i * (cols + 1) + j + 1]);
+    }
+  }
+
+  const out: DiffLine[] = a.slice(0, start).map((text) => ({ kind: 'same', text }));
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && a[start + i] === b[start + j]) {
+      out.push({ kind: 'same', text: a[start + i] });
+      i += 1;
+      j += 1;
+    } else if (i < rows && (j === cols || lcs[(i + 1) * (cols + 1) + j] >= lcs[i * (cols + 1) + j + 1])) {
+      out.push({ kind: 'removed', text: a[start + i] });
+      i += 1;
+    } else {
+      out.push({ kind: 'added', text: b[start + j] });
+      j += 1;
+    }
+  }
+  a.slice(endA).forEach((text) => out.push({ kind: 'same', text }));
+  return out;
+}
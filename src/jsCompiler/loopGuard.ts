@@ -0,0 +1,113 @@
+import { parse, type AnyNode, type Program } from 'acorn';
+import { skipWhitespaceAndComments } from './sourceScan';
+
+export const LOOP_GUARD_NAME = '__jscLoopGuard__';
+
+type Insertion = {
+  index: number;
+  text: string;
+  /** Closes what an opening insertion of the same loop started. */
+  close: boolean;
+  /** Loop nesting depth, to order insertions that land on the same index. */
+  depth: number;
+};
+
+function isNode(v: unknown): v is AnyNode {
+  return !!v && typeof v === 'object' && typeof (v as { type?: unknown }).type === 'string';
+}
+
+function childNodes(node: AnyNode): AnyNode[] {
+  const out: AnyNode[] = [];
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'loc') continue;
+    if (Array.isArray(value)) value.forEach((v) => isNode(v) && out.push(v));
+    else if (isNode(value)) out.push(value);
+  }
+  return out;
+}
+
+function parseProgram(code: string, sourceType: 'script' | 'module'): Program | null {
+  try {
+    return parse(code, {
+      ecmaVersion: 'latest',
+      sourceType,
+      // Scripts run as an async function body (see captureCompletionValue).
+      allowAwaitOutsideFunction: true,
+      allowReturnOutsideFunction: sourceType === 'script',
+      allowHashBang: true,
+    });
+  } catch {
+    return null;
+  }
+}
+
+// The `;` that ends a `for` header's (possibly empty) init part.
+function forInitSemicolon(code: string, node: Extract<AnyNode, { type: 'ForStatement' }>): number {
+  let i = node.init ? node.init.end : skipWhitespaceAndComments(code, node.start + 3) + 1;
+  // Only whitespace, comments and the init's closing parentheses come before it.
+  while (i < code.length && code[i] !== ';') {
+    const next = skipWhitespaceAndComments(code, i);
+    i = next === i ? i + 1 : next;
+  }
+  return i;
+}
+
+/**
+ * Injects a call to the loop guard into every loop so the runner can abort
+ * snippets that block longer than the execution budget.
+ *
+ * `while`/`do...while` and classic `for` loops get the guard in their test
+ * expression (`while (guard() && (cond))`), which also covers bodies without
+ * braces. `for...in`/`for...of` loops get it as the first statement of their
+ * body (braced if it wasn't). Loops are found on the parsed AST, so strings,
+ * regex and template literals can't hide them. No newlines are added, so
+ * runtime line numbers still match the editor. Code that doesn't parse is
+ * returned unchanged; the runner reports the syntax error itself.
+ */
+export function instrumentLoops(code: string, sourceType: 'script' | 'module' = 'script'): string {
+  const program = parseProgram(code, sourceType);
+  if (!program) return code;
+  const insertions: Insertion[] = [];
+  const call = `${LOOP_GUARD_NAME}()`;
+
+  const visit = (node: AnyNode, depth: number) => {
+    let inner = depth;
+    if (node.type === 'WhileStatement' || node.type === 'DoWhileStatement' || node.type === 'ForStatement') {
+      inner = depth + 1;
+      if (node.test) {
+        insertions.push({ index: node.test.start, text: `${call} && (`, close: false, depth });
+        insertions.push({ index: node.test.end, text: ')', close: true, depth });
+      } else if (node.type === 'ForStatement') {
+        insertions.push({ index: forInitSemicolon(code, node) + 1, text: ` ${call}`, close: false, depth });
+      }
+    } else if (node.type === 'ForInStatement' || node.type === 'ForOfStatement') {
+      inner = depth + 1;
+      const { body } = node;
+      if (body.type === 'BlockStatement') {
+        insertions.push({ index: body.start + 1, text: ` ${call};`, close: false, depth });
+      } else {
+        insertions.push({ index: body.start, text: `{ ${call}; `, close: false, depth });
+        insertions.push({ index: body.end, text: ' }', close: true, depth });
+      }
+    }
+    childNodes(node).forEach((child) => visit(child, inner));
+  };
+  visit(program, 0);
+
+  if (insertions.length === 0) return code;
+
+  // At the same index, inner loops close before outer ones, and outer loops open first.
+  insertions.sort(
+    (a, b) =>
+      a.index - b.index ||
+      Number(b.close) - Number(a.close) ||
+      (a.close ? b.depth - a.depth : a.depth - b.depth)
+  );
+  let out = '';
+  let cursor = 0;
+  for (const ins of insertions) {
+    out += code.slice(cursor, ins.index) + ins.text;
+    cursor = ins.index;
+  }
+  return out + code.slice(cursor);
+}
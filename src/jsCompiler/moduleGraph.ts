@@ -0,0 +1,256 @@
+import type { WorkspaceState } from '../editor/workspaceTypes';
+import { isFile, listFiles } from '../editor/workspaceTypes';
+import { instrumentLoops } from './loopGuard';
+import { isKeywordAt, offsetToLineColumn, skipLiteral, skipWhitespaceAndComments } from './sourceScan';
+import { languageFromPath, transpileFile } from './transpile';
+
+/** Import-map key prefix; every module is addressed as `@workspace/<path>` inside the runner. */
+export const MODULE_KEY_PREFIX = '@workspace/';
+
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.json'];
+
+export type ImportReference = {
+  specifier: string;
+  /** Offset of the first character inside the quotes. */
+  start: number;
+  line: number;
+  column: number;
+};
+
+export type ModuleSource = { path: string; source: string };
+
+export type UnresolvedImport = {
+  importer: string;
+  specifier: string;
+  line: number;
+  column: number;
+  reason: string;
+};
+
+export type ModuleRecord = ModuleSource & {
+  /** Specifier → resolved workspace path. */
+  resolved: Record<string, string>;
+};
+
+export type ModuleGraph = {
+  entry: string;
+  modules: ModuleRecord[];
+  unresolved: UnresolvedImport[];
+};
+
+export type CompiledModule = { key: string; path: string; code: string; sourceMap: string | null };
+
+export type CompiledModuleGraph =
+  | { ok: true; entryKey: string; modules: CompiledModule[] }
+  | { ok: false; errors: string[] };
+
+const STATIC_IMPORT_RE = /import\s+(?:type\s+)?[\w$*{}\s,]+?\s+from\s*(['"])([^'"\n]+)\1/y;
+const SIDE_EFFECT_IMPORT_RE = /import\s*(['"])([^'"\n]+)\1/y;
+const DYNAMIC_IMPORT_RE = /import\s*\(\s*(['"])([^'"\n]+)\1\s*\)/y;
+const REEXPORT_RE = /export\s+(?:type\s+)?(?:\*(?:\s+as\s+[\w$]+)?|\{[^}]*\})\s*from\s*(['"])([^'"\n]+)\1/y;
+
+function matchAt(re: RegExp, code: string, i: number): RegExpExecArray | null {
+  re.lastIndex = i;
+  return re.exec(code);
+}
+
+/** Finds static imports, re-exports and literal dynamic `import('...')` calls outside strings and comments. */
+export function parseImports(source: string): ImportReference[] {
+  const refs: ImportReference[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const skipped = skipLiteral(source, i);
+    if (skipped !== i) {
+      i = skipped;
+      continue;
+    }
+    if (!isKeywordAt(source, i, 'import') && !isKeywordAt(source, i, 'export')) {
+      i += 1;
+      continue;
+    }
+
+    const m = source.startsWith('import', i)
+      ? matchAt(DYNAMIC_IMPORT_RE, source, i) ?? matchAt(SIDE_EFFECT_IMPORT_RE, source, i) ?? matchAt(STATIC_IMPORT_RE, source, i)
+      : matchAt(REEXPORT_RE, source, i);
+    if (!m) {
+      i += 6;
+      continue;
+    }
+
+    const quote = m[1];
+    const specifier = m[2];
+    const start = i + m[0].lastIndexOf(`${quote}${specifier}${quote}`) + 1;
+    refs.push({ specifier, start, ...offsetToLineColumn(source, start) });
+    i += m[0].length;
+  }
+  return refs;
+}
+
+/** True when the source uses `import`/`export` declarations and must run as an ES module. */
+export function hasModuleSyntax(source: string): boolean {
+  if (parseImports(source).length > 0) return true;
+  let i = 0;
+  while (i < source.length) {
+    const skipped = skipLiteral(source, i);
+    if (skipped !== i) {
+      i = skipped;
+      continue;
+    }
+    if (isKeywordAt(source, i, 'export')) return true;
+    if (isKeywordAt(source, i, 'import')) {
+      const next = skipWhitespaceAndComments(source, i + 6);
+      // `import.meta` and `import(...)` are allowed in scripts too; anything else is a declaration.
+      if (source[next] !== '.' && source[next] !== '(') return true;
+    }
+    i += 1;
+  }
+  return false;
+}
+
+function dirname(path: string): string {
+  const slash = path.lastIndexOf('/');
+  return slash < 0 ? '' : path.slice(0, slash);
+}
+
+function normalizePath(path: string): string | null {
+  const out: string[] = [];
+  for (const part of path.split('/')) {
+    if (!part || part === '.') continue;
+    if (part === '..') {
+      if (out.length === 0) return null;
+      out.pop();
+      continue;
+    }
+    out.push(part);
+  }
+  return out.join('/');
+}
+
+/**
+ * Resolves `specifier` as imported from `importerPath` against the workspace
+ * paths produced by `getNodePath` (no leading slash). Relative and
+ * root-absolute specifiers are supported; bare package names are not.
+ */
+export function resolveSpecifier(
+  filePaths: Set<string>,
+  importerPath: string,
+  specifier: string
+): { path: string } | { error: string } {
+  let base: string | null;
+  if (specifier.startsWith('./') || specifier.startsWith('../')) {
+    base = normalizePath(`${dirname(importerPath)}/${specifier}`);
+  } else if (specifier.startsWith('/')) {
+    base = normalizePath(specifier);
+  } else {
+    return { error: `Cannot resolve package '${specifier}' (only workspace files can be imported)` };
+  }
+  if (base === null) return { error: `Cannot resolve '${specifier}': path escapes the workspace root` };
+
+  const candidates = [
+    base,
+    ...RESOLVE_EXTENSIONS.map((ext) => `${base}${ext}`),
+    ...RESOLVE_EXTENSIONS.map((ext) => `${base}/index${ext}`),
+  ];
+  const found = candidates.find((c) => filePaths.has(c));
+  if (!found) return { error: `Cannot resolve module '${specifier}'` };
+  if (!found.toLowerCase().endsWith('.json') && !languageFromPath(found)) {
+    return { error: `Cannot import '${specifier}': unsupported file type` };
+  }
+  return { path: found };
+}
+
+/**
+ * Walks imports from `entry` through the workspace. The entry does not need to
+ * be a workspace file (the compiler pane's snippet is virtual); when it shares a
+ * path with one, the entry's source wins.
+ */
+export function buildModuleGraph(state: WorkspaceState, entry: ModuleSource): ModuleGraph {
+  const sources = new Map<string, string>();
+  listFiles(state).forEach((f) => {
+    const node = state.nodes[f.id];
+    if (node && isFile(node)) sources.set(f.path, node.content);
+  });
+  sources.set(entry.path, entry.source);
+  const filePaths = new Set(sources.keys());
+
+  const modules: ModuleRecord[] = [];
+  const unresolved: UnresolvedImport[] = [];
+  const visited = new Set<string>();
+  const queue = [entry.path];
+
+  while (queue.length > 0) {
+    const path = queue.shift() as string;
+    if (visited.has(path)) continue;
+    visited.add(path);
+
+    const source = sources.get(path) ?? '';
+    const record: ModuleRecord = { path, source, resolved: {} };
+    modules.push(record);
+    if (path.toLowerCase().endsWith('.json')) continue;
+
+    for (const ref of parseImports(source)) {
+      const result = resolveSpecifier(filePaths, path, ref.specifier);
+      if ('error' in result) {
+        unresolved.push({ importer: path, specifier: ref.specifier, line: ref.line, column: ref.column, reason: result.error });
+        continue;
+      }
+      record.resolved[ref.specifier] = result.path;
+      if (!visited.has(result.path)) queue.push(result.path);
+    }
+  }
+
+  return { entry: entry.path, modules, unresolved };
+}
+
+export function formatUnresolvedImport(u: UnresolvedImport): string {
+  return `${u.importer}:${u.line}:${u.column} - ${u.reason}`;
+}
+
+function rewriteSpecifiers(code: string, resolved: Record<string, string>): string {
+  let out = '';
+  let cursor = 0;
+  for (const ref of parseImports(code)) {
+    const target = resolved[ref.specifier];
+    if (!target) continue;
+    out += code.slice(cursor, ref.start) + MODULE_KEY_PREFIX + target;
+    cursor = ref.start + ref.specifier.length;
+  }
+  return out + code.slice(cursor);
+}
+
+/**
+ * Transpiles every module in the graph, points its import specifiers at the
+ * `@workspace/...` import-map keys and adds loop guards, ready for `RUN_MODULES`.
+ */
+export async function compileModuleGraph(graph: ModuleGraph): Promise<CompiledModuleGraph> {
+  if (graph.unresolved.length > 0) return { ok: false, errors: graph.unresolved.map(formatUnresolvedImport) };
+
+  const compiled: CompiledModule[] = [];
+  const errors: string[] = [];
+  for (const mod of graph.modules) {
+    const key = MODULE_KEY_PREFIX + mod.path;
+    if (mod.path.toLowerCase().endsWith('.json')) {
+      try {
+        compiled.push({ key, path: mod.path, code: `export default ${JSON.stringify(JSON.parse(mod.source))};\n`, sourceMap: null });
+      } catch (e) {
+        errors.push(`${mod.path} - error: Invalid JSON (${e instanceof Error ? e.message : String(e)})`);
+      }
+      continue;
+    }
+
+    const result = await transpileFile(`/${mod.path}`, mod.source);
+    if (!result.ok) {
+      errors.push(...result.errors);
+      continue;
+    }
+    compiled.push({
+      key,
+      path: mod.path,
+      code: instrumentLoops(rewriteSpecifiers(result.code, mod.resolved), 'module'),
+      sourceMap: result.sourceMap,
+    });
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, entryKey: MODULE_KEY_PREFIX + graph.entry, modules: compiled };
+}
@@ -0,0 +1,71 @@
+// Structured console values sent by the runner (see `describe` in runnerSrcDoc).
+// Objects carry a `handle` into the runner realm so deeper levels can be
+// fetched lazily with an `INSPECT` request while that realm is still alive.
+
+export type RemotePrimitiveKind = 'string' | 'number' | 'bigint' | 'boolean' | 'undefined' | 'null' | 'symbol';
+
+export type RemoteObjectSubtype = 'array' | 'map' | 'set' | 'error' | 'date' | 'regexp' | 'promise' | 'object';
+
+export type RemoteValue =
+  | { type: 'primitive'; kind: RemotePrimitiveKind; text: string }
+  | { type: 'function'; name: string; preview: string }
+  | { type: 'accessor'; get: boolean; set: boolean }
+  | {
+      type: 'object';
+      subtype: RemoteObjectSubtype;
+      className: string;
+      preview: string;
+      handle: number;
+      size?: number;
+      /** First level of properties, included eagerly for top-level console arguments. */
+      properties?: RemoteProperty[];
+      truncated?: number;
+    };
+
+export type RemoteProperty = {
+  /** Property name, or the key preview for Map entries. */
+  key: string;
+  value: RemoteValue;
+  entry?: 'map';
+};
+
+export type RemoteInspectResult = { properties: RemoteProperty[]; truncated: number };
+
+export type RemoteObjectValue = Extract<RemoteValue, { type: 'object' }>;
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === 'object';
+}
+
+export function isRemoteValue(v: unknown): v is RemoteValue {
+  if (!isRecord(v)) return false;
+  if (v.type === 'primitive') return typeof v.kind === 'string' && typeof v.text === 'string';
+  if (v.type === 'function') return typeof v.name === 'string' && typeof v.preview === 'string';
+  if (v.type === 'accessor') return typeof v.get === 'boolean' && typeof v.set === 'boolean';
+  if (v.type === 'object') {
+    return typeof v.subtype === 'string' && typeof v.preview === 'string' && typeof v.handle === 'number';
+  }
+  return false;
+}
+
+export function isRemoteProperty(v: unknown): v is RemoteProperty {
+  return isRecord(v) && typeof v.key === 'string' && isRemoteValue(v.value);
+}
+
+/** Plain-text rendering; top-level strings print unquoted like `console.log` does. */
+export function formatRemoteValue(value: RemoteValue, top = false): string {
+  switch (value.type) {
+    case 'primitive':
+      return value.kind === 'string' && !top ? JSON.stringify(value.text) : value.text;
+    case 'function':
+      return value.preview;
+    case 'accessor':
+      return value.get && value.set ? '[Getter/Setter]' : value.get ? '[Getter]' : '[Setter]';
+    case 'object':
+      return value.preview;
+  }
+}
+
+export function formatRemoteArgs(args: RemoteValue[]): string {
+  return args.map((a) => formatRemoteValue(a, true)).join(' ');
+}
@@ -0,0 +1,171 @@
+import { parse, type AnyNode, type Node, type Pattern, type Program } from 'acorn';
+
+/**
+ * Global the snippet registers on its first line: a function doing a direct
+ * `eval` inside the snippet's own scope, so REPL input can see its bindings.
+ */
+export const REPL_SCOPE_NAME = '__jscReplScope__';
+
+/** Lines `addReplScopeHook` puts in front of the snippet. */
+export const REPL_SCOPE_HOOK_LINES = 1;
+
+const REPL_SCOPE_HOOK = `window.${REPL_SCOPE_NAME} = function (__jscCode__) { return eval(__jscCode__); };`;
+
+/**
+ * Prepends the REPL scope hook. A leading `"use strict"` would stop being a
+ * directive once the hook sits above it, so it is repeated on the hook line.
+ */
+export function addReplScopeHook(code: string): string {
+  const strict = /^\s*(['"])use strict\1/.test(code);
+  return `${strict ? '"use strict"; ' : ''}${REPL_SCOPE_HOOK}\n${code}`;
+}
+
+export type PreparedReplInput =
+  | {
+      ok: true;
+      code: string;
+      /** Names the input declares; the runner creates them as globals so they outlive this evaluation. */
+      declaredNames: string[];
+      /** The code is wrapped in an async function (top-level `await`); its promise must be awaited. */
+      awaitResult: boolean;
+    }
+  | { ok: false; error: string };
+
+function parseScript(code: string): Program {
+  return parse(code, { ecmaVersion: 'latest', sourceType: 'script', allowAwaitOutsideFunction: true });
+}
+
+function collectPatternNames(node: Pattern, out: string[]) {
+  switch (node.type) {
+    case 'Identifier':
+      out.push(node.name);
+      break;
+    case 'ObjectPattern':
+      node.properties.forEach((p) => collectPatternNames(p.type === 'RestElement' ? p.argument : p.value, out));
+      break;
+    case 'ArrayPattern':
+      node.elements.forEach((e) => e && collectPatternNames(e, out));
+      break;
+    case 'AssignmentPattern':
+      collectPatternNames(node.left, out);
+      break;
+    case 'RestElement':
+      collectPatternNames(node.argument, out);
+      break;
+    default:
+      break;
+  }
+}
+
+function declaredNames(statement: AnyNode): string[] {
+  const names: string[] = [];
+  if (statement.type === 'VariableDeclaration') {
+    statement.declarations.forEach((d) => collectPatternNames(d.id, names));
+  } else if ((statement.type === 'FunctionDeclaration' || statement.type === 'ClassDeclaration') && statement.id) {
+    names.push(statement.id.name);
+  }
+  return names;
+}
+
+/** Top-level names a script declares; used to offer REPL completions after a run. */
+export function collectTopLevelNames(code: string, sourceType: 'script' | 'module'): string[] {
+  try {
+    const program = parse(code, { ecmaVersion: 'latest', sourceType, allowAwaitOutsideFunction: true });
+    const names = new Set<string>();
+    program.body.forEach((statement) => {
+      const declaration =
+        statement.type === 'ExportNamedDeclaration' || statement.type === 'ExportDefaultDeclaration'
+          ? statement.declaration
+          : statement;
+      if (declaration) declaredNames(declaration).forEach((n) => names.add(n));
+      if (statement.type === 'ImportDeclaration') statement.specifiers.forEach((s) => names.add(s.local.name));
+    });
+    return [...names].filter((n) => !n.startsWith('__jsc'));
+  } catch {
+    return [];
+  }
+}
+
+const FUNCTION_TYPES = new Set(['FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression']);
+
+function containsTopLevelAwait(node: unknown): boolean {
+  if (!node || typeof node !== 'object') return false;
+  if (Array.isArray(node)) return node.some(containsTopLevelAwait);
+  const n = node as Node & Record<string, unknown>;
+  if (typeof n.type === 'string') {
+    if (n.type === 'AwaitExpression' || (n.type === 'ForOfStatement' && n.await === true)) return true;
+    if (FUNCTION_TYPES.has(n.type)) return false;
+  }
+  return Object.keys(n).some((key) => key !== 'type' && containsTopLevelAwait(n[key]));
+}
+
+/** Rewrites a top-level declaration into assignments to the (pre-created) global names it declares. */
+function declarationAsAssignment(code: string, statement: AnyNode): string | null {
+  if (statement.type === 'VariableDeclaration') {
+    const assignments: string[] = [];
+    statement.declarations.forEach((d) => {
+      const target = code.slice(d.id.start, d.id.end);
+      // `let x;` resets x like a fresh declaration would; `var x;` leaves it alone.
+      if (d.init) assignments.push(`${target} = ${code.slice(d.init.start, d.init.end)}`);
+      else if (statement.kind !== 'var') assignments.push(`${target} = void 0`);
+    });
+    return assignments.length > 0 ? `(${assignments.join(', ')});` : 'void 0;';
+  }
+  if ((statement.type === 'FunctionDeclaration' || statement.type === 'ClassDeclaration') && statement.id) {
+    return `${statement.id.name} = ${code.slice(statement.start, statement.end)};`;
+  }
+  return null;
+}
+
+/** True when the input only fails to parse because it stops early (open brackets, trailing operator). */
+export function isIncompleteReplInput(source: string): boolean {
+  try {
+    parseScript(source);
+    return false;
+  } catch (e) {
+    const pos = (e as { pos?: unknown }).pos;
+    return typeof pos === 'number' && pos >= source.trimEnd().length;
+  }
+}
+
+/**
+ * Prepares one REPL entry for evaluation in the runner. Top-level declarations
+ * become assignments so they persist between entries (a `let` inside `eval` would
+ * die with it), and input using `await` is wrapped in an async function whose
+ * last expression is returned.
+ */
+export function prepareReplInput(source: string): PreparedReplInput {
+  let program: Program;
+  try {
+    program = parseScript(source);
+  } catch (e) {
+    return { ok: false, error: `SyntaxError: ${e instanceof Error ? e.message : String(e)}` };
+  }
+
+  const names: string[] = [];
+  const statements = program.body;
+  const awaitResult = containsTopLevelAwait(statements);
+  const last = statements[statements.length - 1];
+
+  let out = source;
+  for (let i = statements.length - 1; i >= 0; i -= 1) {
+    const statement = statements[i];
+    names.unshift(...declaredNames(statement));
+    const replacement = declarationAsAssignment(source, statement);
+    const returnsValue = awaitResult && statement === last && statement.type === 'ExpressionStatement';
+    if (replacement !== null) {
+      out = out.slice(0, statement.start) + replacement + out.slice(statement.end);
+    } else if (returnsValue) {
+      const expr = statement.expression;
+      out = `${out.slice(0, statement.start)}return (${source.slice(expr.start, expr.end)});${out.slice(statement.end)}`;
+    }
+  }
+
+  const endsWithDeclaration = !!last && declaredNames(last).length > 0;
+  const code = awaitResult
+    ? `(async () => {\n${out}\n})()`
+    : endsWithDeclaration
+      ? `${out}\nvoid 0;`
+      : out;
+  return { ok: true, code, declaredNames: [...new Set(names)], awaitResult };
+}
@@ -0,0 +1,74 @@
+import { runnerSrcDoc, workerHostSrcDoc } from './runnerSrcDoc';
+
+export type RunnerKind = 'iframe' | 'worker';
+
+export const RUNNER_KINDS: Array<{ id: RunnerKind; label: string; description: string }> = [
+  { id: 'iframe', label: 'Iframe', description: 'Sandboxed iframe: DOM APIs available, shares the page’s thread' },
+  { id: 'worker', label: 'Worker', description: 'Web Worker: no DOM, never blocks the page, stopped instantly' },
+];
+
+export function parseRunnerKind(saved: string | null): RunnerKind | null {
+  if (saved === 'iframe' || saved === 'worker') return saved;
+  return null;
+}
+
+/**
+ * One runner instance (one realm). Both backends speak the same protocol:
+ * they post `RunnerToParentMessage`s and accept `ParentToRunnerMessage`s.
+ */
+export type Runner = {
+  kind: RunnerKind;
+  post(message: unknown): void;
+  /** Registers a listener for the runner's messages; returns a function removing it. */
+  subscribe(listener: (data: unknown) => void): () => void;
+  /** Destroys the realm immediately, including code stuck in a loop (for the worker backend). */
+  dispose(): void;
+};
+
+// Both backends live in a sandboxed `srcDoc` iframe (opaque origin), so user code
+// can't touch the app's storage (workspace, snippets) or make same-origin requests.
+function createSandboxedRunner(kind: RunnerKind, srcDoc: string): Runner {
+  const iframe = document.createElement('iframe');
+  iframe.setAttribute('sandbox', 'allow-scripts');
+  iframe.title = 'JSCompiler Runner';
+  iframe.srcdoc = srcDoc;
+  Object.assign(iframe.style, {
+    position: 'absolute',
+    width: '0',
+    height: '0',
+    border: '0',
+    opacity: '0',
+    pointerEvents: 'none',
+  });
+  document.body.appendChild(iframe);
+
+  const listeners = new Set<(data: unknown) => void>();
+  function onMessage(event: MessageEvent) {
+    if (!iframe.contentWindow || event.source !== iframe.contentWindow) return;
+    // `srcDoc` + `sandbox="allow-scripts"` results in an opaque origin ("null").
+    // If we ever switch to a same-origin runner, allow that too.
+    if (event.origin !== 'null' && event.origin !== window.location.origin) return;
+    listeners.forEach((listener) => listener(event.data));
+  }
+  window.addEventListener('message', onMessage);
+
+  return {
+    kind,
+    post: (message) => iframe.contentWindow?.postMessage(message, '*'),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    // Removing the iframe also terminates a worker it owns, even mid-loop.
+    dispose: () => {
+      window.removeEventListener('message', onMessage);
+      listeners.clear();
+      iframe.remove();
+    },
+  };
+}
+
+export function createRunner(kind: RunnerKind): Runner {
+  // The worker runs inside the iframe's page, which relays its messages.
+  return kind === 'worker' ? createSandboxedRunner('worker', workerHostSrcDoc()) : createSandboxedRunner('iframe', runnerSrcDoc());
+}
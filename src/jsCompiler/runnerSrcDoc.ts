@@ -1,18 +1,32 @@
-export function runnerSrcDoc(): string {
-  // Keep this HTML self-contained so we can mount it via iframe srcDoc.
-  // Sandbox: allow-scripts only (opaque origin). postMessage still works.
-  return `<!doctype html>
-<html>
-  <head>
-    <meta charset="UTF-8" />
-    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
-    <title>JSCompiler Runner</title>
-  </head>
-  <body>
-    <script>
+import { RESULT_EXPORT_NAME } from './completionValue';
+import { LOOP_GUARD_NAME } from './loopGuard';
+import { REPL_SCOPE_NAME } from './repl';
+import { testFrameworkScript } from './testFrameworkSrc';
+import { benchmarkScript } from './benchmarkSrc';
+import { complexityProbeScript } from './complexityProbeSrc';
+
+export const HEARTBEAT_INTERVAL_MS = 250;
+
+/**
+ * The runner itself, shared by the iframe and the Web Worker backends. It only
+ * relies on `window` (aliased to `self` in a worker) and talks to the parent
+ * exclusively through postMessage.
+ */
+function runnerScript(): string {
+  return `
       (function () {
+        // Dedicated workers have no DOM: no import maps, and replies go to \`self\`.
+        const inWorker = typeof document === 'undefined';
         const MAX_DEPTH = 3;
         const MAX_ITEMS = 50;
+        const HEARTBEAT_INTERVAL_MS = ${HEARTBEAT_INTERVAL_MS};
+
+        // Execution budget: the longest the event loop may stay blocked.
+        // \`lastTick\` only advances when the heartbeat timer gets to run, so
+        // the loop guard measures time since the runner was last idle.
+        let budgetMs = 0;
+        let lastTick = Date.now();
+        let timedOut = false;
 
         function quoteString(value) {
           try {
@@ -31,6 +45,7 @@ export function runnerSrcDoc(): string {
           const type = typeof value;
           if (type === 'string') return quoteString(value);
           if (type === 'number') {
+            if (Object.is(value, -0)) return '-0';
             if (Number.isNaN(value)) return 'NaN';
             if (!Number.isFinite(value)) return value > 0 ? 'Infinity' : '-Infinity';
             return String(value);
@@ -150,15 +165,159 @@ export function runnerSrcDoc(): string {
           }
         }
 
-        function serializeArg(arg) {
-          if (typeof arg === 'string') return arg;
-          if (arg === null) return 'null';
-          if (arg === undefined) return 'undefined';
-          if (typeof arg === 'number') return inspectValue(arg, MAX_DEPTH, new WeakSet());
-          if (typeof arg === 'boolean') return String(arg);
-          if (typeof arg === 'bigint') return String(arg) + 'n';
-          if (arg instanceof Error) return arg.stack || arg.message || 'Error';
-          return safeInspect(arg);
+        // Structured values for the Output panel's object inspector. Every
+        // object gets a numeric handle so the parent can ask for its
+        // properties later (INSPECT) without us serializing whole graphs.
+        const MAX_PROPERTIES = 100;
+        const MAX_PREVIEW_LENGTH = 200;
+        const handles = new Map();
+        const handleIds = new WeakMap();
+        let nextHandle = 1;
+
+        function handleFor(obj) {
+          let id = handleIds.get(obj);
+          if (!id) {
+            id = nextHandle;
+            nextHandle += 1;
+            handleIds.set(obj, id);
+            handles.set(id, obj);
+          }
+          return id;
+        }
+
+        function subtypeOf(value) {
+          if (Array.isArray(value)) return 'array';
+          if (value instanceof Map) return 'map';
+          if (value instanceof Set) return 'set';
+          if (value instanceof Error) return 'error';
+          if (value instanceof Date) return 'date';
+          if (value instanceof RegExp) return 'regexp';
+          if (typeof Promise !== 'undefined' && value instanceof Promise) return 'promise';
+          return 'object';
+        }
+
+        function classNameOf(value) {
+          try {
+            const proto = Object.getPrototypeOf(value);
+            if (proto === null) return 'Object';
+            const ctor = proto && proto.constructor;
+            if (ctor && typeof ctor.name === 'string' && ctor.name) return ctor.name;
+          } catch (e) {
+            // ignore
+          }
+          return Object.prototype.toString.call(value).slice(8, -1);
+        }
+
+        function previewOf(value, subtype, className) {
+          if (subtype === 'error') return value.stack ? rewriteStack(value.stack) : String(value.message || 'Error');
+          let text;
+          if (subtype === 'promise') text = 'Promise {<pending>}';
+          else text = safePreview(value);
+          if (subtype === 'object' && className !== 'Object' && text.charAt(0) === '{') text = className + ' ' + text;
+          if (subtype === 'array' && className !== 'Array') text = className + '(' + String(value.length) + ') ' + text;
+          return text.length > MAX_PREVIEW_LENGTH ? text.slice(0, MAX_PREVIEW_LENGTH - 1) + '…' : text;
+        }
+
+        function safePreview(value) {
+          try {
+            return inspectValue(value, 1, new WeakSet());
+          } catch (e) {
+            try { return String(value); } catch (e2) { return '[Unserializable]'; }
+          }
+        }
+
+        function describe(value, withProperties) {
+          if (value === null) return { type: 'primitive', kind: 'null', text: 'null' };
+          const type = typeof value;
+          if (type === 'string') return { type: 'primitive', kind: 'string', text: value };
+          if (type === 'number' || type === 'bigint' || type === 'boolean' || type === 'undefined' || type === 'symbol') {
+            return { type: 'primitive', kind: type, text: inspectValue(value, 0, new WeakSet()) };
+          }
+          if (type === 'function') {
+            return { type: 'function', name: value.name || '', preview: inspectValue(value, 0, new WeakSet()) };
+          }
+
+          const subtype = subtypeOf(value);
+          const className = classNameOf(value);
+          const result = {
+            type: 'object',
+            subtype: subtype,
+            className: className,
+            preview: previewOf(value, subtype, className),
+            handle: handleFor(value)
+          };
+          if (subtype === 'array') result.size = value.length;
+          if (subtype === 'map' || subtype === 'set') result.size = value.size;
+          if (withProperties) {
+            const props = propertiesOf(value);
+            result.properties = props.properties;
+            if (props.truncated > 0) result.truncated = props.truncated;
+          }
+          return result;
+        }
+
+        function describeProperty(obj, key) {
+          const descriptor = Object.getOwnPropertyDescriptor(obj, key);
+          if (!descriptor) return null;
+          const label = typeof key === 'symbol' ? '[' + String(key) + ']' : String(key);
+          if ('value' in descriptor) return { key: label, value: describe(descriptor.value, false) };
+          return { key: label, value: { type: 'accessor', get: !!descriptor.get, set: !!descriptor.set } };
+        }
+
+        function propertiesOf(value) {
+          const properties = [];
+          let total = 0;
+          function add(prop) {
+            total += 1;
+            if (prop && properties.length < MAX_PROPERTIES) properties.push(prop);
+          }
+
+          try {
+            if (value instanceof Map) {
+              value.forEach(function (v, k) {
+                if (properties.length >= MAX_PROPERTIES) { total += 1; return; }
+                add({ key: typeof k === 'string' ? quoteString(k) : safePreview(k), value: describe(v, false), entry: 'map' });
+              });
+            } else if (value instanceof Set) {
+              let index = 0;
+              value.forEach(function (v) {
+                if (properties.length >= MAX_PROPERTIES) { total += 1; return; }
+                add({ key: String(index), value: describe(v, false) });
+                index += 1;
+              });
+            }
+
+            const keys = Object.getOwnPropertyNames(value);
+            const symbols = Object.getOwnPropertySymbols ? Object.getOwnPropertySymbols(value) : [];
+            for (let i = 0; i < keys.length; i += 1) {
+              if (properties.length >= MAX_PROPERTIES) { total += 1; continue; }
+              add(describeProperty(value, keys[i]));
+            }
+            for (let i = 0; i < symbols.length; i += 1) {
+              if (properties.length >= MAX_PROPERTIES) { total += 1; continue; }
+              add(describeProperty(value, symbols[i]));
+            }
+          } catch (e) {
+            // Exotic objects (revoked proxies etc.) just show what we got so far.
+          }
+          return { properties: properties, truncated: Math.max(0, total - properties.length) };
+        }
+
+        function inspectHandle(handle) {
+          if (!handles.has(handle)) return null;
+          return propertiesOf(handles.get(handle));
+        }
+
+        // Blob URL -> \`@workspace/...\` key of the module it holds, so stacks name
+        // the user's files instead of opaque blob URLs.
+        const moduleUrls = {};
+
+        function rewriteStack(stack) {
+          let text = String(stack || '');
+          Object.keys(moduleUrls).forEach(function (url) {
+            text = text.split(url).join(moduleUrls[url]);
+          });
+          return text;
         }
 
         function formatErrorMessage(errorLike, fallback) {
@@ -173,43 +332,445 @@ export function runnerSrcDoc(): string {
 
         function post(msg) {
           try {
-            window.parent.postMessage(msg, '*');
+            if (inWorker) self.postMessage(msg);
+            else window.parent.postMessage(msg, '*');
           } catch (e) {
             // ignore
           }
         }
 
+        // Console capture. Every line carries the ids of the groups it is
+        // nested in so the parent can indent and collapse them.
         const original = {};
-        ['log','info','warn','error','debug'].forEach(function (level) {
-          original[level] = console[level] ? console[level].bind(console) : function () {};
-          console[level] = function () {
+        const groupStack = [];
+        let nextGroupId = 1;
+        const timers = new Map();
+        const counts = new Map();
+
+        function callOriginal(method, args) {
+          try { original[method].apply(console, args); } catch (e) {}
+        }
+
+        // %d/%i/%f conversion; like browsers, NaN for what can't be converted
+        // (symbols, objects whose toString throws) rather than throwing.
+        function formatNumber(value, spec) {
+          if (typeof value === 'symbol') return 'NaN';
+          try {
+            return String(spec === 'f' ? parseFloat(value) : parseInt(value, 10));
+          } catch (e) {
+            return 'NaN';
+          }
+        }
+
+        // printf-style substitutions in a leading format string (%s %d %i %f %o %O %c %%).
+        function applyFormat(args) {
+          if (typeof args[0] !== 'string' || args[0].indexOf('%') < 0) return args;
+          let rest = args.slice(1);
+          const text = args[0].replace(/%([sdifoOc%])/g, function (match, spec) {
+            if (spec === '%') return '%';
+            if (rest.length === 0) return match;
+            const value = rest[0];
+            rest = rest.slice(1);
+            if (spec === 's') return typeof value === 'string' ? value : safePreview(value);
+            if (spec === 'd' || spec === 'i' || spec === 'f') return formatNumber(value, spec);
+            if (spec === 'c') return '';
+            return safePreview(value);
+          });
+          return [text].concat(rest);
+        }
+
+        function emit(level, method, args, trace) {
+          const msg = {
+            type: 'CONSOLE',
+            level: level,
+            method: method,
+            args: (method === 'dir' ? args : applyFormat(args)).map(function (arg) { return describe(arg, true); }),
+            groups: groupStack.slice(),
+            runId: window.__RUN_ID__ || ''
+          };
+          if (trace) msg.trace = trace;
+          post(msg);
+        }
+
+        function patch(method, impl) {
+          original[method] = console[method] ? console[method].bind(console) : function () {};
+          console[method] = function () {
             const args = Array.prototype.slice.call(arguments);
-            post({ type: 'CONSOLE', level: level, args: args.map(serializeArg), runId: window.__RUN_ID__ || '' });
-            try { original[level].apply(console, args); } catch (e) {}
+            impl(args);
+            callOriginal(method, args);
           };
+        }
+
+        function labelOf(value) {
+          return value === undefined ? 'default' : String(value);
+        }
+
+        function formatDuration(ms) {
+          return String(Number(ms.toFixed(3))) + ' ms';
+        }
+
+        function captureTrace() {
+          const stack = String(new Error().stack || '');
+          // Drop the "Error" header plus the captureTrace/patch/console.trace frames.
+          return rewriteStack(stack.split('\\n').slice(4).join('\\n'));
+        }
+
+        ['log','info','warn','error','debug'].forEach(function (level) {
+          patch(level, function (args) { emit(level, level, args); });
+        });
+
+        patch('dir', function (args) {
+          emit('log', 'dir', args.slice(0, 1));
+        });
+
+        patch('trace', function (args) {
+          emit('log', 'trace', args.length ? args : ['console.trace'], captureTrace());
+        });
+
+        patch('assert', function (args) {
+          if (args[0]) return;
+          const rest = args.slice(1);
+          if (typeof rest[0] === 'string') rest[0] = 'Assertion failed: ' + rest[0];
+          else rest.unshift('Assertion failed' + (rest.length ? ':' : ''));
+          emit('error', 'assert', rest);
+        });
+
+        patch('count', function (args) {
+          const label = labelOf(args[0]);
+          const next = (counts.get(label) || 0) + 1;
+          counts.set(label, next);
+          emit('log', 'count', [label + ': ' + String(next)]);
+        });
+
+        patch('countReset', function (args) {
+          const label = labelOf(args[0]);
+          if (!counts.has(label)) emit('warn', 'count', ["Count for '" + label + "' does not exist"]);
+          else counts.set(label, 0);
+        });
+
+        patch('time', function (args) {
+          const label = labelOf(args[0]);
+          if (timers.has(label)) emit('warn', 'time', ["Timer '" + label + "' already exists"]);
+          else timers.set(label, performance.now());
+        });
+
+        function logTimer(args, end) {
+          const label = labelOf(args[0]);
+          if (!timers.has(label)) {
+            emit('warn', 'time', ["Timer '" + label + "' does not exist"]);
+            return;
+          }
+          const elapsed = performance.now() - timers.get(label);
+          if (end) timers.delete(label);
+          emit('log', 'time', [label + ': ' + formatDuration(elapsed)].concat(end ? [] : args.slice(1)));
+        }
+
+        patch('timeLog', function (args) { logTimer(args, false); });
+        patch('timeEnd', function (args) { logTimer(args, true); });
+
+        function openGroup(args, collapsed) {
+          const groupId = nextGroupId;
+          nextGroupId += 1;
+          post({
+            type: 'CONSOLE_GROUP',
+            groupId: groupId,
+            collapsed: collapsed,
+            args: applyFormat(args.length ? args : ['console.group']).map(function (arg) { return describe(arg, true); }),
+            groups: groupStack.slice(),
+            runId: window.__RUN_ID__ || ''
+          });
+          groupStack.push(groupId);
+        }
+
+        patch('group', function (args) { openGroup(args, false); });
+        patch('groupCollapsed', function (args) { openGroup(args, true); });
+        patch('groupEnd', function () { groupStack.pop(); });
+
+        // console.table: rows are the data's own entries; columns are the union of
+        // the row objects' keys (or the explicit column filter), plus "Value" for
+        // primitive rows.
+        patch('table', function (args) {
+          const data = args[0];
+          if (data === null || typeof data !== 'object') {
+            emit('log', 'log', args.slice(0, 1));
+            return;
+          }
+          const filter = Array.isArray(args[1]) ? args[1].map(String) : null;
+          const columns = [];
+          const rows = [];
+          let hasValueColumn = false;
+          let truncated = 0;
+
+          function addColumn(key) {
+            if (columns.indexOf(key) < 0) columns.push(key);
+          }
+
+          function addRow(index, row) {
+            if (rows.length >= MAX_PROPERTIES) {
+              truncated += 1;
+              return;
+            }
+            const cells = {};
+            if (row !== null && typeof row === 'object') {
+              const keys = filter || Object.keys(row);
+              keys.forEach(function (key) {
+                if (!filter) addColumn(key);
+                if (Object.prototype.hasOwnProperty.call(row, key)) cells[key] = describe(row[key], false);
+              });
+              rows.push({ index: index, cells: cells });
+            } else {
+              hasValueColumn = true;
+              rows.push({ index: index, cells: {}, value: describe(row, false) });
+            }
+          }
+
+          if (data instanceof Map) {
+            let i = 0;
+            data.forEach(function (v, k) { addRow(String(i) + ' ' + safePreview(k), v); i += 1; });
+          } else if (data instanceof Set) {
+            let i = 0;
+            data.forEach(function (v) { addRow(String(i), v); i += 1; });
+          } else {
+            Object.keys(data).forEach(function (key) { addRow(key, data[key]); });
+          }
+
+          post({
+            type: 'CONSOLE_TABLE',
+            columns: filter || columns,
+            hasValueColumn: hasValueColumn,
+            rows: rows,
+            truncated: truncated,
+            groups: groupStack.slice(),
+            runId: window.__RUN_ID__ || ''
+          });
         });
 
         window.addEventListener('error', function (event) {
+          if (timedOut) return;
           const err = event && event.error;
           const message = formatErrorMessage(err, String((event && event.message) || 'Uncaught error'));
+          // Errors thrown before a stack exists (e.g. module syntax errors) only carry the event location.
+          const stack = (err && err.stack) ? String(err.stack)
+            : event && event.filename ? '    at ' + event.filename + ':' + String(event.lineno) + ':' + String(event.colno)
+            : undefined;
           post({
             type: 'RUNTIME_ERROR',
             message: message,
-            stack: (err && err.stack) ? String(err.stack) : undefined,
+            stack: stack === undefined ? undefined : rewriteStack(stack),
             runId: window.__RUN_ID__ || ''
           });
         });
 
         window.addEventListener('unhandledrejection', function (event) {
+          if (timedOut) return;
           const reason = event && event.reason;
           const message =
             reason instanceof Error ? formatErrorMessage(reason, 'Unhandled promise rejection')
             : typeof reason === 'string' ? reason
             : safeInspect(reason);
-          const stack = reason instanceof Error && reason.stack ? String(reason.stack) : undefined;
+          const stack = reason instanceof Error && reason.stack ? rewriteStack(reason.stack) : undefined;
           post({ type: 'UNHANDLED_REJECTION', message: message, stack: stack, runId: window.__RUN_ID__ || '' });
         });
 
+        // Minimal JSX target for TSX/JSX snippets (classic \`React.createElement\` emit).
+        // Elements are plain objects so they print nicely in the Output panel.
+        if (typeof window.React === 'undefined') {
+          window.React = {
+            Fragment: 'Fragment',
+            createElement: function (type, props) {
+              const children = Array.prototype.slice.call(arguments, 2);
+              const nextProps = Object.assign({}, props || {});
+              if (children.length === 1) nextProps.children = children[0];
+              else if (children.length > 1) nextProps.children = children;
+              return { type: type, props: nextProps };
+            }
+          };
+        }
+
+        // Stdin: the sandbox has no modal dialogs and the parent can't answer
+        // synchronously, so \`prompt()\`, \`readLine()\` and \`input()\` all return
+        // a Promise that settles when the user submits the Output panel's input
+        // box (null when they cancel it). \`prompt()\` therefore needs an \`await\`
+        // here, unlike in a browser tab.
+        const pendingInputs = new Map();
+        let nextInputId = 1;
+
+        function requestInput(message, defaultValue) {
+          const requestId = String(nextInputId);
+          nextInputId += 1;
+          return new Promise(function (resolve) {
+            pendingInputs.set(requestId, resolve);
+            post({
+              type: 'STDIN_REQUEST',
+              requestId: requestId,
+              prompt: message === undefined || message === null ? '' : String(message),
+              defaultValue: defaultValue === undefined || defaultValue === null ? '' : String(defaultValue),
+              groups: groupStack.slice(),
+              runId: window.__RUN_ID__ || ''
+            });
+          });
+        }
+
+        window.readLine = function (message, defaultValue) {
+          return requestInput(message, defaultValue);
+        };
+        window.input = window.readLine;
+        window.prompt = window.readLine;
+
+        function timeoutMessage() {
+          return 'Execution timed out after ' + String(budgetMs) + ' ms';
+        }
+
+        window['${LOOP_GUARD_NAME}'] = function () {
+          if (timedOut) throw new Error(timeoutMessage());
+          if (budgetMs > 0 && Date.now() - lastTick > budgetMs) {
+            timedOut = true;
+            post({ type: 'TIMEOUT', timeoutMs: budgetMs, runId: window.__RUN_ID__ || '' });
+            throw new Error(timeoutMessage());
+          }
+          return true;
+        };
+
+        setInterval(function () {
+          lastTick = Date.now();
+          post({ type: 'HEARTBEAT', runId: window.__RUN_ID__ || '' });
+        }, HEARTBEAT_INTERVAL_MS);
+
+        function postRunError(e) {
+          if (timedOut) return;
+          const err = e instanceof Error ? e : new Error(String(e));
+          post({
+            type: 'RUNTIME_ERROR',
+            message: formatErrorMessage(err, 'Runtime error'),
+            stack: err.stack ? rewriteStack(err.stack) : undefined,
+            runId: window.__RUN_ID__ || ''
+          });
+        }
+
+        // The snippet's last expression value (see captureCompletionValue);
+        // \`undefined\` means there was none worth showing.
+        function postResult(value) {
+          if (timedOut || value === undefined) return;
+          post({ type: 'RESULT', value: describe(value, true), runId: window.__RUN_ID__ || '' });
+        }
+
+${testFrameworkScript()}
+${benchmarkScript()}
+${complexityProbeScript()}
+        // Tests, benchmarks and complexity probes the snippet registered run once
+        // it has settled; the timed ones go last so tests don't skew them.
+        function runRegistered() {
+          return runPendingTests().then(runPendingBenchmarks).then(runPendingProbes);
+        }
+
+        // The run (or REPL entry) has settled; the parent stops watching for a stuck event loop.
+        function endRun() {
+          post({ type: 'RUN_END', runId: window.__RUN_ID__ || '' });
+        }
+        const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+
+        // REPL entries (see prepareReplInput) run inside the last snippet's scope
+        // when it registered one, otherwise in the global scope. Names they declare
+        // are created as globals first so the rewritten assignments persist.
+        function evalRepl(data) {
+          const names = Array.isArray(data.declaredNames) ? data.declaredNames : [];
+          names.forEach(function (name) {
+            if (!(name in window)) window[name] = undefined;
+          });
+          const scope = typeof window['${REPL_SCOPE_NAME}'] === 'function' ? window['${REPL_SCOPE_NAME}'] : null;
+          const code = String(data.code || '');
+          // A fresh runner (nothing run yet) adopts the REPL's run id and budget.
+          if (!window.__RUN_ID__) window.__RUN_ID__ = String(data.runId || '');
+          budgetMs = typeof data.timeoutMs === 'number' && data.timeoutMs > 0 ? data.timeoutMs : 0;
+          lastTick = Date.now();
+          let value;
+          try {
+            value = scope ? scope(code) : (0, eval)(code);
+          } catch (e) {
+            postRunError(e);
+            runRegistered().then(endRun, endRun);
+            return;
+          }
+          const postReplResult = function (v) {
+            if (timedOut) return;
+            post({ type: 'REPL_RESULT', value: describe(v, true), runId: window.__RUN_ID__ || '' });
+          };
+          if (data.awaitResult) {
+            Promise.resolve(value).then(postReplResult, postRunError).then(runRegistered).then(endRun, endRun);
+          } else {
+            postReplResult(value);
+            runRegistered().then(endRun, endRun);
+          }
+        }
+
+        function startRun(data) {
+          window.__RUN_ID__ = String(data.runId || '');
+          budgetMs = typeof data.timeoutMs === 'number' && data.timeoutMs > 0 ? data.timeoutMs : 0;
+          lastTick = Date.now();
+          timedOut = false;
+        }
+
+        function moduleUrl(key, code) {
+          const url = URL.createObjectURL(new Blob([code], { type: 'text/javascript' }));
+          moduleUrls[url] = key;
+          return url;
+        }
+
+        // Workers can't use import maps, so each module's \`@workspace/...\`
+        // specifiers are replaced by the blob URLs of its (already linked)
+        // dependencies. That needs an acyclic graph.
+        function linkModulesWithoutImportMap(modules) {
+          const codeByKey = {};
+          modules.forEach(function (m) { codeByKey[m.key] = m.code; });
+          const urls = {};
+          const linking = {};
+          function link(key) {
+            if (urls[key]) return urls[key];
+            if (linking[key]) throw new Error('Circular import of ' + key + ' is not supported by the Worker runner');
+            linking[key] = true;
+            let code = codeByKey[key];
+            Object.keys(codeByKey).forEach(function (dep) {
+              ['"', "'"].forEach(function (quote) {
+                const quoted = quote + dep + quote;
+                if (dep !== key && code.indexOf(quoted) >= 0) code = code.split(quoted).join(quote + link(dep) + quote);
+              });
+            });
+            urls[key] = moduleUrl(key, code);
+            return urls[key];
+          }
+          Object.keys(codeByKey).forEach(link);
+          return urls;
+        }
+
+        // Workspace modules: each one becomes a blob URL created in this realm
+        // (blob URLs are origin-bound). In the iframe an import map points the
+        // \`@workspace/...\` specifiers the parent rewrote at those URLs.
+        function runModules(data) {
+          const modules = (Array.isArray(data.modules) ? data.modules : []).map(function (m) {
+            return { key: String(m && m.key), code: String((m && m.code) || '') };
+          });
+          let entryUrl = String(data.entry || '');
+          if (inWorker) {
+            try {
+              entryUrl = linkModulesWithoutImportMap(modules)[entryUrl] || entryUrl;
+            } catch (e) {
+              postRunError(e);
+              endRun();
+              return;
+            }
+          } else {
+            const imports = {};
+            modules.forEach(function (m) { imports[m.key] = moduleUrl(m.key, m.code); });
+            const importMap = document.createElement('script');
+            importMap.type = 'importmap';
+            importMap.textContent = JSON.stringify({ imports: imports });
+            document.head.appendChild(importMap);
+          }
+          import(entryUrl).then(function (ns) {
+            postResult(ns['${RESULT_EXPORT_NAME}']);
+          }, postRunError).then(runRegistered).then(endRun, endRun);
+        }
+
         window.addEventListener('message', function (event) {
           const data = event && event.data;
           if (!data || typeof data !== 'object') return;
@@ -217,24 +778,105 @@ export function runnerSrcDoc(): string {
             // noop for now (parent remounts iframe per run)
             return;
           }
-          if (data.type !== 'RUN') return;
-          window.__RUN_ID__ = String(data.runId || '');
-          try {
-            // Execute user code in this isolated realm.
-            (new Function(String(data.code || '')))();
-          } catch (e) {
-            const err = e instanceof Error ? e : new Error(String(e));
+          if (data.type === 'INSPECT') {
+            const result = inspectHandle(data.handle);
             post({
-              type: 'RUNTIME_ERROR',
-              message: formatErrorMessage(err, 'Runtime error'),
-              stack: err.stack,
+              type: 'INSPECT_RESULT',
+              requestId: String(data.requestId || ''),
+              found: !!result,
+              properties: result ? result.properties : [],
+              truncated: result ? result.truncated : 0,
               runId: window.__RUN_ID__ || ''
             });
+            return;
+          }
+          if (data.type === 'STDIN_RESPONSE') {
+            const resolve = pendingInputs.get(String(data.requestId || ''));
+            if (!resolve) return;
+            pendingInputs.delete(String(data.requestId || ''));
+            // Waiting for the user is idle time, not part of the execution budget.
+            lastTick = Date.now();
+            resolve(typeof data.value === 'string' ? data.value : null);
+            return;
+          }
+          if (data.type === 'REPL_EVAL') {
+            evalRepl(data);
+            return;
+          }
+          if (data.type === 'RUN_MODULES') {
+            startRun(data);
+            runModules(data);
+            return;
+          }
+          if (data.type !== 'RUN') return;
+          startRun(data);
+          try {
+            // Execute user code in this isolated realm as an async function
+            // body, so top-level \`await\` works and completion can be awaited.
+            (new AsyncFunction(String(data.code || '')))().then(postResult, postRunError).then(runRegistered).then(endRun, endRun);
+          } catch (e) {
+            postRunError(e);
+            endRun();
           }
         });
 
         post({ type: 'READY' });
       })();
+`;
+}
+
+export function runnerSrcDoc(): string {
+  // Keep this HTML self-contained so we can mount it via iframe srcDoc.
+  // Sandbox: allow-scripts only (opaque origin). postMessage still works.
+  return `<!doctype html>
+<html>
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>JSCompiler Runner</title>
+  </head>
+  <body>
+    <script>${runnerScript()}    </script>
+  </body>
+</html>`;
+}
+
+/** Classic worker script; \`window\` is aliased to the worker global so the shared runner code works unchanged. */
+function runnerWorkerSource(): string {
+  return `var window = self;\n${runnerScript()}`;
+}
+
+/**
+ * Page that owns the Web Worker backend. Mounted in the same sandboxed iframe as
+ * the iframe backend, so the worker (created from a blob URL of this opaque
+ * origin) can't reach the app's storage or make same-origin requests. It only
+ * relays messages between the parent and the worker.
+ */
+export function workerHostSrcDoc(): string {
+  // `<` is escaped so the worker source can't close the script element.
+  const source = JSON.stringify(runnerWorkerSource()).replace(/</g, '\\u003c');
+  return `<!doctype html>
+<html>
+  <head>
+    <meta charset="UTF-8" />
+    <title>JSCompiler Worker Host</title>
+  </head>
+  <body>
+    <script>
+      (function () {
+        const url = URL.createObjectURL(new Blob([${source}], { type: 'text/javascript' }));
+        const worker = new Worker(url);
+        worker.onmessage = function (event) {
+          parent.postMessage(event.data, '*');
+        };
+        // The runner reports uncaught errors itself (RUNTIME_ERROR); don't log them twice.
+        worker.onerror = function (event) {
+          event.preventDefault();
+        };
+        window.addEventListener('message', function (event) {
+          if (event.source === parent) worker.postMessage(event.data);
+        });
+      })();
     </script>
   </body>
 </html>`;
@@ -0,0 +1,87 @@
+import { parseRunnerKind, type RunnerKind } from './runner';
+import { parseSnippetLanguage, type SnippetLanguage } from './transpile';
+
+/** Everything a share link carries: the snippet and the settings it ran with. */
+export type SharedSnippet = {
+  code: string;
+  language: SnippetLanguage;
+  timeoutMs: number;
+  runner: RunnerKind;
+};
+
+/**
+ * Longer links still work in browsers, but chat apps, issue trackers and
+ * URL shorteners start truncating around here.
+ */
+export const SHARE_URL_SAFE_LENGTH = 2000;
+
+const FRAGMENT_PREFIX = 's=';
+// First payload character: how the JSON that follows is encoded.
+const DEFLATED = 'z';
+const PLAIN = 'j';
+
+function bytesToBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked so long snippets don't overflow the argument list.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlToBytes(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function pipeThrough(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function parseSharedSnippet(value: unknown): SharedSnippet | null {
+  if (!value || typeof value !== 'object') return null;
+  const { c, l, t, r } = value as Record<string, unknown>;
+  const language = parseSnippetLanguage(typeof l === 'string' ? l : null);
+  if (typeof c !== 'string' || !language) return null;
+  return {
+    code: c,
+    language,
+    timeoutMs: typeof t === 'number' && t > 0 ? t : 0,
+    runner: parseRunnerKind(typeof r === 'string' ? r : null) ?? 'iframe',
+  };
+}
+
+/**
+ * Encodes a snippet as a URL fragment (without the `#`). The JSON is
+ * deflated when the browser has `CompressionStream`; links made without it
+ * still decode everywhere.
+ */
+export async function encodeShareFragment(snippet: SharedSnippet): Promise<string> {
+  const json = JSON.stringify({ c: snippet.code, l: snippet.language, t: snippet.timeoutMs, r: snippet.runner });
+  const bytes = new TextEncoder().encode(json);
+  if (typeof CompressionStream === 'function') {
+    return `${FRAGMENT_PREFIX}${DEFLATED}${bytesToBase64Url(await pipeThrough(bytes, new CompressionStream('deflate-raw')))}`;
+  }
+  return `${FRAGMENT_PREFIX}${PLAIN}${bytesToBase64Url(bytes)}`;
+}
+
+/** Decodes `location.hash`; null when it isn't a (valid) share link. */
+export async function decodeShareFragment(hash: string): Promise<SharedSnippet | null> {
+  const fragment = hash.replace(/^#/, '');
+  if (!fragment.startsWith(FRAGMENT_PREFIX)) return null;
+  const format = fragment.charAt(FRAGMENT_PREFIX.length);
+  const payload = fragment.slice(FRAGMENT_PREFIX.length + 1);
+  try {
+    let bytes = base64UrlToBytes(payload);
+    if (format === DEFLATED) {
+      if (typeof DecompressionStream !== 'function') return null;
+      bytes = await pipeThrough(bytes, new DecompressionStream('deflate-raw'));
+    } else if (format !== PLAIN) {
+      return null;
+    }
+    return parseSharedSnippet(JSON.parse(new TextDecoder().decode(bytes)));
+  } catch {
+    return null;
+  }
+}
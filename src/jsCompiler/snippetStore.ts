@@ -0,0 +1,105 @@
+import { parseSnippetLanguage, type SnippetLanguage } from './transpile';
+
+export type Snippet = {
+  id: string;
+  name: string;
+  code: string;
+  language: SnippetLanguage;
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+  /** Last time the snippet was opened in the editor; drives the recent list. */
+  openedAt: number;
+};
+
+const DB_NAME = 'jscompiler';
+const DB_VERSION = 1;
+const SNIPPETS_STORE = 'snippets';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    if (typeof indexedDB === 'undefined') return Promise.reject(new Error('IndexedDB is not available'));
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SNIPPETS_STORE)) db.createObjectStore(SNIPPETS_STORE, { keyPath: 'id' });
+    };
+    dbPromise = promisify(request);
+    // Let a later call retry (e.g. after the user allows storage).
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function snippetsStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(SNIPPETS_STORE, mode).objectStore(SNIPPETS_STORE);
+}
+
+function parseSnippet(v: unknown): Snippet | null {
+  if (!v || typeof v !== 'object') return null;
+  const s = v as Record<string, unknown>;
+  const language = parseSnippetLanguage(typeof s.language === 'string' ? s.language : null);
+  if (typeof s.id !== 'string' || typeof s.name !== 'string' || typeof s.code !== 'string' || !language) return null;
+  const time = (t: unknown) => (typeof t === 'number' ? t : 0);
+  return {
+    id: s.id,
+    name: s.name,
+    code: s.code,
+    language,
+    tags: Array.isArray(s.tags) ? s.tags.filter((t): t is string => typeof t === 'string') : [],
+    createdAt: time(s.createdAt),
+    updatedAt: time(s.updatedAt),
+    openedAt: time(s.openedAt),
+  };
+}
+
+export async function loadSnippets(): Promise<Snippet[]> {
+  const records = await promisify((await snippetsStore('readonly')).getAll());
+  return records.map(parseSnippet).filter((s): s is Snippet => s !== null);
+}
+
+export async function putSnippet(snippet: Snippet): Promise<void> {
+  await promisify((await snippetsStore('readwrite')).put(snippet));
+}
+
+export async function deleteSnippet(id: string): Promise<void> {
+  await promisify((await snippetsStore('readwrite')).delete(id));
+}
+
+/** Lower-cased, trimmed, without a leading `#`, de-duplicated. */
+export function normalizeTags(tags: string[]): string[] {
+  const out: string[] = [];
+  tags.forEach((tag) => {
+    const t = tag.trim().replace(/^#+/, '').toLowerCase();
+    if (t && !out.includes(t)) out.push(t);
+  });
+  return out;
+}
+
+/**
+ * `#tag` terms must all be tags of the snippet; other words must each appear
+ * in its name, tags or code (case-insensitive).
+ */
+export function matchesSnippetQuery(snippet: Snippet, query: string): boolean {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return terms.every((term) => {
+    if (term.startsWith('#') && term.length > 1) return snippet.tags.includes(term.slice(1));
+    return (
+      snippet.name.toLowerCase().includes(term) ||
+      snippet.tags.some((t) => t.includes(term)) ||
+      snippet.code.toLowerCase().includes(term)
+    );
+  });
+}
@@ -0,0 +1,82 @@
+// Minimal source map v3 reader: just enough to map a generated position back
+// to the original file for stack traces. Only single-source maps are produced
+// here (one per transpiled file), so the source index is ignored.
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/** [generatedColumn, originalLine, originalColumn], all 0-based. */
+type Segment = [number, number, number];
+
+function decodeVlq(text: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const ch of text) {
+    const digit = BASE64.indexOf(ch);
+    if (digit < 0) return values;
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+    values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+    value = 0;
+    shift = 0;
+  }
+  return values;
+}
+
+function decodeMappings(mappings: string): Segment[][] {
+  const lines: Segment[][] = [];
+  let sourceLine = 0;
+  let sourceColumn = 0;
+  for (const lineText of mappings.split(';')) {
+    const segments: Segment[] = [];
+    let generatedColumn = 0;
+    for (const segmentText of lineText.split(',')) {
+      if (!segmentText) continue;
+      const fields = decodeVlq(segmentText);
+      generatedColumn += fields[0] ?? 0;
+      if (fields.length < 4) continue;
+      sourceLine += fields[2];
+      sourceColumn += fields[3];
+      segments.push([generatedColumn, sourceLine, sourceColumn]);
+    }
+    lines.push(segments);
+  }
+  return lines;
+}
+
+const decodedCache = new Map<string, Segment[][] | null>();
+
+function decodedMap(mapText: string): Segment[][] | null {
+  const cached = decodedCache.get(mapText);
+  if (cached !== undefined) return cached;
+  let decoded: Segment[][] | null = null;
+  try {
+    const parsed: unknown = JSON.parse(mapText);
+    const mappings = parsed && typeof parsed === 'object' ? (parsed as { mappings?: unknown }).mappings : undefined;
+    if (typeof mappings === 'string') decoded = decodeMappings(mappings);
+  } catch {
+    decoded = null;
+  }
+  // Maps change with every edit; keep only the latest few.
+  if (decodedCache.size >= 8) decodedCache.clear();
+  decodedCache.set(mapText, decoded);
+  return decoded;
+}
+
+/**
+ * Maps a 1-based generated position to the 1-based original position, using
+ * the closest mapping at or before `column` on that line.
+ */
+export function originalPositionFor(mapText: string, line: number, column: number): { line: number; column: number } | null {
+  const segments = decodedMap(mapText)?.[line - 1];
+  if (!segments || segments.length === 0) return null;
+  let best = segments[0];
+  for (const segment of segments) {
+    if (segment[0] > column - 1) break;
+    best = segment;
+  }
+  return { line: best[1] + 1, column: best[2] + 1 };
+}
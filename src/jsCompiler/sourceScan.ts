@@ -0,0 +1,71 @@
+export function isIdentifierChar(ch: string | undefined): boolean {
+  return !!ch && /[A-Za-z0-9_$]/.test(ch);
+}
+
+/** True when `keyword` starts at `i` as a whole word (and not as a `.keyword` property access). */
+export function isKeywordAt(code: string, i: number, keyword: string): boolean {
+  return (
+    code.startsWith(keyword, i) &&
+    !isIdentifierChar(code[i - 1]) &&
+    code[i - 1] !== '.' &&
+    !isIdentifierChar(code[i + keyword.length])
+  );
+}
+
+export function skipWhitespaceAndComments(code: string, from: number): number {
+  let i = from;
+  while (i < code.length) {
+    const ch = code[i];
+    if (ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r') {
+      i += 1;
+      continue;
+    }
+    if (ch === '/' && code[i + 1] === '/') {
+      while (i < code.length && code[i] !== '\n') i += 1;
+      continue;
+    }
+    if (ch === '/' && code[i + 1] === '*') {
+      const end = code.indexOf('*/', i + 2);
+      i = end < 0 ? code.length : end + 2;
+      continue;
+    }
+    break;
+  }
+  return i;
+}
+
+/**
+ * Returns the index just past the string/template/comment starting at `i`,
+ * or `i` itself when nothing skippable starts there.
+ */
+export function skipLiteral(code: string, i: number): number {
+  const ch = code[i];
+  const next = code[i + 1];
+  if (ch === '/' && next === '/') {
+    const end = code.indexOf('\n', i);
+    return end < 0 ? code.length : end;
+  }
+  if (ch === '/' && next === '*') {
+    const end = code.indexOf('*/', i + 2);
+    return end < 0 ? code.length : end + 2;
+  }
+  if (ch === "'" || ch === '"' || ch === '`') {
+    let j = i + 1;
+    while (j < code.length) {
+      if (code[j] === '\\') {
+        j += 2;
+        continue;
+      }
+      if (code[j] === ch) return j + 1;
+      j += 1;
+    }
+    return code.length;
+  }
+  return i;
+}
+
+export function offsetToLineColumn(source: string, offset: number): { line: number; column: number } {
+  const before = source.slice(0, Math.max(0, offset));
+  const lines = before.split('\n');
+  return { line: lines.length, column: (lines[lines.length - 1]?.length ?? 0) + 1 };
+}
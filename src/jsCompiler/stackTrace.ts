@@ -0,0 +1,71 @@
+import { MODULE_KEY_PREFIX } from './moduleGraph';
+import { originalPositionFor } from './sourceMap';
+
+/** The runner's `AsyncFunction(body)` compiles `async function anonymous(\n) {\n<body>\n}`, pushing the body down two lines. */
+export const FUNCTION_WRAPPER_LINE_OFFSET = 2;
+
+// `@workspace/<path>` is how workspace modules (rewritten blob URLs) and the
+// script-mode snippet (`//# sourceURL=`) show up in stacks. `<anonymous>` and
+// `> AsyncFunction` are Chrome's and Firefox's names for function-constructor code without one.
+const FRAME_LOCATION_RE = new RegExp(`(${MODULE_KEY_PREFIX}[^\\s()]+?|<anonymous>|> (?:Async)?Function):(\\d+):(\\d+)`);
+
+export type SourceLocation = { path: string; line: number; column: number };
+
+export type StackFrame = {
+  /** Function name, or null for top-level code. */
+  name: string | null;
+  location: SourceLocation;
+};
+
+export type StackMappingContext = {
+  /** Workspace-relative path of the snippet (e.g. `main.ts`). */
+  entryPath: string;
+  /** Lines the runner sees above each file's compiled code (function wrapper, REPL hook), by path. */
+  lineOffsets: Record<string, number>;
+  /** Source maps of the transpiled files, by path (null for plain JS). */
+  sourceMaps: Record<string, string | null>;
+};
+
+export function scriptSourceUrl(entryPath: string): string {
+  return `${MODULE_KEY_PREFIX}${entryPath}`;
+}
+
+export function formatSourceLocation(location: SourceLocation): string {
+  return `${location.path}:${location.line}:${location.column}`;
+}
+
+function frameName(frameText: string): string | null {
+  const trimmed = frameText.trim();
+  // Chrome: "at name (location)"; Firefox/Safari: "name@location".
+  const chrome = /^at\s+(?:async\s+)?(.*?)\s+\(/.exec(trimmed);
+  const raw = chrome ? chrome[1] : trimmed.includes('@') ? trimmed.slice(0, trimmed.indexOf('@')) : '';
+  const name = raw.replace(/^Object\./, '').trim();
+  if (!name || name === 'eval' || name === 'anonymous' || name.startsWith('<')) return null;
+  return name;
+}
+
+function mapLocation(rawPath: string, line: number, column: number, ctx: StackMappingContext): SourceLocation | null {
+  const path = rawPath.startsWith(MODULE_KEY_PREFIX) ? rawPath.slice(MODULE_KEY_PREFIX.length) : ctx.entryPath;
+  const generatedLine = line - (ctx.lineOffsets[path] ?? 0);
+  if (generatedLine < 1) return null;
+
+  const map = ctx.sourceMaps[path];
+  if (!map) return { path, line: generatedLine, column };
+  const original = originalPositionFor(map, generatedLine, column);
+  return original ? { path, ...original } : { path, line: generatedLine, column };
+}
+
+/**
+ * Translates a runner stack into frames located in the user's files, dropping
+ * the runner's own (`about:srcdoc`) frames and anything that can't be placed.
+ */
+export function mapStackTrace(stack: string, ctx: StackMappingContext): StackFrame[] {
+  const frames: StackFrame[] = [];
+  for (const frameText of stack.split('\n')) {
+    const m = FRAME_LOCATION_RE.exec(frameText);
+    if (!m) continue;
+    const location = mapLocation(m[1], Number(m[2]), Number(m[3]), ctx);
+    if (location) frames.push({ name: frameName(frameText), location });
+  }
+  return frames;
+}
@@ -0,0 +1,362 @@
+/** Default time an async test may take before it fails. */
+export const DEFAULT_TEST_TIMEOUT_MS = 5000;
+
+/**
+ * `describe`/`it`/`expect` for the runner realm. This is spliced into the runner
+ * script (see runnerSrcDoc.ts) and uses its `post`, `rewriteStack` and
+ * `formatErrorMessage`. Tests are only collected while the snippet runs; the
+ * runner calls `runPendingTests()` once the snippet (or a REPL entry) settles.
+ */
+export function testFrameworkScript(): string {
+  return `
+        // Tests registered since the last test run, in declaration order.
+        let pendingTests = [];
+        const suitePath = [];
+        let suiteSkipped = 0;
+        let nextTestId = 1;
+        let testsRunning = false;
+
+        function registerTest(name, fn, timeoutMs, skip) {
+          pendingTests.push({
+            id: String(nextTestId),
+            suite: suitePath.slice(),
+            name: String(name),
+            fn: fn,
+            timeoutMs: typeof timeoutMs === 'number' && timeoutMs > 0 ? timeoutMs : ${DEFAULT_TEST_TIMEOUT_MS},
+            skip: skip || suiteSkipped > 0 || typeof fn !== 'function'
+          });
+          nextTestId += 1;
+        }
+
+        function registerSuite(name, fn, skip) {
+          suitePath.push(String(name));
+          if (skip) suiteSkipped += 1;
+          try {
+            if (typeof fn === 'function') fn();
+          } finally {
+            if (skip) suiteSkipped -= 1;
+            suitePath.pop();
+          }
+        }
+
+        window.describe = function (name, fn) { registerSuite(name, fn, false); };
+        window.describe.skip = function (name, fn) { registerSuite(name, fn, true); };
+        window.it = function (name, fn, timeoutMs) { registerTest(name, fn, timeoutMs, false); };
+        window.it.skip = function (name, fn, timeoutMs) { registerTest(name, fn, timeoutMs, true); };
+        window.test = window.it;
+
+        // Value rendering for assertion messages; the multi-line form feeds the
+        // expected/received diff of failed equality assertions.
+        function formatForDiff(value, indent, seen, multiline) {
+          const pad = '  '.repeat(indent + 1);
+          const end = '  '.repeat(indent);
+          if (typeof value === 'string') return JSON.stringify(value);
+          if (typeof value === 'bigint') return String(value) + 'n';
+          if (typeof value === 'function') return '[Function ' + (value.name || 'anonymous') + ']';
+          if (typeof value === 'symbol') return value.toString();
+          if (value === null || typeof value !== 'object') return Object.is(value, -0) ? '-0' : String(value);
+          if (seen.indexOf(value) >= 0) return '[Circular]';
+          if (value instanceof Date) return 'Date(' + (isNaN(value.getTime()) ? 'Invalid' : value.toISOString()) + ')';
+          if (value instanceof RegExp) return String(value);
+          if (value instanceof Error) return formatErrorMessage(value, 'Error');
+          const next = seen.concat([value]);
+          function entries(open, close, items) {
+            if (items.length === 0) return open + close;
+            if (!multiline) return open.slice(-1) === '{' ? open + ' ' + items.join(', ') + ' ' + close : open + items.join(', ') + close;
+            return open + '\\n' + items.map(function (item) { return pad + item + ','; }).join('\\n') + '\\n' + end + close;
+          }
+          if (Array.isArray(value)) {
+            return entries('[', ']', value.map(function (v) { return formatForDiff(v, indent + 1, next, multiline); }));
+          }
+          if (value instanceof Map) {
+            const items = [];
+            value.forEach(function (v, k) {
+              items.push(formatForDiff(k, indent + 1, next, multiline) + ' => ' + formatForDiff(v, indent + 1, next, multiline));
+            });
+            return entries('Map {', '}', items);
+          }
+          if (value instanceof Set) {
+            const items = [];
+            value.forEach(function (v) { items.push(formatForDiff(v, indent + 1, next, multiline)); });
+            return entries('Set {', '}', items);
+          }
+          const proto = Object.getPrototypeOf(value);
+          const ctor = proto && proto !== Object.prototype && proto.constructor && proto.constructor.name;
+          return entries((ctor ? ctor + ' ' : '') + '{', '}', Object.keys(value).map(function (key) {
+            const label = /^[A-Za-z_$][\\w$]*$/.test(key) ? key : JSON.stringify(key);
+            return label + ': ' + formatForDiff(value[key], indent + 1, next, multiline);
+          }));
+        }
+
+        function stringify(value) {
+          try {
+            return formatForDiff(value, 0, [], true);
+          } catch (e) {
+            return String(value);
+          }
+        }
+
+        function oneLine(value) {
+          try {
+            return formatForDiff(value, 0, [], false);
+          } catch (e) {
+            return String(value);
+          }
+        }
+
+        // Deep equality. \`strict\` (toStrictEqual) also compares prototypes and
+        // treats \`{ a: undefined }\` and \`{}\` as different.
+        function equals(a, b, strict, seen) {
+          if (Object.is(a, b)) return true;
+          if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false;
+          if (strict && Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+          if (Array.isArray(a) !== Array.isArray(b)) return false;
+          for (let i = 0; i < seen.length; i += 1) {
+            if (seen[i][0] === a && seen[i][1] === b) return true;
+          }
+          const nextSeen = seen.concat([[a, b]]);
+          if (a instanceof Date || b instanceof Date) {
+            return a instanceof Date && b instanceof Date && Object.is(a.getTime(), b.getTime());
+          }
+          if (a instanceof RegExp || b instanceof RegExp) return String(a) === String(b);
+          if (a instanceof Map || b instanceof Map) {
+            if (!(a instanceof Map && b instanceof Map) || a.size !== b.size) return false;
+            let same = true;
+            a.forEach(function (v, k) {
+              if (same && (!b.has(k) || !equals(v, b.get(k), strict, nextSeen))) same = false;
+            });
+            return same;
+          }
+          if (a instanceof Set || b instanceof Set) {
+            if (!(a instanceof Set && b instanceof Set) || a.size !== b.size) return false;
+            const rest = Array.from(b);
+            let same = true;
+            a.forEach(function (v) {
+              if (!same) return;
+              const idx = rest.findIndex(function (w) { return equals(v, w, strict, nextSeen); });
+              if (idx < 0) same = false;
+              else rest.splice(idx, 1);
+            });
+            return same;
+          }
+          if (Array.isArray(a) && a.length !== b.length) return false;
+          function keysOf(obj) {
+            return Object.keys(obj).filter(function (k) { return strict || obj[k] !== undefined; });
+          }
+          const keysA = keysOf(a);
+          const keysB = keysOf(b);
+          if (keysA.length !== keysB.length) return false;
+          return keysA.every(function (k) {
+            return Object.prototype.hasOwnProperty.call(b, k) && equals(a[k], b[k], strict, nextSeen);
+          });
+        }
+
+        function assertionError(message, diff) {
+          const err = new Error(message);
+          err.name = 'AssertionError';
+          if (diff) err.__jscDiff = diff;
+          return err;
+        }
+
+        function propertyAt(obj, path) {
+          const keys = Array.isArray(path) ? path : String(path).split('.');
+          let current = obj;
+          for (let i = 0; i < keys.length; i += 1) {
+            if (current === null || current === undefined || !(keys[i] in Object(current))) {
+              return { found: false };
+            }
+            current = current[keys[i]];
+          }
+          return { found: true, value: current };
+        }
+
+        function throws(fn) {
+          if (typeof fn !== 'function') throw new TypeError('expect(received).toThrow() needs a function');
+          try {
+            fn();
+          } catch (e) {
+            return { thrown: true, error: e };
+          }
+          return { thrown: false };
+        }
+
+        function errorMatches(error, expected) {
+          if (expected === undefined) return true;
+          const message = error instanceof Error ? error.message : String(error);
+          if (typeof expected === 'string') return message.indexOf(expected) >= 0;
+          if (expected instanceof RegExp) return expected.test(message);
+          if (typeof expected === 'function') return error instanceof expected;
+          if (expected instanceof Error) return message === expected.message;
+          return false;
+        }
+
+        // Each matcher returns whether it passed; \`diff: true\` marks equality
+        // matchers whose failures show an expected/received diff.
+        const MATCHERS = {
+          toBe: function (actual, expected) { return { pass: Object.is(actual, expected), diff: true }; },
+          toEqual: function (actual, expected) { return { pass: equals(actual, expected, false, []), diff: true }; },
+          toStrictEqual: function (actual, expected) { return { pass: equals(actual, expected, true, []), diff: true }; },
+          toBeTruthy: function (actual) { return { pass: !!actual }; },
+          toBeFalsy: function (actual) { return { pass: !actual }; },
+          toBeNull: function (actual) { return { pass: actual === null }; },
+          toBeUndefined: function (actual) { return { pass: actual === undefined }; },
+          toBeDefined: function (actual) { return { pass: actual !== undefined }; },
+          toBeNaN: function (actual) { return { pass: typeof actual === 'number' && isNaN(actual) }; },
+          toBeGreaterThan: function (actual, expected) { return { pass: actual > expected }; },
+          toBeGreaterThanOrEqual: function (actual, expected) { return { pass: actual >= expected }; },
+          toBeLessThan: function (actual, expected) { return { pass: actual < expected }; },
+          toBeLessThanOrEqual: function (actual, expected) { return { pass: actual <= expected }; },
+          toBeCloseTo: function (actual, expected, digits) {
+            const precision = typeof digits === 'number' ? digits : 2;
+            return { pass: Math.abs(expected - actual) < Math.pow(10, -precision) / 2 };
+          },
+          toBeInstanceOf: function (actual, expected) {
+            return { pass: typeof expected === 'function' && actual instanceof expected };
+          },
+          toContain: function (actual, expected) {
+            const pass = typeof actual === 'string'
+              ? actual.indexOf(String(expected)) >= 0
+              : !!actual && typeof actual[Symbol.iterator] === 'function' && Array.from(actual).indexOf(expected) >= 0;
+            return { pass: pass };
+          },
+          toContainEqual: function (actual, expected) {
+            const items = !!actual && typeof actual[Symbol.iterator] === 'function' ? Array.from(actual) : [];
+            return { pass: items.some(function (item) { return equals(item, expected, false, []); }) };
+          },
+          toHaveLength: function (actual, expected) {
+            return { pass: !!actual && actual.length === expected, received: actual && actual.length };
+          },
+          toHaveProperty: function (actual, path, value) {
+            const found = propertyAt(actual, path);
+            const pass = found.found && (arguments.length < 3 || equals(found.value, value, false, []));
+            return { pass: pass, received: found.found ? found.value : undefined, diff: arguments.length >= 3 && found.found };
+          },
+          toMatch: function (actual, expected) {
+            const text = String(actual);
+            return { pass: expected instanceof RegExp ? expected.test(text) : text.indexOf(String(expected)) >= 0 };
+          },
+          toThrow: function (actual, expected) {
+            const result = throws(actual);
+            return {
+              pass: result.thrown && errorMatches(result.error, expected),
+              received: result.thrown ? result.error : 'nothing thrown'
+            };
+          }
+        };
+
+        function failureMessage(name, negated, actual, args, result) {
+          const call = 'expect(received).' + (negated ? 'not.' : '') + name + '(' + (args.length ? 'expected' : '') + ')';
+          const received = 'received' in result ? result.received : actual;
+          const lines = [call, ''];
+          if (args.length) lines.push('Expected: ' + (negated ? 'not ' : '') + oneLine(args[args.length - 1]));
+          lines.push('Received: ' + (received instanceof Error ? formatErrorMessage(received, 'Error') : oneLine(received)));
+          return lines.join('\\n');
+        }
+
+        function buildMatchers(actual, negated, mode) {
+          const matchers = {};
+          Object.keys(MATCHERS).forEach(function (name) {
+            matchers[name] = function () {
+              const args = Array.prototype.slice.call(arguments);
+              function check(value) {
+                const result = MATCHERS[name].apply(null, [value].concat(args));
+                if (result.pass === negated) {
+                  const diff = result.diff && !negated
+                    ? { expected: stringify(args[args.length - 1]), actual: stringify('received' in result ? result.received : value) }
+                    : undefined;
+                  throw assertionError(failureMessage(name, negated, value, args, result), diff);
+                }
+              }
+              if (mode === 'resolves') {
+                return Promise.resolve(actual).then(check, function (e) {
+                  throw assertionError('expect(received).resolves.' + name + '()\\n\\nReceived promise rejected: ' + oneLine(e));
+                });
+              }
+              if (mode === 'rejects') {
+                return Promise.resolve(actual).then(function (v) {
+                  throw assertionError('expect(received).rejects.' + name + '()\\n\\nReceived promise resolved: ' + oneLine(v));
+                }, function (e) {
+                  // \`rejects.toThrow(...)\` checks the rejection reason itself.
+                  check(name === 'toThrow' ? function () { throw e; } : e);
+                });
+              }
+              check(actual);
+              return undefined;
+            };
+          });
+          return matchers;
+        }
+
+        window.expect = function (actual) {
+          const matchers = buildMatchers(actual, false, null);
+          matchers.not = buildMatchers(actual, true, null);
+          matchers.resolves = buildMatchers(actual, false, 'resolves');
+          matchers.resolves.not = buildMatchers(actual, true, 'resolves');
+          matchers.rejects = buildMatchers(actual, false, 'rejects');
+          matchers.rejects.not = buildMatchers(actual, true, 'rejects');
+          return matchers;
+        };
+
+        function runTest(test) {
+          return new Promise(function (resolve, reject) {
+            const timer = setTimeout(function () {
+              reject(new Error('Test timed out after ' + String(test.timeoutMs) + ' ms'));
+            }, test.timeoutMs);
+            Promise.resolve()
+              .then(function () { return test.fn(); })
+              .then(function () { clearTimeout(timer); resolve(); }, function (e) { clearTimeout(timer); reject(e); });
+          });
+        }
+
+        function postTestResult(test, status, durationMs, error) {
+          const err = error === undefined ? undefined : error instanceof Error ? error : new Error(oneLine(error));
+          post({
+            type: 'TEST_RESULT',
+            testId: test.id,
+            suite: test.suite,
+            name: test.name,
+            status: status,
+            durationMs: durationMs,
+            error: err ? (err.name === 'AssertionError' ? err.message : formatErrorMessage(err, 'Error')) : undefined,
+            stack: err && err.stack ? rewriteStack(err.stack) : undefined,
+            diff: err && err.__jscDiff ? err.__jscDiff : undefined,
+            runId: window.__RUN_ID__ || ''
+          });
+        }
+
+        // Runs the tests registered so far, one after another, streaming a
+        // TEST_RESULT per test. Tests registered meanwhile run right after.
+        // Settles once there is nothing left to run.
+        function runPendingTests() {
+          if (testsRunning || pendingTests.length === 0 || timedOut) return Promise.resolve();
+          const tests = pendingTests;
+          pendingTests = [];
+          testsRunning = true;
+          const runId = window.__RUN_ID__ || '';
+          const started = performance.now();
+          post({ type: 'TEST_RUN', total: tests.length, runId: runId });
+          let chain = Promise.resolve();
+          tests.forEach(function (test) {
+            chain = chain.then(function () {
+              if (timedOut) return undefined;
+              if (test.skip) {
+                postTestResult(test, 'skip', 0);
+                return undefined;
+              }
+              const testStarted = performance.now();
+              return runTest(test).then(function () {
+                postTestResult(test, 'pass', performance.now() - testStarted);
+              }, function (e) {
+                postTestResult(test, 'fail', performance.now() - testStarted, e);
+              });
+            });
+          });
+          return chain.then(function () {
+            testsRunning = false;
+            if (timedOut) return undefined;
+            post({ type: 'TEST_RUN_END', durationMs: performance.now() - started, runId: runId });
+            return runPendingTests();
+          });
+        }
+`;
+}
@@ -0,0 +1,31 @@
+import type { StackFrame } from './stackTrace';
+
+export type TestStatus = 'pass' | 'fail' | 'skip';
+
+export type TestResult = {
+  testId: string;
+  /** Enclosing `describe` names, outermost first. */
+  suite: string[];
+  name: string;
+  status: TestStatus;
+  durationMs: number;
+  error?: string;
+  frames?: StackFrame[];
+  /** Pretty-printed values of a failed equality assertion. */
+  diff?: { expected: string; actual: string };
+};
+
+export type TestRun = {
+  total: number;
+  results: TestResult[];
+  /** Null while tests are still running. */
+  durationMs: number | null;
+};
+
+export function countTestResults(results: TestResult[]): Record<TestStatus, number> {
+  const counts: Record<TestStatus, number> = { pass: 0, fail: 0, skip: 0 };
+  results.forEach((r) => {
+    counts[r.status] += 1;
+  });
+  return counts;
+}
@@ -0,0 +1,127 @@
+import { loader, type Monaco } from '@monaco-editor/react';
+import type { typescript } from 'monaco-editor';
+import { offsetToLineColumn } from './sourceScan';
+
+export type SnippetLanguage = 'js' | 'ts' | 'jsx' | 'tsx';
+
+export const SNIPPET_LANGUAGES: Array<{ id: SnippetLanguage; label: string }> = [
+  { id: 'js', label: 'JS' },
+  { id: 'ts', label: 'TS' },
+  { id: 'jsx', label: 'JSX' },
+  { id: 'tsx', label: 'TSX' },
+];
+
+export function parseSnippetLanguage(saved: string | null): SnippetLanguage | null {
+  if (saved === 'js' || saved === 'ts' || saved === 'jsx' || saved === 'tsx') return saved;
+  return null;
+}
+
+export function snippetFileName(language: SnippetLanguage): string {
+  return `main.${language}`;
+}
+
+export function snippetPath(language: SnippetLanguage): string {
+  return `/${snippetFileName(language)}`;
+}
+
+export type TranspileResult =
+  | { ok: true; code: string; sourceMap: string | null }
+  | { ok: false; errors: string[] };
+
+type MonacoDiagnostic = typescript.Diagnostic;
+
+function flattenMessage(messageText: MonacoDiagnostic['messageText']): string {
+  if (typeof messageText === 'string') return messageText;
+  const parts: string[] = [messageText.messageText];
+  (messageText.next ?? []).forEach((n) => parts.push(flattenMessage(n)));
+  return parts.join(' ');
+}
+
+function formatDiagnostic(fileName: string, source: string, d: MonacoDiagnostic): string {
+  const message = flattenMessage(d.messageText);
+  if (d.start === undefined) return `${fileName} - error TS${d.code}: ${message}`;
+  const { line, column } = offsetToLineColumn(source, d.start);
+  return `${fileName}:${line}:${column} - error TS${d.code}: ${message}`;
+}
+
+export function languageFromPath(path: string): SnippetLanguage | null {
+  const ext = path.toLowerCase().split('.').pop() ?? '';
+  if (ext === 'mjs' || ext === 'cjs') return 'js';
+  return parseSnippetLanguage(ext);
+}
+
+// Numbers the scratch models of concurrent calls apart.
+let scratchCounter = 0;
+
+/**
+ * Compiles a file to plain JavaScript using the Monaco TypeScript worker,
+ * so no extra compiler is shipped. An editor model already open at `path`
+ * is reused when it holds the same text (it's already synced to the worker);
+ * otherwise a temporary model is created for the duration of the call. It
+ * always gets its own scratch path, never `path` itself, so concurrent calls
+ * and editors opening the file can't pick it up before it's disposed.
+ *
+ * Only syntactic diagnostics block the run; type errors stay as editor squiggles.
+ */
+export async function transpileFile(path: string, source: string): Promise<TranspileResult> {
+  const language = languageFromPath(path);
+  const fileName = path.replace(/^\/+/, '');
+  if (!language) return { ok: false, errors: [`${fileName} - error: Unsupported file type`] };
+
+  const monaco: Monaco = await loader.init();
+  const existing = monaco.editor.getModel(monaco.Uri.parse(path));
+  let model = existing;
+  if (!model || model.getValue() !== source) {
+    // Same file name and extension, so the worker parses it the same way.
+    scratchCounter += 1;
+    const uri = monaco.Uri.parse(`/__transpile__/${scratchCounter}/${fileName}`);
+    model = monaco.editor.createModel(source, language === 'ts' || language === 'tsx' ? 'typescript' : 'javascript', uri);
+  }
+  const { uri } = model;
+
+  try {
+    const getWorker =
+      language === 'ts' || language === 'tsx'
+        ? monaco.languages.typescript.getTypeScriptWorker
+        : monaco.languages.typescript.getJavaScriptWorker;
+    const client = await getWorker();
+    const worker: typescript.TypeScriptWorker = await client(uri);
+    const fileUri = uri.toString();
+
+    const diagnostics = await worker.getSyntacticDiagnostics(fileUri);
+    const errors = diagnostics.filter((d) => d.category === 1);
+    if (errors.length > 0) {
+      return { ok: false, errors: errors.map((d) => formatDiagnostic(fileName, source, d)) };
+    }
+
+    // Plain JS runs as written so runtime line numbers match the editor 1:1.
+    if (language === 'js') return { ok: true, code: source, sourceMap: null };
+
+    const output = await worker.getEmitOutput(fileUri);
+    const js = output.outputFiles.find((f) => f.name.endsWith('.js'));
+    if (output.emitSkipped || !js) {
+      return { ok: false, errors: [`${fileName} - error: TypeScript emit failed`] };
+    }
+    const map = output.outputFiles.find((f) => f.name.endsWith('.js.map'));
+    return {
+      ok: true,
+      code: js.text.replace(/\n?\/\/# sourceMappingURL=.*\s*$/, '\n'),
+      sourceMap: map ? map.text : null,
+    };
+  } finally {
+    if (model !== existing) model.dispose();
+  }
+}
+
+export function transpileSnippet(language: SnippetLanguage, source: string): Promise<TranspileResult> {
+  return transpileFile(snippetPath(language), source);
+}
+
+/** Disposes editor models left behind by previously selected snippet languages. */
+export async function disposeOtherSnippetModels(language: SnippetLanguage): Promise<void> {
+  const monaco: Monaco = await loader.init();
+  SNIPPET_LANGUAGES.forEach(({ id }) => {
+    if (id === language) return;
+    monaco.editor.getModel(monaco.Uri.parse(snippetPath(id)))?.dispose();
+  });
+}
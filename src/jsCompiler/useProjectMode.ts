@@ -0,0 +1,177 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { Workspace } from '../editor/useWorkspace';
+import type { EditorTab } from '../editor/EditorTabs';
+import { snapshotFiles } from '../editor/versionHistory';
+import { isFile, type NodeId, type WorkspaceFileDescriptor } from '../editor/workspaceTypes';
+import { languageFromPath } from './transpile';
+
+const PROJECT_ENTRY_STORAGE_KEY = 'jscompiler_project_entry';
+
+export type SidebarView = 'files' | 'search' | 'history';
+
+/**
+ * What the diff editor shows instead of the open tab: a file from a version-history
+ * snapshot, or another tab's version of a file edited in both.
+ */
+export type ProjectComparison = { kind: 'snapshot'; snapshotId: string; path: string } | { kind: 'conflict'; fileId: NodeId };
+
+// `src/main.*` when there is one, like a Vite app; otherwise the first runnable file.
+function defaultEntryPath(runnable: WorkspaceFileDescriptor[]): string | null {
+  return (runnable.find((f) => /^src\/main\.[jt]sx?$/.test(f.path)) ?? runnable[0])?.path ?? null;
+}
+
+/**
+ * Project mode's editor state on top of the workspace: the run entry, open
+ * tabs, the sidebar view and what the diff editor is comparing.
+ */
+export function useProjectMode(workspace: Workspace) {
+  // Files that can be the entry of a project run.
+  const runnableFiles = workspace.files.filter((f) => languageFromPath(f.path) !== null);
+  const [savedEntryPath, setSavedEntryPath] = useState<string | null>(() => {
+    try {
+      return localStorage.getItem(PROJECT_ENTRY_STORAGE_KEY);
+    } catch {
+      return null;
+    }
+  });
+  // The chosen entry, or the default one when it was renamed or deleted.
+  const entryPath = runnableFiles.some((f) => f.path === savedEntryPath) ? savedEntryPath : defaultEntryPath(runnableFiles);
+  // The entry follows its file when it (or a folder above it) is renamed or moved.
+  const entryFileId = runnableFiles.find((f) => f.path === entryPath)?.id ?? null;
+  // Tracked only once the stored workspace is in: the default one shown while loading says nothing about renames.
+  const entryFileIdRef = useRef<NodeId | null>(null);
+  useEffect(() => {
+    if (!workspace.loaded) return;
+    const moved = runnableFiles.find((f) => f.id === entryFileIdRef.current);
+    if (moved && moved.path !== entryPath) setSavedEntryPath(moved.path);
+    else entryFileIdRef.current = entryFileId;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [workspace.files, workspace.loaded]);
+
+  useEffect(() => {
+    if (savedEntryPath === null) return;
+    try {
+      localStorage.setItem(PROJECT_ENTRY_STORAGE_KEY, savedEntryPath);
+    } catch {
+      // ignore
+    }
+  }, [savedEntryPath]);
+
+  // Workspace files open as editor tabs, in tab order.
+  const [openFileIds, setOpenFileIds] = useState<NodeId[]>([]);
+  const [activeFileId, setActiveFileId] = useState<NodeId | null>(null);
+  // The workspace loads asynchronously; start with its entry file open.
+  useEffect(() => {
+    if (!workspace.loaded) return;
+    const entry = workspace.files.find((f) => f.path === entryPath);
+    if (!entry) return;
+    setOpenFileIds([entry.id]);
+    setActiveFileId(entry.id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [workspace.loaded]);
+  const [sidebarView, setSidebarView] = useState<SidebarView>('files');
+  // Bumped by the search shortcut to focus the search box again.
+  const [searchFocusRequest, setSearchFocusRequest] = useState(0);
+  const [comparing, setComparing] = useState<ProjectComparison | null>(null);
+
+  const chooseEntry = (path: string) => {
+    entryFileIdRef.current = runnableFiles.find((f) => f.path === path)?.id ?? null;
+    setSavedEntryPath(path);
+  };
+
+  const openFile = (fileId: NodeId) => {
+    setOpenFileIds((prev) => (prev.includes(fileId) ? prev : [...prev, fileId]));
+    selectFile(fileId);
+  };
+
+  const selectFile = (fileId: NodeId) => {
+    setComparing(null);
+    setActiveFileId(fileId);
+  };
+
+  const closeFile = (fileId: NodeId) => {
+    const index = openFileIds.indexOf(fileId);
+    const next = openFileIds.filter((id) => id !== fileId);
+    setOpenFileIds(next);
+    // Closing the active tab activates its neighbour, like most editors.
+    if (fileId === activeFileId) setActiveFileId(next[Math.min(index, next.length - 1)] ?? null);
+  };
+
+  // Opens the entry file unless a tab whose file still exists is open already.
+  const openEntry = () => {
+    if (openFileIds.some((id) => workspace.getNode(id))) return;
+    const entry = workspace.files.find((f) => f.path === entryPath);
+    if (entry) openFile(entry.id);
+  };
+
+  const focusSearch = () => {
+    setSidebarView('search');
+    setSearchFocusRequest((n) => n + 1);
+  };
+
+  // Tabs whose files were deleted from the workspace simply drop out.
+  const editorTabs: EditorTab[] = openFileIds.flatMap((id) => {
+    const file = workspace.files.find((f) => f.id === id);
+    return file ? [{ id, name: file.name, path: file.path, dirty: workspace.dirtyFileIds.includes(id) }] : [];
+  });
+  const activeFile = editorTabs.find((t) => t.id === activeFileId) ?? null;
+  const activeFileNode = activeFile ? workspace.getNode(activeFile.id) : undefined;
+  const activeFileContent = activeFileNode && isFile(activeFileNode) ? activeFileNode.content : '';
+  // Both sides of the diff editor; undefined when the file doesn't exist on that side.
+  const comparison = useMemo(() => {
+    if (comparing?.kind === 'conflict') {
+      const conflict = workspace.syncConflicts.find((c) => c.fileId === comparing.fileId);
+      if (!conflict) return null;
+      const node = workspace.state.nodes[conflict.fileId];
+      return {
+        path: conflict.path,
+        label: 'other tab',
+        original: conflict.theirs as string | undefined,
+        modified: node && isFile(node) ? node.content : undefined,
+        originalModelPath: `sync:/other/${conflict.path}`,
+        snapshotId: null,
+      };
+    }
+    const snapshot = comparing && workspace.snapshots.find((s) => s.id === comparing.snapshotId);
+    if (!comparing || !snapshot) return null;
+    return {
+      path: comparing.path,
+      label: snapshot.message || new Date(snapshot.createdAt).toLocaleString(),
+      original: snapshotFiles(snapshot.state).get(comparing.path),
+      modified: snapshotFiles(workspace.state).get(comparing.path),
+      originalModelPath: `history:/${snapshot.id}/${comparing.path}`,
+      snapshotId: snapshot.id,
+    };
+  }, [comparing, workspace.snapshots, workspace.state, workspace.syncConflicts]);
+  const syncConflict = workspace.syncConflicts[0] ?? null;
+
+  const resolveConflict = (fileId: NodeId, keep: 'mine' | 'theirs') => {
+    if (comparing?.kind === 'conflict' && comparing.fileId === fileId) setComparing(null);
+    workspace.resolveConflict(fileId, keep);
+  };
+
+  return {
+    runnableFiles,
+    entryPath,
+    chooseEntry,
+    editorTabs,
+    activeFile,
+    activeFileContent,
+    openFile,
+    selectFile,
+    closeFile,
+    openEntry,
+    sidebarView,
+    setSidebarView,
+    searchFocusRequest,
+    focusSearch,
+    comparing,
+    setComparing,
+    comparison,
+    /** The first file also changed in another tab, until resolved. */
+    syncConflict,
+    resolveConflict,
+  };
+}
+
+export type ProjectMode = ReturnType<typeof useProjectMode>;
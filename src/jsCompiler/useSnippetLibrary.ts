@@ -0,0 +1,125 @@
+import { useEffect, useRef, useState } from 'react';
+import { deleteSnippet, loadSnippets, normalizeTags, putSnippet, type Snippet } from './snippetStore';
+import { describeStorageError } from '../editor/workspaceStore';
+import type { SnippetLanguage } from './transpile';
+
+/** How many snippets the recent list shows. */
+export const MAX_RECENT_SNIPPETS = 5;
+
+function makeSnippetId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return `snippet_${crypto.randomUUID()}`;
+  return `snippet_${Date.now().toString(36)}_${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * The snippet library, kept in IndexedDB. State updates are immediate;
+ * writes happen in the background, and a failed one is reported in `persistError`.
+ */
+export function useSnippetLibrary() {
+  const [snippets, setSnippets] = useState<Snippet[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [persistError, setPersistError] = useState<string | null>(null);
+  // Mirrors `snippets` so callbacks held across renders (autosave timers) never act on a stale list.
+  const snippetsRef = useRef<Snippet[]>([]);
+
+  const commit = (next: Snippet[]) => {
+    snippetsRef.current = next;
+    setSnippets(next);
+  };
+
+  const persist = (snippet: Snippet) => {
+    putSnippet(snippet).catch((e: unknown) => {
+      setPersistError(`"${snippet.name}" could not be saved: ${describeStorageError(e)}`);
+    });
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSnippets()
+      .catch((e: unknown) => {
+        if (!cancelled) setPersistError(`The snippet library could not be opened: ${describeStorageError(e)}`);
+        return [];
+      })
+      .then((stored) => {
+        if (cancelled) return;
+        // Keep anything created before the stored list arrived.
+        const next = [...stored, ...snippetsRef.current.filter((s) => !stored.some((t) => t.id === s.id))];
+        snippetsRef.current = next;
+        setSnippets(next);
+        setLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const recent = [...snippets].sort((a, b) => b.openedAt - a.openedAt).slice(0, MAX_RECENT_SNIPPETS);
+
+  const uniqueName = (name: string) => {
+    const taken = new Set(snippetsRef.current.map((s) => s.name.toLowerCase()));
+    if (!taken.has(name.toLowerCase())) return name;
+    let i = 2;
+    while (taken.has(`${name} ${i}`.toLowerCase())) i += 1;
+    return `${name} ${i}`;
+  };
+
+  const create = (input: { name?: string; code: string; language: SnippetLanguage; tags?: string[] }): Snippet => {
+    const now = Date.now();
+    const snippet: Snippet = {
+      id: makeSnippetId(),
+      name: uniqueName(input.name?.trim() || 'Untitled'),
+      code: input.code,
+      language: input.language,
+      tags: normalizeTags(input.tags ?? []),
+      createdAt: now,
+      updatedAt: now,
+      openedAt: now,
+    };
+    commit([...snippetsRef.current, snippet]);
+    persist(snippet);
+    return snippet;
+  };
+
+  const update = (id: string, patch: Partial<Pick<Snippet, 'name' | 'code' | 'language' | 'tags' | 'openedAt'>>) => {
+    const current = snippetsRef.current.find((s) => s.id === id);
+    if (!current) return;
+    const contentChanged = (['name', 'code', 'language', 'tags'] as const).some(
+      (key) => patch[key] !== undefined && JSON.stringify(patch[key]) !== JSON.stringify(current[key])
+    );
+    const next: Snippet = {
+      ...current,
+      ...patch,
+      name: patch.name !== undefined ? patch.name.trim() || current.name : current.name,
+      tags: patch.tags !== undefined ? normalizeTags(patch.tags) : current.tags,
+      updatedAt: contentChanged ? Date.now() : current.updatedAt,
+    };
+    commit(snippetsRef.current.map((s) => (s.id === id ? next : s)));
+    persist(next);
+  };
+
+  const duplicate = (id: string): Snippet | null => {
+    const source = snippetsRef.current.find((s) => s.id === id);
+    if (!source) return null;
+    return create({ name: `${source.name} copy`, code: source.code, language: source.language, tags: source.tags });
+  };
+
+  const remove = (id: string) => {
+    commit(snippetsRef.current.filter((s) => s.id !== id));
+    deleteSnippet(id).catch((e: unknown) => {
+      setPersistError(`The snippet could not be deleted: ${describeStorageError(e)}`);
+    });
+  };
+
+  return {
+    snippets,
+    loaded,
+    recent,
+    create,
+    update,
+    duplicate,
+    remove,
+    /** Why the last write failed, until dismissed. */
+    persistError,
+    dismissPersistError: () => setPersistError(null),
+  };
+}